@@ -1,8 +1,13 @@
+import type { MacroDefinition, EnvironmentDefinition } from '@/schemas';
+
 export interface RendererOptions {
   displayMode?: boolean;
   throwOnError?: boolean;
   trust?: boolean;
   strict?: boolean;
+  preamble?: string;
+  macros?: Record<string, MacroDefinition>;
+  environments?: Record<string, EnvironmentDefinition>;
   [key: string]: unknown;
 }
 
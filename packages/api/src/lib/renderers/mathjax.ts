@@ -6,15 +6,21 @@ import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html';
 import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages';
 import type { Renderer, RendererOptions, RenderResult } from './base';
 
+/**
+ * Extract the first TeX error message from MathJax output (rendered as merror)
+ */
+function extractTexError(html: string): string | null {
+  const match = html.match(/data-mjx-error="([^"]*)"/);
+  return match?.[1] ?? null;
+}
+
 export class MathJaxRenderer implements Renderer {
   private adaptor;
-  private tex;
   private svg;
 
   constructor() {
     this.adaptor = liteAdaptor();
     RegisterHTMLHandler(this.adaptor);
-    this.tex = new TeX({ packages: AllPackages });
     this.svg = new SVG({ fontCache: 'none' });
   }
 
@@ -23,11 +29,20 @@ export class MathJaxRenderer implements Renderer {
     const throwOnError = options.throwOnError ?? false;
 
     try {
+      // Fresh input jax per render so macro definitions never leak between equations
       const doc = mathjax.document('', {
-        InputJax: this.tex,
+        InputJax: this.createInputJax(options),
         OutputJax: this.svg,
       });
 
+      if (options.preamble) {
+        const preambleNode = doc.convert(options.preamble, { display: false });
+        const preambleError = extractTexError(this.adaptor.outerHTML(preambleNode));
+        if (preambleError) {
+          throw new Error(`Preamble error: ${preambleError}`);
+        }
+      }
+
       const node = doc.convert(latex, {
         display: displayMode,
         em: 16,
@@ -61,7 +76,7 @@ export class MathJaxRenderer implements Renderer {
   validate(latex: string): { valid: boolean; errors: string[] } {
     try {
       const doc = mathjax.document('', {
-        InputJax: this.tex,
+        InputJax: this.createInputJax(),
         OutputJax: this.svg,
       });
       doc.convert(latex, { display: true });
@@ -74,6 +89,19 @@ export class MathJaxRenderer implements Renderer {
     }
   }
 
+  private createInputJax(options: RendererOptions = {}) {
+    // Convert definitions to the configmacros format: name -> [body, args] / [begin, end, args]
+    const macros: Record<string, string | [string, number]> = {};
+    for (const [name, def] of Object.entries(options.macros ?? {})) {
+      macros[name] = def.args ? [def.body, def.args] : def.body;
+    }
+    const environments: Record<string, [string, string] | [string, string, number]> = {};
+    for (const [name, def] of Object.entries(options.environments ?? {})) {
+      environments[name] = def.args ? [def.begin, def.end, def.args] : [def.begin, def.end];
+    }
+    return new TeX({ packages: AllPackages, macros, environments });
+  }
+
   getVersion(): string {
     return '3.2.2';
   }
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { inkBounds } from '@mathedit/core/svg/bounds';
+import { generateSVG } from './generator';
+
+// Equations whose accents, fractions, descenders or tags used to be clipped
+const CASES = [
+  '\\hat{\\dfrac{a}{b}}',
+  '\\widehat{\\frac{\\int_0^1 f}{2}}',
+  'g_y',
+  'x = 1 \\tag{1}',
+  '\\widehat{\\frac{\\int_0^1 f}{2}} \\tag{2}',
+];
+
+describe('generateSVG', () => {
+  it.each(CASES.flatMap((latex) => (['tex', 'ink', 'union'] as const).map((bounds) => [latex, bounds] as const)))(
+    'keeps the ink of %s inside the viewBox (bounds: %s)',
+    (latex, bounds) => {
+      const { svg, errors } = generateSVG({
+        equations: [{ latex, displayMode: 'block' }],
+        options: { globalPreamble: '', embedMetadata: false, bounds },
+      });
+      expect(errors).toEqual([]);
+
+      const [minX = 0, minY = 0, width = 0, height = 0] = (svg.match(/viewBox="([^"]+)"/)?.[1] ?? '').split(' ').map(parseFloat);
+      const ink = inkBounds(svg);
+      expect(ink).toBeDefined();
+      expect(ink!.minX).toBeGreaterThanOrEqual(minX - 1e-6);
+      expect(ink!.minY).toBeGreaterThanOrEqual(minY - 1e-6);
+      expect(ink!.maxX).toBeLessThanOrEqual(minX + width + 1e-6);
+      expect(ink!.maxY).toBeLessThanOrEqual(minY + height + 1e-6);
+    }
+  );
+});
@@ -1,5 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Equation, EquationInput, RenderOptions } from '@/schemas';
+import { escapeXmlAttribute, glyphHashOf, type SVGMetadataEquation } from '@mathedit/core/metadata';
+import { combinePreambles } from '@mathedit/core/preamble';
+import { inkBounds, unionBounds } from '@mathedit/core/svg/bounds';
+import { frameMarkup, frameOutset, type FrameOptions } from '@mathedit/core/svg/frame';
+import { layoutCells, relationOffset, type LayoutCell } from '@mathedit/core/svg/layout';
+import { darkThemeStyle, splitColorOpacity } from '@mathedit/core/svg/theme';
+import {
+  DEFAULT_FONT_SIZE,
+  MATHJAX_EX_IN_EM,
+  fontSizeInPixels,
+  formatFontSize,
+  formatLength,
+  parseFontSize,
+} from '@mathedit/core/units';
+import type { EquationInput, RenderOptions } from '@/schemas';
 import { MathJaxRenderer } from '@/lib/renderers/mathjax';
 import { createMetadata, serializeMetadata } from './metadata';
 
@@ -18,12 +32,13 @@ export interface GenerateSVGResult {
 export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
   const renderer = new MathJaxRenderer();
   const errors: string[] = [];
-  const processedEquations: Equation[] = [];
+  const processedEquations: SVGMetadataEquation[] = [];
   const svgGroups: string[] = [];
+  const cells: LayoutCell[] = [];
 
-  let maxWidth = 0;
-  let currentY = 0;
-  const padding = 0;
+  const padding = input.options?.padding ?? 0;
+  const alignRelations = input.options?.layout?.align === 'relation';
+  const documentFontSize = parseFontSize(input.options?.fontSize ?? '') ?? DEFAULT_FONT_SIZE;
 
   for (const eqInput of input.equations) {
     const equationId = uuidv4();
@@ -34,11 +49,20 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
       const result = renderer.render(eqInput.latex, {
         displayMode,
         throwOnError: true,
+        preamble: combinePreambles(input.options?.globalPreamble, eqInput.preambleOverride),
+        macros: input.options?.macros,
+        environments: input.options?.environments,
       });
 
       // Check if this is a tagged equation (uses width="100%" and min-width style)
       const isTaggedEquation = result.html.includes('width="100%"') || result.html.includes('data-labels');
 
+      // MathJax sizes are in em (viewBox units are 1/1000em) or ex, so everything scales with the font size
+      const fontSize = parseFontSize(eqInput.fontSize ?? '') ?? documentFontSize;
+      const emPx = fontSizeInPixels(fontSize);
+      const toPx = (em: number) => Math.round(em * emPx * 1000) / 1000;
+      const bounds = eqInput.bounds ?? input.options?.bounds ?? 'union';
+
       // Extract viewBox, width and height from MathJax SVG
       const viewBoxMatch = result.html.match(/viewBox="([^"]+)"/);
       const widthMatch = result.html.match(/width="([0-9.]+)ex"/);
@@ -52,32 +76,59 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
       let viewBox = '0 0 100 40';
       let svgInnerContent: string;
 
+      // Depth below the baseline, which MathJax gives as the vertical-align of tagged and untagged output alike
+      const verticalAlignMatch = result.html.match(/vertical-align:\s*(-?[0-9.]+)ex/);
+      const mathjaxDepth = verticalAlignMatch?.[1] ? toPx(-parseFloat(verticalAlignMatch[1]) * MATHJAX_EX_IN_EM) : 0;
+
+      let boxDepth: number | undefined;   // Depth of the cropped box, when not MathJax's own
+      let relationX: number | undefined;  // Position of the first relation symbol, for align: relation
+
       if (isTaggedEquation) {
         // For tagged equations, use min-width and height from MathJax output
-        const pxPerEx = 22;
         const minWidthEx = minWidthMatch?.[1] ? parseFloat(minWidthMatch[1]) : 20;
-        width = minWidthEx * pxPerEx;
+        width = toPx(minWidthEx * MATHJAX_EX_IN_EM);
+        height = toPx(heightMatch?.[1] ? parseFloat(heightMatch[1]) * MATHJAX_EX_IN_EM : 2);
 
-        const exHeightMatch = result.html.match(/height="([0-9.]+)ex"/);
-        height = exHeightMatch?.[1] ? parseFloat(exHeightMatch[1]) * pxPerEx : 50;
-
-        // Extract the SVG, just fix the height dimension
+        // Extract the SVG and fix the height; the rows and labels are scaled to fit it, so the
+        // content is drawn at the same em as untagged equations
         const svgMatch = result.html.match(/<svg[^>]*>[\s\S]*<\/svg>/);
         if (svgMatch) {
           svgInnerContent = svgMatch[0]
-            .replace(/height="[0-9.]+ex"/, `height="${height}"`);
+            .replace(/height="[0-9.]+ex"/, `height="${height}"`)
+            .replace('width="100%"', `width="${width}"`);
         } else {
           svgInnerContent = result.html;
         }
 
-        viewBox = `0 0 ${width} ${height}`;
+        // The rows and labels keep their full-width layout in every bounds mode, and the box only
+        // grows to the ink: MathJax's scaling can draw a little past the rounded height
+        const layoutBox = { minX: 0, minY: 0, maxX: width, maxY: height };
+        const ink = inkBounds(`<svg viewBox="0 0 ${width} ${height}">${svgInnerContent}</svg>`);
+        const box = ink ? unionBounds(layoutBox, ink) : layoutBox;
+        // Rounded outward to thousandths, past floating-point noise in the ink
+        const outward = (value: number, round: typeof Math.floor) => round(Math.round(value * 1e6) / 1000) / 1000;
+        const [left, top] = [outward(box.minX, Math.floor), outward(box.minY, Math.floor)];
+        const [right, bottom] = [outward(box.maxX, Math.ceil), outward(box.maxY, Math.ceil)];
+        boxDepth = Math.round((mathjaxDepth + bottom - height) * 1000) / 1000;
+        width = Math.round((right - left) * 1000) / 1000;
+        height = Math.round((bottom - top) * 1000) / 1000;
+        viewBox = `${left} ${top} ${width} ${height}`;
       } else if (viewBoxMatch?.[1]) {
-        const [_minX, _minY, vbWidth, vbHeight] = viewBoxMatch[1].split(' ').map(parseFloat);
-        viewBox = viewBoxMatch[1];
-        // Scale down to reasonable pixel dimensions (divide by ~20 to get readable size)
-        const scale = 0.05;
-        width = (vbWidth || 100) * scale;
-        height = (vbHeight || 100) * scale;
+        const [minX = 0, minY = 0, vbWidth, vbHeight] = viewBoxMatch[1].split(' ').map(parseFloat);
+        const texBox = { minX, minY, maxX: minX + (vbWidth || 100), maxY: minY + (vbHeight || 100) };
+
+        // Crop to the TeX box, the drawn glyphs, or both; the box is widened to whole 1/10 units
+        const ink = bounds === 'tex' ? undefined : inkBounds(result.html);
+        const box = !ink ? texBox : bounds === 'ink' ? ink : unionBounds(texBox, ink);
+        const [left, top] = [Math.floor(box.minX * 10) / 10, Math.floor(box.minY * 10) / 10];
+        const [right, bottom] = [Math.ceil(box.maxX * 10) / 10, Math.ceil(box.maxY * 10) / 10];
+        viewBox = `${left} ${top} ${Math.round((right - left) * 10) / 10} ${Math.round((bottom - top) * 10) / 10}`;
+        width = toPx((right - left) / 1000);
+        height = toPx((bottom - top) / 1000);
+        boxDepth = toPx(bottom / 1000);
+
+        const relation = alignRelations ? relationOffset(result.html) : undefined;
+        relationX = relation !== undefined ? toPx((relation - left) / 1000) : undefined;
 
         // Extract inner SVG content
         // Use greedy match to capture nested SVGs
@@ -85,8 +136,8 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
         svgInnerContent = svgContentMatch?.[1] || result.html;
       } else if (widthMatch?.[1] && heightMatch?.[1]) {
         // Fallback to ex-based calculation
-        width = parseFloat(widthMatch[1]) * 8;
-        height = parseFloat(heightMatch[1]) * 8;
+        width = toPx(parseFloat(widthMatch[1]) * MATHJAX_EX_IN_EM);
+        height = toPx(parseFloat(heightMatch[1]) * MATHJAX_EX_IN_EM);
 
         const svgContentMatch = result.html.match(/<svg[^>]*>([\s\S]*)<\/svg>/);
         svgInnerContent = svgContentMatch?.[1] || result.html;
@@ -95,12 +146,15 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
         svgInnerContent = svgContentMatch?.[1] || result.html;
       }
 
+      const depth = boxDepth ?? mathjaxDepth;
+
       // MathJax hardcodes stroke="black" fill="black" - we need to override or remove them
-      if (input.options?.color) {
+      const color = eqInput.color ?? input.options?.color;
+      if (color) {
         // Replace hardcoded black with the specified color
         svgInnerContent = svgInnerContent
-          .replace(/stroke="black"/g, `stroke="${input.options.color}"`)
-          .replace(/fill="black"/g, `fill="${input.options.color}"`);
+          .replace(/stroke="black"/g, `stroke="${color}"`)
+          .replace(/fill="black"/g, `fill="${color}"`);
       } else {
         // Remove hardcoded colors to allow CSS/inheritance control
         svgInnerContent = svgInnerContent
@@ -108,37 +162,57 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
           .replace(/\s+fill="black"/g, '');
       }
 
-      const equation: Equation = {
+      // Per-equation sizing and frame, over the request defaults
+      const scale = eqInput.scale ?? 1;
+      const equationPadding = eqInput.padding ?? padding;
+      const frame: FrameOptions = {
+        backgroundColor: eqInput.backgroundColor ?? input.options?.backgroundColor,
+        cornerRadius: eqInput.cornerRadius ?? input.options?.cornerRadius,
+        border: eqInput.border ?? input.options?.border,
+        shadow: eqInput.shadow ?? input.options?.shadow,
+      };
+      const outset = frameOutset(frame);
+      const scaledWidth = width * scale;
+      const scaledHeight = height * scale;
+      const baseline = Math.round((scaledHeight - depth * scale) * 1000) / 1000;
+
+      const equation: SVGMetadataEquation = {
         id: equationId,
         latex: eqInput.latex,
         displayMode: eqInput.displayMode ?? 'block',
         environment: eqInput.environment ?? null,
         label: eqInput.label ?? null,
         preambleOverride: eqInput.preambleOverride ?? null,
+        scale: eqInput.scale,
+        fontSize: formatFontSize(fontSize),
+        padding: eqInput.padding ?? input.options?.padding,
+        ...frame,
         bbox: {
-          x: padding,
-          y: currentY,
-          width,
-          height,
+          x: outset.left + equationPadding,   // Relative to the equation's cell until the equations are laid out
+          y: outset.top + equationPadding,
+          width: scaledWidth,
+          height: scaledHeight,
+          baseline,
+          depth: depth * scale,
         },
         customData: eqInput.customData ?? {},
       };
 
       processedEquations.push(equation);
 
-      const escapeXmlAttribute = (str: string) => {
-        return str
-          .replace(/&/g, '&amp;')
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;')
-          .replace(/"/g, '&quot;')
-          .replace(/'/g, '&apos;');
-      };
-
       // Wrap the MathJax SVG content in a nested SVG with preserved viewBox
       // Add color styling if specified
-      const colorStyle = input.options?.color ? ` fill="${input.options.color}"` : '';
+      const colorStyle = color ? ` fill="${color}"` : '';
+      const background = frameMarkup(svgGroupId, scaledWidth, scaledHeight, equationPadding, frame);
+
+      cells.push({
+        width: outset.left + scaledWidth + 2 * equationPadding + outset.right,
+        height: outset.top + scaledHeight + 2 * equationPadding + outset.bottom,
+        baseline: equation.bbox.y + baseline,
+        relation: relationX !== undefined ? equation.bbox.x + relationX * scale : undefined,
+      });
 
+      // Groups are drawn at the origin of their cell and moved once every equation is laid out
       let svgGroup: string;
       if (isTaggedEquation) {
         // For tagged equations, wrap in a container SVG with fixed dimensions
@@ -148,8 +222,8 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
      data-equation-id="${equationId}"
      data-latex="${escapeXmlAttribute(eqInput.latex)}"
      data-display-mode="${equation.displayMode}"
-     transform="translate(${padding}, ${currentY})"${colorStyle}>
-    <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+     transform="translate(${equation.bbox.x}, ${equation.bbox.y})"${colorStyle}>${background}
+    <svg width="${scaledWidth}" height="${scaledHeight}" viewBox="${viewBox}">
       ${svgInnerContent}
     </svg>
   </g>`;
@@ -160,17 +234,16 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
      data-equation-id="${equationId}"
      data-latex="${escapeXmlAttribute(eqInput.latex)}"
      data-display-mode="${equation.displayMode}"
-     transform="translate(${padding}, ${currentY})"${colorStyle}>
-    <svg viewBox="${viewBox}" width="${width}" height="${height}">
+     transform="translate(${equation.bbox.x}, ${equation.bbox.y})"${colorStyle}>${background}
+    <svg viewBox="${viewBox}" width="${scaledWidth}" height="${scaledHeight}">
       ${svgInnerContent}
     </svg>
   </g>`;
       }
 
+      svgGroup = splitColorOpacity(svgGroup);
+      equation.glyphHash = glyphHashOf(svgGroup);
       svgGroups.push(svgGroup);
-
-      maxWidth = Math.max(maxWidth, width + 2 * padding);
-      currentY += height;
     } catch (error) {
       errors.push(
         `Error rendering equation "${eqInput.latex}": ${error instanceof Error ? error.message : String(error)}`
@@ -178,12 +251,39 @@ export function generateSVG(input: GenerateSVGOptions): GenerateSVGResult {
     }
   }
 
-  const totalHeight = currentY;
-  const viewBoxWidth = maxWidth || 100;
-  const viewBoxHeight = totalHeight || 50;
+  // Place the equations now that all are measured; cells include each equation's padding
+  const layout = layoutCells(cells, input.options?.layout);
+  const placedGroups = svgGroups.map((svgGroup, index) => {
+    const equation = processedEquations[index];
+    const position = layout.positions[index];
+    if (!equation || !position) return svgGroup;
+
+    equation.bbox.x = Math.round((position.x + equation.bbox.x) * 1000) / 1000;
+    equation.bbox.y = Math.round((position.y + equation.bbox.y) * 1000) / 1000;
+    return svgGroup.replace(/transform="translate\([^)]*\)"/, `transform="translate(${equation.bbox.x}, ${equation.bbox.y})"`);
+  });
+
+  const viewBoxWidth = (cells.length > 0 && layout.width) || 100;
+  const viewBoxHeight = (cells.length > 0 && layout.height) || 50;
+
+  // Inline in text, the SVG sits on the baseline of its last equation
+  const lastBox = processedEquations[processedEquations.length - 1]?.bbox;
+  const verticalAlign = input.options?.verticalAlign && lastBox?.baseline !== undefined
+    ? `
+     style="vertical-align: ${formatLength(lastBox.y + lastBox.baseline - viewBoxHeight, documentFontSize.unit)}"`
+    : '';
 
   const metadata = createMetadata({
     globalPreamble: input.options?.globalPreamble,
+    macros: input.options?.macros,
+    environments: input.options?.environments,
+    frame: {
+      padding: input.options?.padding,
+      backgroundColor: input.options?.backgroundColor,
+      cornerRadius: input.options?.cornerRadius,
+      border: input.options?.border,
+      shadow: input.options?.shadow,
+    },
     engineVersion: renderer.getVersion(),
     engineOptions: input.options?.engineOptions ?? {},
     equations: processedEquations,
@@ -198,11 +298,17 @@ ${serializeMetadata(metadata)}
   </metadata>`
       : '';
 
+  // Light/dark theming: colors are rendered for the light theme and swapped by an embedded style
+  const themeScope = uuidv4();
+  const themeStyle = input.options?.darkColors ? darkThemeStyle(input.options.darkColors, themeScope) : '';
+  const themeAttribute = themeStyle ? `
+     data-theme-scope="${themeScope}"` : '';
+
   const svg = `<svg xmlns="http://www.w3.org/2000/svg"
-     width="${viewBoxWidth}"
-     height="${viewBoxHeight}"
-     viewBox="0 0 ${viewBoxWidth} ${viewBoxHeight}">${metadataXML}
-${svgGroups.join('\n')}
+     width="${formatLength(viewBoxWidth, documentFontSize.unit)}"
+     height="${formatLength(viewBoxHeight, documentFontSize.unit)}"
+     viewBox="0 0 ${viewBoxWidth} ${viewBoxHeight}"${verticalAlign}${themeAttribute}>${metadataXML}${themeStyle}
+${placedGroups.join('\n')}
 </svg>`;
 
   return {
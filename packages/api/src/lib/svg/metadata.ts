@@ -1,40 +1,26 @@
-import { v4 as uuidv4 } from 'uuid';
-import type { SVGMetadata, Equation } from '@/schemas';
+import { createMetadata as createCoreMetadata, parseMetadata as parseCoreMetadata } from '@mathedit/core/metadata';
+import type { CreateMetadataOptions, ParseMetadataResult } from '@mathedit/core/metadata';
+import type { SVGMetadata } from '@/schemas';
 
-export interface CreateMetadataOptions {
-  globalPreamble?: string;
-  engineVersion: string;
-  engineOptions?: Record<string, unknown>;
-  equations: Equation[];
-  hostname?: string;
-}
+export type { CreateMetadataOptions, ParseMetadataResult };
 
 export function createMetadata(options: CreateMetadataOptions): SVGMetadata {
-  const now = new Date().toISOString();
-
-  return {
-    formatVersion: 1,
-    generator: 'mathedit',
-    generatorVersion: '0.1.0',
-    generatorHostname: options.hostname,
-    documentId: uuidv4(),
-    createdAt: now,
-    updatedAt: now,
-    globalPreamble: options.globalPreamble ?? '',
-    engineVersion: options.engineVersion,
-    engineOptions: options.engineOptions ?? {},
-    equations: options.equations,
-  };
+  return createCoreMetadata(options);
 }
 
+/**
+ * Metadata JSON escaped for the content of the <metadata> element, so the SVG stays valid XML
+ */
 export function serializeMetadata(metadata: SVGMetadata): string {
-  return JSON.stringify(metadata, null, 2);
+  return JSON.stringify(metadata, null, 2)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
 }
 
-export function parseMetadata(metadataContent: string): SVGMetadata | null {
-  try {
-    return JSON.parse(metadataContent) as SVGMetadata;
-  } catch {
-    return null;
-  }
+/**
+ * Parse metadata JSON, upgrading older format versions; invalid metadata is reported in `errors`
+ */
+export function parseMetadata(metadataContent: string): ParseMetadataResult {
+  return parseCoreMetadata(metadataContent);
 }
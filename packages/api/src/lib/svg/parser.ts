@@ -1,77 +1,61 @@
+import { extractSvgMetadata, type SVGExtractionReport } from '@mathedit/core/metadata';
+import { importWithAdapters } from '@mathedit/core/svg/adapters';
 import type { SVGMetadata, Equation } from '@/schemas';
-import { parseMetadata } from './metadata';
 
 export interface ParseSVGResult {
   hasMetadata: boolean;
   metadata?: SVGMetadata;
+  format?: string;
+  approximate?: boolean;
   equations: Equation[];
+  modifiedSinceExport: string[];
+  report: SVGExtractionReport;
   errors: string[];
 }
 
 export function parseSVG(svgContent: string): ParseSVGResult {
-  const errors: string[] = [];
-  const equations: Equation[] = [];
-
-  try {
-    const metadataMatch = svgContent.match(
-      /<metadata[^>]*id="latex-equations"[^>]*>([\s\S]*?)<\/metadata>/
-    );
-
-    if (metadataMatch) {
-      const metadataContent = metadataMatch[1]?.trim();
-      if (metadataContent) {
-        const metadata = parseMetadata(metadataContent);
-        if (metadata) {
-          return {
-            hasMetadata: true,
-            metadata,
-            equations: metadata.equations,
-            errors: [],
-          };
-        } else {
-          errors.push('Failed to parse metadata JSON');
-        }
-      }
-    }
-
-    const groupMatches = svgContent.matchAll(
-      /<g[^>]*data-role="latex-equation"[^>]*>([\s\S]*?)<\/g>/g
-    );
-
-    for (const match of groupMatches) {
-      const groupTag = match[0];
-      const idMatch = groupTag?.match(/data-equation-id="([^"]+)"/);
-      const latexMatch = groupTag?.match(/data-latex="([^"]+)"/);
-      const displayModeMatch = groupTag?.match(/data-display-mode="([^"]+)"/);
-
-      if (latexMatch) {
-        const latex = latexMatch[1]?.replace(/&quot;/g, '"') || '';
-        equations.push({
-          id: idMatch?.[1] || '',
-          latex,
-          displayMode: (displayModeMatch?.[1] as 'inline' | 'block') || 'block',
-          environment: null,
-          label: null,
-          preambleOverride: null,
-          customData: {},
-        });
-      }
-    }
-
-    if (equations.length === 0 && !metadataMatch) {
-      errors.push('No LaTeX equations found in SVG');
-    }
-
-    return {
-      hasMetadata: false,
-      equations,
-      errors,
-    };
-  } catch (error) {
-    return {
-      hasMetadata: false,
-      equations: [],
-      errors: [error instanceof Error ? error.message : String(error)],
-    };
+  const { metadata, attributeEquations, modifiedSinceExport, report, errors } = extractSvgMetadata(svgContent);
+
+  const equations: Equation[] = [
+    ...(metadata?.equations ?? []),
+    ...attributeEquations.map((eq) => ({
+      id: eq.id ?? '',
+      latex: eq.latex,
+      displayMode: eq.displayMode ?? 'block',
+      environment: null,
+      label: null,
+      preambleOverride: null,
+      customData: {},
+    })),
+  ];
+
+  // SVGs of other equation tools (LaTeXiT, TexText, MathJax), or LaTeX rebuilt from MathJax output
+  const adapted = equations.length === 0 ? importWithAdapters(svgContent) : undefined;
+  if (adapted) {
+    equations.push(...adapted.equations.map((eq) => ({
+      id: eq.id,
+      latex: eq.latex,
+      displayMode: 'block' as const,
+      environment: null,
+      label: eq.label,
+      preambleOverride: eq.preamble ?? null,
+      customData: {
+        ...(eq.color ? { color: eq.color } : {}),
+        ...(eq.approximate ? { approximate: true } : {}),
+      },
+    })));
+  } else if (equations.length === 0 && report.metadataBlocks === 0) {
+    errors.push('No LaTeX equations found in SVG');
   }
+
+  return {
+    hasMetadata: metadata !== undefined,
+    metadata,
+    format: adapted?.format ?? (equations.length > 0 ? 'mathedit' : undefined),
+    ...(adapted?.equations.some((eq) => eq.approximate) ? { approximate: true } : {}),
+    equations,
+    modifiedSinceExport: Object.keys(modifiedSinceExport).filter((id) => modifiedSinceExport[id]),
+    report,
+    errors,
+  };
 }
@@ -9,7 +9,7 @@ const parseRoute = createRoute({
   path: '/',
   tags: ['Parse'],
   summary: 'Parse SVG to extract LaTeX',
-  description: 'Extract LaTeX equations and metadata from an SVG generated by this API. Supports both JSON (`application/json`) with svg field and direct SVG content (`image/svg+xml` or `text/plain`). You can pipe SVG directly: `cat image.svg | curl -X POST <url> -H "Content-Type: image/svg+xml"`',
+  description: 'Extract LaTeX equations and metadata from an SVG generated by this API or the editor, or the LaTeX sources embedded by LaTeXiT (with its preamble), Inkscape TexText and MathJax (`data-latex`); LaTeX is rebuilt approximately from plain MathJax SVG output as a last resort. Supports both JSON (`application/json`) with svg field and direct SVG content (`image/svg+xml` or `text/plain`). You can pipe SVG directly: `cat image.svg | curl -X POST <url> -H "Content-Type: image/svg+xml"`',
   request: {
     body: {
       content: {
@@ -83,7 +83,11 @@ parse.openapi(parseRoute, async (c) => {
     success: result.errors.length === 0,
     hasMetadata: result.hasMetadata,
     metadata: result.metadata,
+    format: result.format,
+    approximate: result.approximate,
     equations: result.equations,
+    modifiedSinceExport: result.modifiedSinceExport,
+    report: result.report,
     errors: result.errors,
   });
 });
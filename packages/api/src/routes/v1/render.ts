@@ -1,6 +1,7 @@
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
 import { RenderRequestSchema, RenderResponseSchema } from '@/schemas';
 import { generateSVG, minifySVG } from '@/lib/svg/generator';
+import { FONT_SIZE_PATTERN } from '@mathedit/core/units';
 
 const render = new OpenAPIHono();
 
@@ -48,6 +49,22 @@ const renderJsonRoute = createRoute({
         },
         example: '#000000',
       }),
+      backgroundColor: z.string().optional().openapi({
+        param: {
+          name: 'backgroundColor',
+          in: 'query',
+          description: 'CSS color filled behind the equation (e.g., #FFFFFF), overrides the background color in the JSON body options',
+        },
+        example: '#ffffff',
+      }),
+      fontSize: z.string().regex(FONT_SIZE_PATTERN, 'Expected a font size in pt or px, e.g. 28pt').optional().openapi({
+        param: {
+          name: 'fontSize',
+          in: 'query',
+          description: 'Font size with its unit (e.g., 28pt or 16px); the SVG width and height are given in this unit',
+        },
+        example: '28pt',
+      }),
     }),
     body: {
       content: {
@@ -121,6 +138,8 @@ render.openapi(renderJsonRoute, async (c) => {
       globalPreamble: '',
       embedMetadata: queryParams.metadata,
       color: queryParams.color,
+      backgroundColor: queryParams.backgroundColor,
+      fontSize: queryParams.fontSize,
     };
   } else {
     // Handle JSON input
@@ -133,6 +152,12 @@ render.openapi(renderJsonRoute, async (c) => {
     if (queryParams.color) {
       options.color = queryParams.color;
     }
+    if (queryParams.backgroundColor) {
+      options.backgroundColor = queryParams.backgroundColor;
+    }
+    if (queryParams.fontSize) {
+      options.fontSize = queryParams.fontSize;
+    }
   }
 
   const hostname = new URL(c.req.url).host;
@@ -1,4 +1,17 @@
 import { z } from 'zod';
+import { FONT_SIZE_PATTERN } from '@mathedit/core/units';
+
+export const BorderSchema = z.object({
+  width: z.number().nonnegative().openapi({ example: 1, description: 'Stroke width in pixels (0 for no border)' }),
+  color: z.string().openapi({ example: '#cccccc', description: 'CSS stroke color' }),
+});
+
+export const ShadowSchema = z.object({
+  offsetX: z.number().openapi({ example: 0, description: 'Horizontal offset in pixels' }),
+  offsetY: z.number().openapi({ example: 2, description: 'Vertical offset in pixels' }),
+  blur: z.number().nonnegative().openapi({ example: 4, description: 'Blur radius in pixels' }),
+  color: z.string().openapi({ example: '#00000040', description: 'Shadow color, #RRGGBBAA for a translucent shadow' }),
+});
 
 export const EquationSchema = z.object({
   id: z.string().optional().openapi({
@@ -24,12 +37,48 @@ export const EquationSchema = z.object({
     example: '\\newcommand{\\R}{\\mathbb{R}}',
     description: 'Custom LaTeX preamble for this specific equation (overrides global preamble) - optional'
   }),
+  scale: z.number().positive().optional().openapi({
+    example: 1.5,
+    description: 'Multiplier applied to the rendered size of this equation - optional'
+  }),
+  fontSize: z.string().regex(FONT_SIZE_PATTERN, 'Expected a font size in pt or px, e.g. 28pt').optional().openapi({
+    example: '28pt',
+    description: 'Font size for this equation with its unit (e.g., 28pt or 16px), overrides the request font size - optional'
+  }),
+  bounds: z.enum(['tex', 'ink', 'union']).optional().openapi({
+    example: 'ink',
+    description: 'Box this equation is cropped to, overrides the request bounds - optional'
+  }),
+  padding: z.number().nonnegative().optional().openapi({
+    example: 4,
+    description: 'Space in pixels around this equation - optional'
+  }),
+  color: z.string().optional().openapi({
+    example: '#c0392b',
+    description: 'CSS color for this equation, overrides the request color - optional'
+  }),
+  backgroundColor: z.string().optional().openapi({
+    example: '#ffffff',
+    description: 'CSS color filled behind this equation (e.g., #ffffff), overrides the request background color - optional'
+  }),
+  cornerRadius: z.number().nonnegative().optional().openapi({
+    example: 6,
+    description: 'Radius in pixels of the background corners, overrides the request corner radius - optional'
+  }),
+  border: BorderSchema.optional().openapi({
+    description: 'Stroke around the background of this equation, overrides the request border - optional'
+  }),
+  shadow: ShadowSchema.optional().openapi({
+    description: 'Drop shadow of the background of this equation, overrides the request shadow - optional'
+  }),
   bbox: z
     .object({
       x: z.number().openapi({ description: 'X position in the SVG canvas' }),
       y: z.number().openapi({ description: 'Y position in the SVG canvas' }),
       width: z.number().openapi({ description: 'Width of the equation in pixels' }),
       height: z.number().openapi({ description: 'Height of the equation in pixels' }),
+      baseline: z.number().optional().openapi({ description: 'Distance in pixels from the top of the box to the baseline' }),
+      depth: z.number().optional().openapi({ description: 'Distance in pixels from the baseline to the bottom of the box' }),
     })
     .optional().openapi({
       description: 'Bounding box coordinates and dimensions (auto-calculated during rendering)'
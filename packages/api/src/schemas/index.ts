@@ -1,4 +1,5 @@
 export * from './equation';
+export * from './macros';
 export * from './metadata';
 export * from './render';
 export * from './parse';
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const MacroDefinitionSchema = z.object({
+  body: z.string().openapi({
+    example: '\\left\\lVert #1 \\right\\rVert',
+    description: 'Replacement LaTeX for the macro (use #1..#9 for arguments)'
+  }),
+  args: z.number().int().min(1).max(9).optional().openapi({
+    example: 1,
+    description: 'Number of arguments the macro takes - optional'
+  }),
+});
+
+export const EnvironmentDefinitionSchema = z.object({
+  begin: z.string().openapi({
+    example: '\\left\\{\\begin{array}{ll}',
+    description: 'LaTeX inserted at \\begin{name}'
+  }),
+  end: z.string().openapi({
+    example: '\\end{array}\\right.',
+    description: 'LaTeX inserted at \\end{name}'
+  }),
+  args: z.number().int().min(1).max(9).optional().openapi({
+    description: 'Number of arguments the environment takes - optional'
+  }),
+});
+
+export const MacrosSchema = z.record(z.string(), MacroDefinitionSchema);
+export const EnvironmentsSchema = z.record(z.string(), EnvironmentDefinitionSchema);
+
+export type MacroDefinition = z.infer<typeof MacroDefinitionSchema>;
+export type EnvironmentDefinition = z.infer<typeof EnvironmentDefinitionSchema>;
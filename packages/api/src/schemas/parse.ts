@@ -9,6 +9,33 @@ export const ParseRequestSchema = z.object({
   }),
 });
 
+export const ParseReportSchema = z.object({
+  metadataBlocks: z.number().int().openapi({
+    example: 1,
+    description: 'Number of latex-equations metadata blocks found'
+  }),
+  invalidMetadataBlocks: z.number().int().openapi({
+    example: 0,
+    description: 'Number of metadata blocks that were empty or could not be parsed or validated'
+  }),
+  metadataEquations: z.number().int().openapi({
+    example: 2,
+    description: 'Number of equations recovered from valid metadata'
+  }),
+  attributeEquations: z.number().int().openapi({
+    example: 0,
+    description: 'Number of equations recovered only from data-latex attributes'
+  }),
+  duplicateEquations: z.number().int().openapi({
+    example: 0,
+    description: 'Number of equations skipped because their id was already recovered'
+  }),
+  modifiedEquations: z.number().int().openapi({
+    example: 0,
+    description: 'Number of equations whose drawing no longer matches the glyph hash taken at export'
+  }),
+});
+
 export const ParseResponseSchema = z.object({
   success: z.boolean().openapi({
     example: true,
@@ -21,10 +48,25 @@ export const ParseResponseSchema = z.object({
   metadata: SVGMetadataSchema.optional().openapi({
     description: 'Extracted metadata including equations, preamble, and rendering information'
   }),
+  format: z.string().optional().openapi({
+    example: 'mathedit',
+    description: 'Tool the equations were embedded by: mathedit, LaTeXiT, TexText, MathJax, or MathJax structure when rebuilt from plain MathJax output'
+  }),
+  approximate: z.boolean().optional().openapi({
+    example: false,
+    description: 'Whether some LaTeX was rebuilt from the rendered MathJax structure and may differ from the original source'
+  }),
   equations: z.array(EquationSchema).default([]).openapi({
     example: [],
     description: 'Array of parsed equations with their LaTeX source and positions'
   }),
+  modifiedSinceExport: z.array(z.string()).optional().openapi({
+    example: [],
+    description: 'Ids of equations whose drawing was edited after export, so it may no longer match their LaTeX'
+  }),
+  report: ParseReportSchema.optional().openapi({
+    description: 'What was recovered from the SVG, for partially readable files'
+  }),
   errors: z.array(z.string()).default([]).openapi({
     example: [],
     description: 'Array of parsing errors (empty if successful)'
@@ -1,11 +1,47 @@
 import { z } from 'zod';
-import { EquationInputSchema } from './equation';
+import { BorderSchema, EquationInputSchema, ShadowSchema } from './equation';
+import { MacrosSchema, EnvironmentsSchema } from './macros';
+import { FONT_SIZE_PATTERN } from '@mathedit/core/units';
+
+export const LayoutOptionsSchema = z.object({
+  direction: z.enum(['vertical', 'horizontal', 'grid']).optional().openapi({
+    example: 'vertical',
+    description: 'Arrange equations in a column (default), a row sharing one baseline, or a grid - optional'
+  }),
+  align: z.enum(['left', 'center', 'right', 'relation']).optional().openapi({
+    example: 'relation',
+    description: 'Placement within a column (default left); "relation" lines up the first relation symbol (=, <, \\le, ...) and centers equations without one - optional'
+  }),
+  gap: z.number().nonnegative().optional().openapi({
+    example: 8,
+    description: 'Space in pixels between equations (default 0) - optional'
+  }),
+  padding: z.number().nonnegative().optional().openapi({
+    example: 16,
+    description: 'Space in pixels around all equations (default 0) - optional'
+  }),
+  columns: z.number().int().positive().optional().openapi({
+    example: 2,
+    description: 'Columns of a grid, default the square root of the equation count rounded up - optional'
+  }),
+  uniformSize: z.boolean().optional().openapi({
+    example: false,
+    description: 'Whether every cell is made as large as the largest equation - optional'
+  }),
+});
 
 export const RenderOptionsSchema = z.object({
   globalPreamble: z.string().default('').openapi({
     example: '',
     description: 'LaTeX preamble applied to all equations (e.g., custom macros or package imports)'
   }),
+  macros: MacrosSchema.optional().openapi({
+    example: { R: { body: '\\mathbb{R}' } },
+    description: 'Macros available to every equation, keyed by name without backslash - optional'
+  }),
+  environments: EnvironmentsSchema.optional().openapi({
+    description: 'Environments available to every equation, keyed by name - optional'
+  }),
   embedMetadata: z.boolean().default(true).openapi({
     example: true,
     description: 'Whether to embed LaTeX equation metadata in the SVG for round-trip editing'
@@ -17,6 +53,43 @@ export const RenderOptionsSchema = z.object({
     example: '#000000',
     description: 'CSS color value for the rendered equation (e.g., #000000, rgb(255,0,0), or red)'
   }),
+  backgroundColor: z.string().optional().openapi({
+    example: '#ffffff',
+    description: 'CSS color filled behind each equation and its padding (default none) - optional'
+  }),
+  padding: z.number().nonnegative().optional().openapi({
+    example: 8,
+    description: 'Space in pixels around each equation (default 0) - optional'
+  }),
+  cornerRadius: z.number().nonnegative().optional().openapi({
+    example: 6,
+    description: 'Radius in pixels of the background corners - optional'
+  }),
+  border: BorderSchema.optional().openapi({
+    description: 'Stroke around the background of each equation - optional'
+  }),
+  shadow: ShadowSchema.optional().openapi({
+    description: 'Drop shadow of the background of each equation; equations are spaced so it is not clipped - optional'
+  }),
+  fontSize: z.string().regex(FONT_SIZE_PATTERN, 'Expected a font size in pt or px, e.g. 28pt').optional().openapi({
+    example: '28pt',
+    description: 'Font size of the equations with its unit (e.g., 28pt or 16px, default 36pt); the SVG width and height are given in this unit - optional'
+  }),
+  bounds: z.enum(['tex', 'ink', 'union']).optional().openapi({
+    example: 'union',
+    description: 'Box equations are cropped to: "tex" for the TeX metrics MathJax lays out with, "ink" for exactly the drawn glyphs, or "union" (default) for the TeX box grown so nothing is clipped; padding is added around it. Tagged equations keep their full-width layout, grown to the ink - optional'
+  }),
+  layout: LayoutOptionsSchema.optional().openapi({
+    description: 'How several equations are arranged in the SVG - optional'
+  }),
+  verticalAlign: z.boolean().optional().openapi({
+    example: false,
+    description: 'Whether to add a vertical-align style so the SVG sits on the baseline of surrounding text when placed inline - optional'
+  }),
+  darkColors: z.record(z.string(), z.string()).optional().openapi({
+    example: { '#000000': '#ffffff' },
+    description: 'Dark theme colors: maps hex colors as rendered (#RRGGBB or #RRGGBBAA) to the hex color used under prefers-color-scheme: dark - optional'
+  }),
 });
 
 export const RenderRequestSchema = z.object({
@@ -69,6 +142,14 @@ export const RenderQueryParamsSchema = z.object({
     example: '#000000',
     description: 'CSS color value for the rendered equation when using text/plain input (e.g., #FF0000, blue)'
   }),
+  backgroundColor: z.string().optional().openapi({
+    example: '#ffffff',
+    description: 'CSS color filled behind the equation (e.g., #FFFFFF), overrides the background color in the JSON body options'
+  }),
+  fontSize: z.string().regex(FONT_SIZE_PATTERN).optional().openapi({
+    example: '28pt',
+    description: 'Font size with its unit (e.g., 28pt or 16px), overrides the font size in the JSON body options'
+  }),
 });
 
 export type RenderOptions = z.infer<typeof RenderOptionsSchema>;
@@ -1,32 +1,21 @@
+import type { SVGMetadata } from '../metadata';
+
 export interface RenderRequest {
   latex: string;
   preamble?: string;
   inline?: boolean;
-  fontSize?: number;
+  fontSize?: string;            // Font size with its unit, e.g. 28pt or 16px
   color?: string;
   backgroundColor?: string;
 }
 
-export interface EquationMetadata {
-  label?: string;
-  latex: string;
-}
-
-export interface SvgMetadata {
-  generator: string;
-  generatorVersion: string;
-  generatedAt: string;
-  preamble: string;
-  equations: EquationMetadata[];
-}
-
 export interface RenderResponse {
   svg: string;
-  metadata: SvgMetadata;
+  metadata: SVGMetadata;
 }
 
 export interface ParseResponse {
-  metadata: SvgMetadata | null;
+  metadata: SVGMetadata | null;
 }
 
 export interface HealthResponse {
@@ -3,3 +3,4 @@ export * from './api';
 export * from './project';
 export * from './svg';
 export * from './renderer';
+export * from './metadata';
@@ -0,0 +1,44 @@
+import type { MacroDefinition, EnvironmentDefinition, HighlightRule } from '../parser/types';
+import type { SVGMetadata, SVGMetadataEquation, SVGMetadataFrame } from './schema';
+import { METADATA_FORMAT_VERSION, randomId } from './migrations';
+
+export interface CreateMetadataOptions {
+  globalPreamble?: string;
+  macros?: Record<string, MacroDefinition>;
+  environments?: Record<string, EnvironmentDefinition>;
+  highlights?: HighlightRule[];
+  colorPresets?: Record<string, string>;
+  color?: string;
+  frame?: SVGMetadataFrame;   // Frame defaults, omitted when empty
+  engineVersion: string;
+  engineOptions?: Record<string, unknown>;
+  equations: SVGMetadataEquation[];
+  hostname?: string;    // Server that rendered the SVG (API only)
+}
+
+/**
+ * Metadata for a newly generated SVG, in the current format version
+ */
+export function createMetadata(options: CreateMetadataOptions): SVGMetadata {
+  const now = new Date().toISOString();
+
+  return {
+    formatVersion: METADATA_FORMAT_VERSION,
+    generator: 'mathedit',
+    generatorVersion: '0.1.0',
+    generatorHostname: options.hostname,
+    documentId: randomId(),
+    createdAt: now,
+    updatedAt: now,
+    globalPreamble: options.globalPreamble ?? '',
+    macros: options.macros,
+    environments: options.environments,
+    highlights: options.highlights,
+    colorPresets: options.colorPresets,
+    color: options.color,
+    frame: options.frame && Object.values(options.frame).some((value) => value !== undefined) ? options.frame : undefined,
+    engineVersion: options.engineVersion,
+    engineOptions: options.engineOptions ?? {},
+    equations: options.equations,
+  };
+}
@@ -0,0 +1,65 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractSvgMetadata, type SVGExtractionReport } from './extract';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+const report = (counts: Partial<SVGExtractionReport>): SVGExtractionReport => ({
+  metadataBlocks: 1,
+  invalidMetadataBlocks: 0,
+  metadataEquations: 2,
+  attributeEquations: 0,
+  duplicateEquations: 0,
+  modifiedEquations: 0,
+  ...counts,
+});
+
+describe('extractSvgMetadata', () => {
+  it.each([
+    // One export of x^2 and a < b, as written and re-saved
+    ['export.svg', report({})],
+    ['namespaced.svg', report({})],
+    ['single-quotes.svg', report({})],
+    ['cdata.svg', report({})],
+    ['minified.svg', report({})],
+    ['reordered-attributes.svg', report({})],
+    ['inkscape.svg', report({})],
+    ['keynote.svg', report({})],
+    ['illustrator.svg', report({})],
+    // Damaged or edited files
+    ['multi-block.svg', report({ metadataBlocks: 2, metadataEquations: 3, duplicateEquations: 1 })],
+    ['invalid-block.svg', report({ invalidMetadataBlocks: 1, metadataEquations: 0, attributeEquations: 2 })],
+    ['attributes-only.svg', report({ metadataBlocks: 0, metadataEquations: 0, attributeEquations: 2 })],
+    ['modified.svg', report({ modifiedEquations: 1 })],
+  ])('reports what %s contains', (name, expected) => {
+    expect(extractSvgMetadata(fixture(name)).report).toEqual(expected);
+  });
+
+  it.each(['namespaced.svg', 'cdata.svg', 'keynote.svg', 'illustrator.svg'])('decodes the LaTeX of %s', (name) => {
+    const { metadata, modifiedSinceExport, errors } = extractSvgMetadata(fixture(name));
+    expect(errors).toEqual([]);
+    expect(metadata?.equations.map((equation) => equation.latex)).toEqual(['x^2', 'a < b']);
+    expect(modifiedSinceExport).toEqual({ 'eq-square': false, 'eq-inequality': false });
+  });
+
+  it('keeps the equations of every block, skipping repeated ids', () => {
+    const { metadata } = extractSvgMetadata(fixture('multi-block.svg'));
+    expect(metadata?.documentId).toBe('4f1c2a9e-7b3d-4c8e-9a61-2d5e8f0b7c13');
+    expect(metadata?.equations.map((equation) => equation.id)).toEqual(['eq-square', 'eq-inequality', 'eq-root']);
+  });
+
+  it('falls back to data-latex attributes and reports invalid blocks', () => {
+    const { metadata, attributeEquations, errors } = extractSvgMetadata(fixture('invalid-block.svg'));
+    expect(metadata).toBeUndefined();
+    expect(errors).toEqual(['Failed to parse metadata JSON']);
+    expect(attributeEquations).toEqual([
+      { id: 'eq-square', latex: 'x^2', displayMode: 'block' },
+      { id: 'eq-inequality', latex: 'a < b', displayMode: 'inline' },
+    ]);
+  });
+
+  it('flags the edited equation only', () => {
+    expect(extractSvgMetadata(fixture('modified.svg')).modifiedSinceExport)
+      .toEqual({ 'eq-square': false, 'eq-inequality': true });
+  });
+});
@@ -0,0 +1,125 @@
+import type { SVGMetadata, SVGMetadataEquation } from './schema';
+import { equationGlyphHash } from './integrity';
+import { parseMetadata } from './validate';
+import { readXmlElements, xmlAttribute } from './xml';
+
+/**
+ * Equation recovered from the data-latex attribute of an equation group
+ */
+export interface AttributeEquation {
+  id?: string;
+  latex: string;
+  displayMode?: 'inline' | 'block';
+}
+
+/**
+ * What could be recovered from an SVG, for reporting partial imports
+ */
+export interface SVGExtractionReport {
+  metadataBlocks: number;         // <metadata id="latex-equations"> elements found
+  invalidMetadataBlocks: number;  // Blocks that were empty or could not be parsed or validated
+  metadataEquations: number;      // Equations recovered from valid metadata
+  attributeEquations: number;     // Equations recovered only from data-latex attributes
+  duplicateEquations: number;     // Equations skipped because their id was already recovered
+  modifiedEquations: number;      // Equations whose drawing no longer matches its glyphHash
+}
+
+export interface SVGExtraction {
+  metadata?: SVGMetadata;                // First valid block, with the equations of all valid blocks
+  attributeEquations: AttributeEquation[];
+  modifiedSinceExport: Record<string, boolean>;  // By equation id, for groups checked against a glyphHash
+  report: SVGExtractionReport;
+  errors: string[];
+}
+
+/**
+ * Extract the embedded equations of an SVG, including files re-saved by Inkscape, Keynote or
+ * Illustrator (reordered or namespaced attributes, CDATA, other quoting, minified markup)
+ *
+ * Every metadata block is read, so SVGs combined from several exports keep all their equations.
+ * Equation groups whose id is not in the metadata are recovered from their data-latex attribute
+ */
+export function extractSvgMetadata(svgContent: string): SVGExtraction {
+  const elements = readXmlElements(svgContent, ['metadata']);
+  const errors: string[] = [];
+  const report: SVGExtractionReport = {
+    metadataBlocks: 0,
+    invalidMetadataBlocks: 0,
+    metadataEquations: 0,
+    attributeEquations: 0,
+    duplicateEquations: 0,
+    modifiedEquations: 0,
+  };
+
+  // Inkscape renames duplicate ids when SVGs are pasted together (latex-equations-1)
+  const blocks = elements.filter((element) =>
+    element.localName === 'metadata' && /^latex-equations\b/.test(xmlAttribute(element, 'id') ?? '')
+  );
+  report.metadataBlocks = blocks.length;
+
+  let metadata: SVGMetadata | undefined;
+  const equations: SVGMetadataEquation[] = [];
+  const ids = new Set<string>();
+
+  blocks.forEach((block, index) => {
+    const prefix = blocks.length > 1 ? `Metadata block ${index + 1}: ` : '';
+    const content = block.text?.trim();
+    const result = content ? parseMetadata(content) : { errors: ['Metadata block is empty'] };
+
+    if (!result.metadata) {
+      report.invalidMetadataBlocks++;
+      errors.push(...result.errors.map((error) => `${prefix}${error}`));
+      return;
+    }
+
+    metadata ??= result.metadata;
+    for (const equation of result.metadata.equations) {
+      if (ids.has(equation.id)) {
+        report.duplicateEquations++;
+        continue;
+      }
+      ids.add(equation.id);
+      equations.push(equation);
+    }
+  });
+
+  // Drawings edited in another tool after export no longer match the hash taken when rendering
+  const modifiedSinceExport: Record<string, boolean> = {};
+  const hashes = new Map(equations.flatMap((equation) =>
+    equation.glyphHash !== undefined ? [[equation.id, equation.glyphHash] as const] : []
+  ));
+
+  const attributeEquations: AttributeEquation[] = [];
+  for (const element of elements) {
+    if (xmlAttribute(element, 'data-role') !== 'latex-equation') continue;
+    const id = xmlAttribute(element, 'data-equation-id') || undefined;
+    const hash = id !== undefined ? hashes.get(id) : undefined;
+    if (id !== undefined && hash !== undefined && !(id in modifiedSinceExport)) {
+      modifiedSinceExport[id] = equationGlyphHash(element) !== hash;
+    }
+
+    const latex = xmlAttribute(element, 'data-latex');
+    if (latex === undefined) continue;
+    if (id !== undefined && ids.has(id)) continue;
+    if (id !== undefined) ids.add(id);
+
+    const displayMode = xmlAttribute(element, 'data-display-mode');
+    attributeEquations.push({
+      ...(id !== undefined ? { id } : {}),
+      latex,
+      ...(displayMode === 'inline' || displayMode === 'block' ? { displayMode } : {}),
+    });
+  }
+
+  report.metadataEquations = equations.length;
+  report.attributeEquations = attributeEquations.length;
+  report.modifiedEquations = Object.values(modifiedSinceExport).filter(Boolean).length;
+
+  return {
+    metadata: metadata ? { ...metadata, equations } : undefined,
+    attributeEquations,
+    modifiedSinceExport,
+    report,
+    errors,
+  };
+}
@@ -0,0 +1,7 @@
+export * from './schema';
+export { METADATA_FORMAT_VERSION, migrateMetadata } from './migrations';
+export * from './create';
+export * from './validate';
+export * from './extract';
+export * from './integrity';
+export { escapeXmlAttribute } from './xml';
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { glyphHashOf } from './integrity';
+
+// An equation group with a frame, as the generators write it
+const group = ({ id = 'eq-1-group', floodOpacity = '0.251', dy = '3', extra = '' } = {}) => `
+  <g id="${id}" data-role="latex-equation" data-equation-id="eq-1" transform="translate(6, 5)"${extra}>
+    <defs>
+      <filter id="${id}-shadow" x="-50%" y="-50%" width="200%" height="200%">
+        <feGaussianBlur in="SourceAlpha" stdDeviation="2"/>
+        <feOffset dx="2" dy="${dy}" result="offset"/>
+        <feFlood flood-color="#000000" flood-opacity="${floodOpacity}"/>
+        <feComposite in2="offset" operator="in"/>
+        <feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge>
+      </filter>
+    </defs>
+    <rect x="-4" y="-4" width="58" height="45" rx="3" fill="#fff" filter="url(#${id}-shadow)"/>
+    <svg viewBox="0 -694 1000 776" width="50" height="37"><path data-c="1D465" d="M52 289Q59 331 106 386Z"></path></svg>
+  </g>`;
+
+describe('glyphHashOf', () => {
+  it('changes when the frame shadow is edited', () => {
+    expect(glyphHashOf(group({ floodOpacity: '0.5' }))).not.toBe(glyphHashOf(group()));
+    expect(glyphHashOf(group({ dy: '6' }))).not.toBe(glyphHashOf(group()));
+  });
+
+  it('ignores renamed ids, the position and editor attributes', () => {
+    const resaved = group({ id: 'eq-1-group-3', extra: ' inkscape:label="x" sodipodi:nodetypes="cc"' })
+      .replace('translate(6, 5)', 'translate(40,120)');
+    expect(glyphHashOf(resaved)).toBe(glyphHashOf(group()));
+  });
+});
@@ -0,0 +1,73 @@
+import { readXmlElements, xmlAttribute, type XmlElement } from './xml';
+
+/**
+ * Attributes that change what an equation group draws; ids, data-* and editor bookkeeping
+ * (inkscape:*, sodipodi:*) are left out so re-saving a file does not count as an edit
+ */
+const DRAWING_ATTRIBUTES = [
+  'd', 'transform', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'width', 'height',
+  'viewBox', 'points', 'fill', 'stroke', 'stroke-width', 'opacity', 'fill-opacity', 'stroke-opacity',
+  'style', 'href', 'data-c',
+  // Frame drop shadows (filter primitives)
+  'filter', 'in', 'in2', 'operator', 'stdDeviation', 'dx', 'dy', 'flood-color', 'flood-opacity',
+];
+
+/**
+ * Attribute value with numbers rounded and separators unified, as editors rewrite both
+ * References by id (filter="url(#...)") are left out, since editors rename ids they paste twice
+ */
+function normalizeValue(value: string): string {
+  return value
+    .replace(/url\(\s*#[^)]*\)/g, 'url(#)')
+    .replace(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi, (number) => String(Math.round(parseFloat(number) * 100) / 100))
+    .replace(/\s*,\s*|\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Drawing of an element as a string; the group's own transform is its position on the canvas,
+ * which moves when equations are rearranged, so it is left out
+ */
+function canonicalDrawing(element: XmlElement, isGroup: boolean): string {
+  const attributes = DRAWING_ATTRIBUTES
+    .filter((name) => !(isGroup && name === 'transform'))
+    .flatMap((name) => {
+      const value = xmlAttribute(element, name);
+      return value !== undefined ? [`${name}=${normalizeValue(value)}`] : [];
+    });
+  const children = element.children.map((child) => canonicalDrawing(child, false)).join('');
+  return `<${element.localName} ${attributes.join(' ')}>${children}</>`;
+}
+
+/**
+ * 53-bit string hash (cyrb53) as hex; detects edits, not tampering
+ */
+function hashString(str: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Hash of what an equation group draws, stored as glyphHash in the metadata
+ */
+export function equationGlyphHash(group: XmlElement): string {
+  return hashString(canonicalDrawing(group, true));
+}
+
+/**
+ * Hash of the first equation group in SVG markup, for generators that build groups as strings
+ */
+export function glyphHashOf(groupMarkup: string): string | undefined {
+  const group = readXmlElements(groupMarkup).find((element) =>
+    xmlAttribute(element, 'data-role') === 'latex-equation'
+  );
+  return group ? equationGlyphHash(group) : undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * Current metadata format version, written by createMetadata
+ *   0: editor metadata without formatVersion (generator mathedit-web, generatedAt timestamp)
+ *   1: API metadata (documentId, createdAt/updatedAt)
+ *   2: shared schema for editor and API (sources, color presets, highlight rules)
+ */
+export const METADATA_FORMAT_VERSION = 2;
+
+type MetadataRecord = Record<string, unknown>;
+
+/**
+ * Random UUID v4 (crypto.randomUUID is missing in HTTP contexts)
+ */
+export function randomId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+function isRecord(value: unknown): value is MetadataRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrades from format version n to n + 1
+ */
+const MIGRATIONS: Record<number, (metadata: MetadataRecord) => MetadataRecord> = {
+  0: ({ generatedAt, ...metadata }) => {
+    const timestamp = typeof generatedAt === 'string' ? generatedAt : new Date().toISOString();
+    return {
+      ...metadata,
+      formatVersion: 1,
+      documentId: metadata.documentId ?? randomId(),
+      createdAt: metadata.createdAt ?? timestamp,
+      updatedAt: metadata.updatedAt ?? timestamp,
+    };
+  },
+  // Equations written by the API could omit their bounding box and custom data
+  1: (metadata) => ({
+    ...metadata,
+    formatVersion: 2,
+    generator: metadata.generator === 'mathedit-web' ? 'mathedit' : metadata.generator,
+    equations: Array.isArray(metadata.equations)
+      ? metadata.equations.map((eq) => isRecord(eq)
+        ? { ...eq, id: eq.id || randomId(), bbox: eq.bbox ?? { x: 0, y: 0, width: 0, height: 0 } }
+        : eq)
+      : metadata.equations,
+  }),
+};
+
+/**
+ * Upgrade metadata JSON of any older format version to METADATA_FORMAT_VERSION
+ * Throws for metadata written by a newer version
+ */
+export function migrateMetadata(metadata: MetadataRecord): MetadataRecord {
+  let version = typeof metadata.formatVersion === 'number' ? metadata.formatVersion : 0;
+  if (version > METADATA_FORMAT_VERSION) {
+    throw new Error(
+      `Metadata format version ${version} is newer than the supported version ${METADATA_FORMAT_VERSION}`
+    );
+  }
+
+  let migrated = metadata;
+  while (version < METADATA_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Unknown metadata format version ${version}`);
+    migrated = migrate(migrated);
+    version++;
+  }
+  return migrated;
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+export const MacroDefinitionSchema = z.object({
+  body: z.string().describe('Replacement LaTeX for the macro (use #1..#9 for arguments)'),
+  args: z.number().int().min(1).max(9).optional().describe('Number of arguments the macro takes'),
+});
+
+export const EnvironmentDefinitionSchema = z.object({
+  begin: z.string().describe('LaTeX inserted at \\begin{name}'),
+  end: z.string().describe('LaTeX inserted at \\end{name}'),
+  args: z.number().int().min(1).max(9).optional().describe('Number of arguments the environment takes'),
+});
+
+export const HighlightRuleSchema = z.object({
+  token: z.string().describe('Literal tokens (\\beta, x_i) or a /regular expression/'),
+  color: z.string().describe('Color value as written in the frontmatter, may be a $preset'),
+});
+
+export const BoundingBoxSchema = z.object({
+  x: z.number().describe('X position in the SVG canvas'),
+  y: z.number().describe('Y position in the SVG canvas'),
+  width: z.number().describe('Width of the equation in pixels'),
+  height: z.number().describe('Height of the equation in pixels'),
+  baseline: z.number().optional().describe('Distance in pixels from the top of the box to the baseline'),
+  depth: z.number().optional().describe('Distance in pixels from the baseline to the bottom of the box'),
+});
+
+export const BorderSchema = z.object({
+  width: z.number().nonnegative().describe('Stroke width in pixels, 0 for no border'),
+  color: z.string().describe('Stroke color'),
+});
+
+export const ShadowSchema = z.object({
+  offsetX: z.number().describe('Horizontal offset in pixels'),
+  offsetY: z.number().describe('Vertical offset in pixels'),
+  blur: z.number().nonnegative().describe('Blur radius in pixels, as in CSS box-shadow'),
+  color: z.string().describe('Shadow color'),
+});
+
+export const FrameSchema = z.object({
+  padding: z.number().nonnegative().optional().describe('Space in pixels around each equation'),
+  backgroundColor: z.string().optional().describe('CSS color filled behind each equation'),
+  cornerRadius: z.number().nonnegative().optional().describe('Corner radius of the background in pixels'),
+  border: BorderSchema.optional().describe('Border around the background'),
+  shadow: ShadowSchema.optional().describe('Drop shadow of the background'),
+});
+
+export const SVGMetadataEquationSchema = z.object({
+  id: z.string().describe('Unique identifier for the equation'),
+  latex: z.string().describe('LaTeX source as rendered'),
+  source: z.string().optional().describe('Document text the equation was parsed from, restored on import'),
+  displayMode: z.enum(['inline', 'block']).default('block').describe('Inline or display (block) math'),
+  environment: z.string().nullable().default(null).describe('LaTeX environment name'),
+  label: z.string().nullable().default(null).describe('Label for referencing the equation'),
+  preambleOverride: z.string().nullable().default(null).describe('Preamble used instead of the global preamble'),
+  scale: z.number().positive().optional().describe('Multiplier applied to the rendered size'),
+  fontSize: z.string().optional().describe('Font size the equation was rendered at, e.g. 28pt'),
+  padding: z.number().nonnegative().optional().describe('Space in pixels around the equation'),
+  backgroundColor: z.string().optional().describe('CSS color filled behind the equation'),
+  cornerRadius: z.number().nonnegative().optional().describe('Corner radius of the background in pixels'),
+  border: BorderSchema.optional().describe('Border around the background'),
+  shadow: ShadowSchema.optional().describe('Drop shadow of the background'),
+  bbox: BoundingBoxSchema.describe('Position and size of the equation in the SVG'),
+  glyphHash: z.string().optional().describe('Hash of the rendered drawing, to detect edits made after export'),
+  customData: z.record(z.string(), z.unknown()).default({}).describe('Application-specific data'),
+});
+
+export const SVGMetadataSchema = z.object({
+  formatVersion: z.number().int().positive().describe('Metadata format version (see METADATA_FORMAT_VERSION)'),
+  generator: z.string().describe('Name of the tool that generated this SVG'),
+  generatorVersion: z.string().describe('Version of the generator tool'),
+  generatorHostname: z.string().optional().describe('Hostname of the server that generated this SVG'),
+  documentId: z.string().uuid().describe('Unique identifier for this document'),
+  createdAt: z.string().datetime({ offset: true, local: true }).describe('ISO 8601 timestamp when the document was created'),
+  updatedAt: z.string().datetime({ offset: true, local: true }).describe('ISO 8601 timestamp when the document was last updated'),
+  globalPreamble: z.string().default('').describe('LaTeX preamble applied to all equations'),
+  macros: z.record(z.string(), MacroDefinitionSchema).optional().describe('Macros applied to all equations'),
+  environments: z.record(z.string(), EnvironmentDefinitionSchema).optional()
+    .describe('Environments applied to all equations'),
+  highlights: z.array(HighlightRuleSchema).optional().describe('highlight.* rules applied to the equations'),
+  colorPresets: z.record(z.string(), z.string()).optional().describe('define.* color presets the sources refer to'),
+  color: z.string().optional().describe('Frontmatter color of the document'),
+  frame: FrameSchema.optional().describe('Frontmatter frame defaults of the document (background, padding, ...)'),
+  engineVersion: z.string().describe('Version of the rendering engine (MathJax)'),
+  engineOptions: z.record(z.string(), z.unknown()).default({}).describe('Rendering engine options'),
+  equations: z.array(SVGMetadataEquationSchema).describe('Equations embedded in this SVG'),
+});
+
+export type SVGMetadataEquation = z.infer<typeof SVGMetadataEquationSchema>;
+export type SVGMetadataFrame = z.infer<typeof FrameSchema>;
+export type SVGMetadata = z.infer<typeof SVGMetadataSchema>;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createMetadata } from './create';
+import { validateMetadata } from './validate';
+
+const metadata = () => createMetadata({ engineVersion: '3.2.2', engineOptions: {}, equations: [] });
+
+describe('validateMetadata', () => {
+  it('accepts metadata as written by createMetadata', () => {
+    expect(validateMetadata(metadata()).errors).toEqual([]);
+  });
+
+  it.each(['2024-01-01T00:00:00Z', '2024-01-01T00:00:00+02:00', '2024-01-01T00:00:00.123-05:30', '2024-01-01T00:00:00'])(
+    'accepts the timestamp %s',
+    (timestamp) => {
+      const result = validateMetadata({ ...metadata(), createdAt: timestamp, updatedAt: timestamp });
+      expect(result.errors).toEqual([]);
+      expect(result.metadata?.createdAt).toBe(timestamp);
+    }
+  );
+
+  it('reports an invalid timestamp', () => {
+    const result = validateMetadata({ ...metadata(), createdAt: 'yesterday' });
+    expect(result.metadata).toBeUndefined();
+    expect(result.errors[0]).toMatch(/^Invalid metadata field createdAt/);
+  });
+});
@@ -0,0 +1,48 @@
+import { SVGMetadataSchema, type SVGMetadata } from './schema';
+import { migrateMetadata } from './migrations';
+
+export interface ParseMetadataResult {
+  metadata?: SVGMetadata;
+  errors: string[];
+}
+
+/**
+ * Upgrade and validate metadata read from an SVG
+ * Older format versions are migrated first; invalid fields are reported as errors
+ * ("equations.0.latex: Invalid input: expected string") instead of being trusted
+ */
+export function validateMetadata(value: unknown): ParseMetadataResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: ['Metadata must be a JSON object'] };
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateMetadata(value as Record<string, unknown>);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = SVGMetadataSchema.safeParse(migrated);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map((issue) => issue.path.length > 0
+        ? `Invalid metadata field ${issue.path.join('.')}: ${issue.message}`
+        : `Invalid metadata: ${issue.message}`),
+    };
+  }
+  return { metadata: result.data, errors: [] };
+}
+
+/**
+ * Parse, upgrade and validate the JSON content of an SVG <metadata> element
+ */
+export function parseMetadata(content: string): ParseMetadataResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return { errors: ['Failed to parse metadata JSON'] };
+  }
+  return validateMetadata(value);
+}
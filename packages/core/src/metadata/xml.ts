@@ -0,0 +1,170 @@
+/**
+ * Element read from SVG/XML markup
+ */
+export interface XmlElement {
+  name: string;                        // Qualified name as written, e.g. svg:metadata
+  localName: string;                   // Name without namespace prefix, e.g. metadata
+  attributes: Record<string, string>;  // Decoded attribute values by qualified name
+  text?: string;                       // Decoded content of raw text elements
+  children: XmlElement[];              // Child elements in document order
+}
+
+const NAME_START = /[A-Za-z_]/;
+const TAG_NAME = /[A-Za-z_][\w.:-]*/y;
+const ATTRIBUTE = /\s*([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function localName(name: string): string {
+  return name.slice(name.lastIndexOf(':') + 1);
+}
+
+/**
+ * Decode XML character and entity references; unknown entities are kept as written
+ */
+export function decodeXmlEntities(str: string): string {
+  return str.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Escape text for a quoted attribute value
+ */
+export function escapeXmlAttribute(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Decode element content: CDATA sections verbatim, entities in the text around them
+ */
+function decodeXmlText(str: string): string {
+  return str
+    .split(/(<!\[CDATA\[[\s\S]*?(?:\]\]>|$))/)
+    .map((part) => part.startsWith('<![CDATA[')
+      ? part.slice(9).replace(/\]\]>$/, '')
+      : decodeXmlEntities(part))
+    .join('');
+}
+
+/**
+ * Skip past the next `terminator`, or to the end of the content when it is missing
+ */
+function skipPast(content: string, position: number, terminator: string): number {
+  const end = content.indexOf(terminator, position);
+  return end === -1 ? content.length : end + terminator.length;
+}
+
+/**
+ * Read the elements of SVG/XML markup in document order, each with its child elements
+ *
+ * A lenient, non-validating reader for files re-saved by other editors: attributes may come in
+ * any order, use either quote (or none), and carry namespace prefixes; comments, processing
+ * instructions and DOCTYPEs are skipped. The content of `rawTextElements` (by local name) is read
+ * verbatim up to the matching end tag, so JSON with unescaped `<` survives, and is returned
+ * decoded with CDATA sections unwrapped
+ */
+export function readXmlElements(content: string, rawTextElements: string[] = []): XmlElement[] {
+  const elements: XmlElement[] = [];
+  const open: XmlElement[] = [];
+  let position = 0;
+
+  while (position < content.length) {
+    const start = content.indexOf('<', position);
+    if (start === -1) break;
+
+    if (content.startsWith('<!--', start)) {
+      position = skipPast(content, start + 4, '-->');
+    } else if (content.startsWith('<![CDATA[', start)) {
+      position = skipPast(content, start + 9, ']]>');
+    } else if (content.startsWith('<?', start)) {
+      position = skipPast(content, start + 2, '?>');
+    } else if (content.startsWith('<!', start)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const close = content.indexOf('>', start);
+      const subset = content.indexOf('[', start);
+      position = subset !== -1 && (close === -1 || subset < close)
+        ? skipPast(content, skipPast(content, subset, ']'), '>')
+        : skipPast(content, start, '>');
+    } else if (content[start + 1] === '/') {
+      // Close the matching element, and any left open inside it
+      TAG_NAME.lastIndex = start + 2;
+      const name = TAG_NAME.exec(content)?.[0];
+      const index = open.map((element) => element.name).lastIndexOf(name ?? '');
+      if (index !== -1) open.length = index;
+      position = skipPast(content, start, '>');
+    } else if (NAME_START.test(content[start + 1] ?? '')) {
+      TAG_NAME.lastIndex = start + 1;
+      const name = TAG_NAME.exec(content)?.[0] ?? '';
+      const element: XmlElement = { name, localName: localName(name), attributes: {}, children: [] };
+      position = start + 1 + name.length;
+
+      // Attributes up to the end of the start tag
+      let selfClosing = false;
+      for (;;) {
+        const rest = /\s*(\/?>)?/y;
+        rest.lastIndex = position;
+        const end = rest.exec(content);
+        if (end?.[1]) {
+          selfClosing = end[1] === '/>';
+          position = rest.lastIndex;
+          break;
+        }
+        ATTRIBUTE.lastIndex = position;
+        const attribute = ATTRIBUTE.exec(content);
+        if (!attribute) {
+          // Stray `/` or `=` in the tag, or an unterminated tag at the end of the content
+          if (++position >= content.length) break;
+          continue;
+        }
+        const [, attributeName, doubleQuoted, singleQuoted, unquoted] = attribute;
+        if (attributeName) {
+          element.attributes[attributeName] = decodeXmlEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+        }
+        position = ATTRIBUTE.lastIndex;
+      }
+
+      const rawText = !selfClosing && rawTextElements.includes(element.localName);
+      if (rawText) {
+        const endTag = new RegExp(`</\\s*${name.replace(/[.:-]/g, '\\$&')}\\s*>`, 'g');
+        endTag.lastIndex = position;
+        const end = endTag.exec(content);
+        element.text = decodeXmlText(content.slice(position, end ? end.index : content.length));
+        position = end ? endTag.lastIndex : content.length;
+      }
+
+      open[open.length - 1]?.children.push(element);
+      if (!selfClosing && !rawText) open.push(element);
+      elements.push(element);
+    } else {
+      // A literal `<` in text content
+      position = start + 1;
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Attribute value by local name, with or without a namespace prefix
+ */
+export function xmlAttribute(element: XmlElement, name: string): string | undefined {
+  if (name in element.attributes) return element.attributes[name];
+  const prefixed = Object.keys(element.attributes).find((key) => localName(key) === name);
+  return prefixed !== undefined ? element.attributes[prefixed] : undefined;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { isValidColor, parseToRGB, toHexColor, toLatexRGB } from './colors';
+import { parseDocumentWithFrontmatter } from './document';
+
+describe('parseToRGB', () => {
+  it.each([
+    ['#f06', { r: 255, g: 0, b: 102 }],
+    ['#f068', { r: 255, g: 0, b: 102, a: 0.533 }],
+    ['#FF0066', { r: 255, g: 0, b: 102 }],
+    ['#ff006680', { r: 255, g: 0, b: 102, a: 0.502 }],
+    ['rgb(255, 0, 102)', { r: 255, g: 0, b: 102 }],
+    ['rgb(100% 0% 40% / 50%)', { r: 255, g: 0, b: 102, a: 0.5 }],
+    ['rgba(255, 0, 102, 0.25)', { r: 255, g: 0, b: 102, a: 0.25 }],
+    ['hsl(120, 100%, 25%)', { r: 0, g: 128, b: 0 }],
+    ['hsla(240deg, 100%, 50%, 0.5)', { r: 0, g: 0, b: 255, a: 0.5 }],
+    ['rebeccapurple', { r: 102, g: 51, b: 153 }],
+    ['RoyalBlue', { r: 0, g: 113, b: 188 }],
+    ['royalblue', { r: 65, g: 105, b: 225 }],
+    ['transparent', { r: 0, g: 0, b: 0, a: 0 }],
+  ])('parses %s', (color, expected) => {
+    expect(parseToRGB(color)).toEqual(expected);
+  });
+
+  it('mixes xcolor expressions from left to right', () => {
+    expect(parseToRGB('red!40!blue')).toEqual({ r: 102, g: 0, b: 153 });
+    expect(parseToRGB('red!40')).toEqual({ r: 255, g: 153, b: 153 });
+    expect(parseToRGB('red!50!blue!50!white')).toEqual({ r: 192, g: 128, b: 192 });
+    expect(parseToRGB('-red')).toEqual({ r: 0, g: 255, b: 255 });
+    expect(parseToRGB('red!50!#0000ff00')).toEqual({ r: 128, g: 0, b: 128, a: 0.5 });
+  });
+
+  it('resolves presets, also inside expressions and other presets', () => {
+    const presets = { accent: '#ff0000', soft: 'accent!30', loop: 'loop' };
+    expect(parseToRGB('accent', presets)).toEqual({ r: 255, g: 0, b: 0 });
+    expect(parseToRGB('soft', presets)).toEqual({ r: 255, g: 179, b: 179 });
+    expect(parseToRGB('soft!50!black', presets)).toEqual({ r: 128, g: 90, b: 90 });
+    expect(parseToRGB('loop', presets)).toBeNull();
+  });
+
+  it('rejects malformed colors', () => {
+    for (const color of ['#ff00f', '#gg0000', 'rgb(1, 2)', 'red!140!blue', 'red!x', 'notacolor', 'hsl(a, b, c)']) {
+      expect(parseToRGB(color)).toBeNull();
+    }
+  });
+});
+
+describe('isValidColor', () => {
+  it('accepts parsable colors and known color names', () => {
+    expect(isValidColor('red!40!blue')).toBe(true);
+    expect(isValidColor('darkgray')).toBe(true);
+    expect(isValidColor('accent', { accent: '#fff' })).toBe(true);
+    expect(isValidColor('accent')).toBe(false);
+  });
+});
+
+describe('toHexColor', () => {
+  it('writes 6-digit hex, or 8 digits with the alpha of translucent colors', () => {
+    expect(toHexColor('red!40!blue')).toBe('#660099');
+    expect(toHexColor('rgba(255, 0, 102, 0.5)')).toBe('#ff006680');
+    expect(toHexColor(' unknown ')).toBe('unknown');
+  });
+});
+
+describe('toLatexRGB', () => {
+  it('writes an [RGB] argument, or passes translucent colors through as hex', () => {
+    expect(toLatexRGB('#f06')).toBe('[RGB]{255,0,102}');
+    expect(toLatexRGB('#ff006680')).toBe('{#ff006680}');
+    expect(toLatexRGB('unknown')).toBe('');
+  });
+});
+
+describe('color commands', () => {
+  it('resolves presets and color expressions in every color command', () => {
+    const { equations, diagnostics } = parseDocumentWithFrontmatter([
+      'define.accent: #ff0000',
+      'define.box: #00ff0080',
+      '',
+      '---',
+      '',
+      '\\color{accent}{a} \\textcolor{red!40!blue}{b} \\colorbox{box}{c} \\fcolorbox{accent}{hsl(0, 0%, 100%)}{d}',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(equations[0].latex).toBe(
+      '\\color[RGB]{255,0,0}{a} \\textcolor[RGB]{102,0,153}{b} \\colorbox{#00ff0080}{c} \\fcolorbox{#ff0000}{#ffffff}{d}'
+    );
+  });
+
+  it('leaves standard names and explicit color models to MathJax', () => {
+    const latex = '\\color{red}{a} \\color[rgb]{1,0,0}{b}';
+    expect(parseDocumentWithFrontmatter(latex).equations[0].latex).toBe(latex);
+  });
+
+  it('reports unknown color names', () => {
+    const { diagnostics } = parseDocumentWithFrontmatter('\\textcolor{nocolor}{x}');
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['undefined-color']);
+  });
+});
@@ -0,0 +1,253 @@
+import { RGBColor } from './types';
+
+/**
+ * Color parsing and conversion helpers shared by the document parser
+ */
+
+// Named colors predefined by MathJax's color package (dvipsnames, case-sensitive)
+const DVIPS_COLORS: Record<string, string> = {
+  Apricot: '#fbb982', Aquamarine: '#00b5be', Bittersweet: '#c04f17', Black: '#221e1f', Blue: '#2d2f92',
+  BlueGreen: '#00b3b8', BlueViolet: '#473992', BrickRed: '#b6321c', Brown: '#792500', BurntOrange: '#f7921d',
+  CadetBlue: '#74729a', CarnationPink: '#f282b4', Cerulean: '#00a2e3', CornflowerBlue: '#41b0e4',
+  Cyan: '#00aeef', Dandelion: '#fdbc42', DarkOrchid: '#a4538a', Emerald: '#00a99d', ForestGreen: '#009b55',
+  Fuchsia: '#8c368c', Goldenrod: '#ffdf42', Gray: '#949698', Green: '#00a64f', GreenYellow: '#dfe674',
+  JungleGreen: '#00a99a', Lavender: '#f49ec4', LimeGreen: '#8dc73e', Magenta: '#ec008c', Mahogany: '#a9341f',
+  Maroon: '#af3235', Melon: '#f89e7b', MidnightBlue: '#006795', Mulberry: '#a93c93', NavyBlue: '#006eb8',
+  OliveGreen: '#3c8031', Orange: '#f58137', OrangeRed: '#ed135a', Orchid: '#af72b0', Peach: '#f7965a',
+  Periwinkle: '#7977b8', PineGreen: '#008b72', Plum: '#92268f', ProcessBlue: '#00b0f0', Purple: '#99479b',
+  RawSienna: '#974006', Red: '#ed1b23', RedOrange: '#f26035', RedViolet: '#a1246b', Rhodamine: '#ef559f',
+  RoyalBlue: '#0071bc', RoyalPurple: '#613f99', RubineRed: '#ed017d', Salmon: '#f69289', SeaGreen: '#3fbc9d',
+  Sepia: '#671800', SkyBlue: '#46c5dd', SpringGreen: '#c6dc67', Tan: '#da9d76', TealBlue: '#00aeb3',
+  Thistle: '#d883b7', Turquoise: '#00b4ce', Violet: '#58429b', VioletRed: '#ef58a0', White: '#ffffff',
+  WildStrawberry: '#ee2967', Yellow: '#fff200', YellowGreen: '#98cc70', YellowOrange: '#faa21a',
+};
+
+// CSS named colors (MathJax passes unknown names through to CSS)
+const CSS_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4', azure: '#f0ffff',
+  beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000', blanchedalmond: '#ffebcd', blue: '#0000ff',
+  blueviolet: '#8a2be2', brown: '#a52a2a', burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00',
+  chocolate: '#d2691e', coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b', darkgray: '#a9a9a9',
+  darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b', darkmagenta: '#8b008b',
+  darkolivegreen: '#556b2f', darkorange: '#ff8c00', darkorchid: '#9932cc', darkred: '#8b0000',
+  darksalmon: '#e9967a', darkseagreen: '#8fbc8f', darkslateblue: '#483d8b', darkslategray: '#2f4f4f',
+  darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3', deeppink: '#ff1493',
+  deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969', dodgerblue: '#1e90ff', firebrick: '#b22222',
+  floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff', gainsboro: '#dcdcdc',
+  ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520', gray: '#808080', green: '#008000',
+  greenyellow: '#adff2f', grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+  indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa', lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080',
+  lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3', lightgreen: '#90ee90',
+  lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a', lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899', lightsteelblue: '#b0c4de',
+  lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6', magenta: '#ff00ff',
+  maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd', mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db', mediumseagreen: '#3cb371', mediumslateblue: '#7b68ee',
+  mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc', mediumvioletred: '#c71585',
+  midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+  navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23',
+  orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+  paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5', peachpuff: '#ffdab9',
+  peru: '#cd853f', pink: '#ffc0cb', plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080',
+  rebeccapurple: '#663399', red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1',
+  saddlebrown: '#8b4513', salmon: '#fa8072', sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee',
+  sienna: '#a0522d', silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090',
+  slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f', steelblue: '#4682b4', tan: '#d2b48c',
+  teal: '#008080', thistle: '#d8bfd8', tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee',
+  wheat: '#f5deb3', white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+  transparent: '#00000000',
+};
+
+// Standard LaTeX/xcolor color names (left unchanged in \color{})
+export const STANDARD_COLORS = new Set([
+  'black', 'white', 'red', 'green', 'blue', 'cyan', 'magenta', 'yellow',
+  'darkgray', 'gray', 'lightgray', 'brown', 'lime', 'olive', 'orange', 'pink',
+  'purple', 'teal', 'violet'
+]);
+
+// Presets may reference other presets (define.soft: accent!30), guard against cycles
+const MAX_PRESET_DEPTH = 8;
+
+/**
+ * Check if a name is a color MathJax understands without a preset
+ */
+export function isNamedColor(name: string): boolean {
+  const trimmed = name.trim();
+  return (
+    STANDARD_COLORS.has(trimmed.toLowerCase()) ||
+    trimmed in DVIPS_COLORS ||
+    trimmed.toLowerCase() in CSS_COLORS
+  );
+}
+
+/**
+ * Look up a named color: dvipsnames are case-sensitive like in MathJax, CSS names are not
+ * Standard xcolor names use their CSS values, since that is how MathJax renders them
+ */
+function namedColorValue(name: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(DVIPS_COLORS, name)) return DVIPS_COLORS[name];
+  const lower = name.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(CSS_COLORS, lower) ? CSS_COLORS[lower] : undefined;
+}
+
+function clampChannel(value: number): number {
+  return Math.round(Math.max(0, Math.min(255, value)));
+}
+
+function withAlpha(color: RGBColor, alpha: number): RGBColor {
+  const a = Math.round(Math.max(0, Math.min(1, alpha)) * 1000) / 1000;
+  return a < 1 ? { ...color, a } : { r: color.r, g: color.g, b: color.b };
+}
+
+/**
+ * Parse a CSS number or percentage: "50%" -> 0.5 * percentScale
+ */
+function parseCssNumber(value: string, percentScale: number): number | null {
+  const match = value.match(/^(\d*\.?\d+)(%)?$/);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  return match[2] ? (number / 100) * percentScale : number;
+}
+
+/**
+ * Split the arguments of rgb()/hsl(), comma or space separated with an optional / alpha
+ */
+function parseFunctionArgs(value: string, name: string): string[] | null {
+  const match = value.match(new RegExp(`^${name}a?\\(\\s*([^)]*?)\\s*\\)$`, 'i'));
+  if (!match) return null;
+  const args = match[1].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  return args.length === 3 || args.length === 4 ? args : null;
+}
+
+function hslToRGB(hue: number, saturation: number, lightness: number): RGBColor {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] =
+    h < 1 ? [chroma, x, 0] :
+    h < 2 ? [x, chroma, 0] :
+    h < 3 ? [0, chroma, x] :
+    h < 4 ? [0, x, chroma] :
+    h < 5 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  const m = lightness - chroma / 2;
+  return { r: clampChannel((r + m) * 255), g: clampChannel((g + m) * 255), b: clampChannel((b + m) * 255) };
+}
+
+/**
+ * Parse a single color (no xcolor mixing): hex, rgb(), hsl(), a preset or a named color
+ */
+function parseSingleColor(value: string, presets: Record<string, string> | undefined, depth: number): RGBColor | null {
+  // #RGB, #RGBA, #RRGGBB, #RRGGBBAA
+  const hexMatch = value.match(/^#([0-9A-Fa-f]{3,4}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length <= 4) hex = hex.split('').map((c) => c + c).join('');
+    const color = { r: parseInt(hex.substring(0, 2), 16), g: parseInt(hex.substring(2, 4), 16), b: parseInt(hex.substring(4, 6), 16) };
+    return hex.length === 8 ? withAlpha(color, parseInt(hex.substring(6, 8), 16) / 255) : color;
+  }
+
+  // rgb(r, g, b), rgba(r, g, b, a), rgb(r g b / a)
+  const rgbArgs = parseFunctionArgs(value, 'rgb');
+  if (rgbArgs) {
+    const [r, g, b] = rgbArgs.slice(0, 3).map((arg) => parseCssNumber(arg, 255));
+    const alpha = rgbArgs[3] !== undefined ? parseCssNumber(rgbArgs[3], 1) : 1;
+    if (r === null || g === null || b === null || alpha === null) return null;
+    return withAlpha({ r: clampChannel(r), g: clampChannel(g), b: clampChannel(b) }, alpha);
+  }
+
+  // hsl(h, s%, l%), hsla(h, s%, l%, a)
+  const hslArgs = parseFunctionArgs(value, 'hsl');
+  if (hslArgs) {
+    const hue = parseCssNumber(hslArgs[0].replace(/deg$/i, ''), 360);
+    const saturation = parseCssNumber(hslArgs[1], 1);
+    const lightness = parseCssNumber(hslArgs[2], 1);
+    const alpha = hslArgs[3] !== undefined ? parseCssNumber(hslArgs[3], 1) : 1;
+    if (hue === null || saturation === null || lightness === null || alpha === null) return null;
+    return withAlpha(hslToRGB(hue, Math.min(1, saturation), Math.min(1, lightness)), alpha);
+  }
+
+  if (presets && Object.prototype.hasOwnProperty.call(presets, value)) {
+    return depth < MAX_PRESET_DEPTH ? parseColorExpression(presets[value].trim(), presets, depth + 1) : null;
+  }
+
+  const named = namedColorValue(value);
+  return named ? parseSingleColor(named, undefined, depth) : null;
+}
+
+/**
+ * Parse an xcolor expression: red!40!blue is 40% red and 60% blue, red!40 mixes with white,
+ * longer chains mix from left to right and a leading - takes the complement
+ */
+function parseColorExpression(value: string, presets: Record<string, string> | undefined, depth: number): RGBColor | null {
+  if (value.startsWith('-')) {
+    const color = parseColorExpression(value.substring(1), presets, depth);
+    return color && { ...color, r: 255 - color.r, g: 255 - color.g, b: 255 - color.b };
+  }
+  if (!value.includes('!')) return parseSingleColor(value, presets, depth);
+
+  const parts = value.split('!').map((part) => part.trim());
+  let color = parseSingleColor(parts[0], presets, depth);
+  for (let i = 1; i < parts.length && color; i += 2) {
+    const percent = /^\d*\.?\d+$/.test(parts[i]) ? parseFloat(parts[i]) : NaN;
+    const other = i + 1 < parts.length ? parseSingleColor(parts[i + 1], presets, depth) : { r: 255, g: 255, b: 255 };
+    if (!(percent >= 0 && percent <= 100) || !other) return null;
+
+    const p = percent / 100;
+    const mix = (a: number, b: number) => a * p + b * (1 - p);
+    color = withAlpha(
+      { r: clampChannel(mix(color.r, other.r)), g: clampChannel(mix(color.g, other.g)), b: clampChannel(mix(color.b, other.b)) },
+      mix(color.a ?? 1, other.a ?? 1)
+    );
+  }
+  return color;
+}
+
+/**
+ * Parse any color format to RGB values (alpha included when not opaque)
+ * Accepts hex (#f06, #ff0066cc), rgb()/rgba(), hsl()/hsla(), CSS and dvips color names
+ * and xcolor expressions (red!40!blue), which may reference presets
+ */
+export function parseToRGB(color: string, presets?: Record<string, string>): RGBColor | null {
+  return parseColorExpression(color.trim(), presets, 0);
+}
+
+/**
+ * Check if a color value can be used as-is (parsable color or known color name)
+ */
+export function isValidColor(color: string, presets?: Record<string, string>): boolean {
+  return parseToRGB(color, presets) !== null || isNamedColor(color);
+}
+
+/**
+ * Convert color to hex format (for SVG fill/stroke attributes)
+ * Translucent colors become #RRGGBBAA, which the renderer splits into fill-opacity
+ */
+export function toHexColor(color: string, presets?: Record<string, string>): string {
+  const rgb = parseToRGB(color, presets);
+  if (rgb) {
+    const toHex = (n: number) => clampChannel(n).toString(16).padStart(2, '0');
+    const alpha = rgb.a !== undefined ? toHex(rgb.a * 255) : '';
+    return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}${alpha}`;
+  }
+  return color.trim();
+}
+
+/**
+ * Convert color to a LaTeX color argument: [RGB]{r,g,b}
+ * This works with MathJax's standard color package
+ * Translucent colors are passed through by name as {#RRGGBBAA}, since the RGB model has no alpha
+ */
+export function toLatexRGB(color: string, presets?: Record<string, string>): string {
+  const rgb = parseToRGB(color, presets);
+  if (rgb?.a !== undefined) {
+    return `{${toHexColor(color, presets)}}`;
+  }
+  if (rgb) {
+    return `[RGB]{${rgb.r},${rgb.g},${rgb.b}}`;
+  }
+  // Return empty for named colors (they work as-is)
+  return '';
+}
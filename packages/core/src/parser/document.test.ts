@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+
+const parse = (document: string) => parseDocumentWithFrontmatter(document);
+
+describe('directives', () => {
+  it('reads the trailing % key: value comments of an equation', () => {
+    const { equations, diagnostics } = parse([
+      'E = mc^2',
+      '% display: inline',
+      '% scale: 1.5',
+      '% fontSize: 32pt',
+      '% background: #fff',
+      '% padding: 4',
+      '% filename: energy-eq.svg',
+      '% tags: physics, slide-12',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(equations[0].directives).toEqual({
+      display: 'inline',
+      scale: 1.5,
+      fontSize: { value: 32, unit: 'pt' },
+      background: '#ffffff',
+      padding: 4,
+      filename: 'energy-eq',
+      tags: ['physics', 'slide-12'],
+    });
+  });
+
+  it('resolves % color: like the frontmatter color, presets included', () => {
+    const { equations } = parse('define.hl: #ff0000\n\n---\n\na\n% color: $hl\n\n---\n\nb\n% color: blue');
+    expect(equations.map((eq) => eq.color)).toEqual(['#ff0000', '#0000ff']);
+    expect(equations[0].directives).toEqual({});
+  });
+
+  it('only reads the comments ending the equation', () => {
+    const { equations } = parse('% scale: 2\nx\n% Note: not a directive\n\n% display: inline\n');
+    expect(equations[0].directives).toEqual({ display: 'inline' });
+  });
+
+  it('reports invalid values at the value', () => {
+    const { equations, diagnostics } = parse([
+      'x',
+      '% display: wide',
+      '% scale: -1',
+      '% fontSize: 12em',
+      '% padding: lots',
+      '% filename: my equation',
+      '% tags: a b',
+    ].join('\n'));
+    expect(equations[0].directives).toEqual({});
+    expect(diagnostics.map(({ code, message, startLine, column, endColumn }) =>
+      ({ code, message, startLine, column, endColumn }))).toEqual([
+      { code: 'invalid-directive', message: 'Invalid display "wide" (expected inline or block)', startLine: 1, column: 11, endColumn: 15 },
+      { code: 'invalid-directive', message: 'Invalid scale "-1" (expected a positive number)', startLine: 2, column: 9, endColumn: 11 },
+      { code: 'invalid-directive', message: 'Invalid fontSize "12em" (expected a size in pt or px, e.g. 28pt)', startLine: 3, column: 12, endColumn: 16 },
+      { code: 'invalid-directive', message: 'Invalid padding "lots" (expected a number of pixels)', startLine: 4, column: 11, endColumn: 15 },
+      { code: 'invalid-directive', message: 'Invalid filename "my equation" (use letters, digits, "-" and "_")', startLine: 5, column: 12, endColumn: 23 },
+      { code: 'invalid-directive', message: 'Invalid tags "a b" (expected tags like: physics, slide-12)', startLine: 6, column: 8, endColumn: 11 },
+    ]);
+  });
+
+  it('reports colors that are neither presets nor valid colors', () => {
+    const { equations, diagnostics } = parse('x\n% color: $missing\n\n---\n\ny\n% background: notacolor');
+    expect(diagnostics.map(({ code, startLine }) => ({ code, startLine }))).toEqual([
+      { code: 'undefined-preset', startLine: 1 },
+      { code: 'invalid-color', startLine: 6 },
+    ]);
+    expect(equations[1].directives.background).toBeUndefined();
+  });
+
+  it('uses the last of duplicate directives and reports the others', () => {
+    const { equations, diagnostics } = parse('x\n% scale: 2\n% scale: 3');
+    expect(equations[0].directives.scale).toBe(3);
+    expect(diagnostics).toMatchObject([
+      { code: 'invalid-directive', message: 'Duplicate "scale" directive (the last one is used)', startLine: 2 },
+    ]);
+  });
+
+  it('reports filenames used by two equations', () => {
+    const { diagnostics } = parse('x\n% filename: eq\n\n---\n\ny\n% filename: eq.svg');
+    expect(diagnostics).toMatchObject([
+      { code: 'duplicate-filename', message: 'Duplicate filename "eq" (first used on line 2)', startLine: 6, column: 12 },
+    ]);
+  });
+});
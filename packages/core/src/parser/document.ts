@@ -1,58 +1,26 @@
-import { ParsedEquation, DocumentFrontmatter, ParsedDocument } from './types';
-
-/**
- * Parse any color format to RGB values
- */
-function parseToRGB(color: string): { r: number; g: number; b: number } | null {
-  const trimmed = color.trim();
-
-  // Parse #RRGGBB or #RRGGBBAA
-  const hexMatch = trimmed.match(/^#([0-9A-Fa-f]{2})([0-9A-Fa-f]{2})([0-9A-Fa-f]{2})([0-9A-Fa-f]{2})?$/);
-  if (hexMatch) {
-    return {
-      r: parseInt(hexMatch[1], 16),
-      g: parseInt(hexMatch[2], 16),
-      b: parseInt(hexMatch[3], 16),
-    };
-  }
-
-  // Parse rgba(r, g, b, a) or rgb(r, g, b)
-  const rgbaMatch = trimmed.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
-  if (rgbaMatch) {
-    return {
-      r: parseInt(rgbaMatch[1]),
-      g: parseInt(rgbaMatch[2]),
-      b: parseInt(rgbaMatch[3]),
-    };
-  }
-
-  return null;
-}
-
-/**
- * Convert color to hex format (for SVG fill/stroke attributes)
- */
-function toHexColor(color: string): string {
-  const rgb = parseToRGB(color);
-  if (rgb) {
-    const toHex = (n: number) => Math.max(0, Math.min(255, n)).toString(16).padStart(2, '0');
-    return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
-  }
-  return color.trim();
-}
-
-/**
- * Convert color to LaTeX RGB model format: [RGB]{r,g,b}
- * This works with MathJax's standard color package
- */
-function toLatexRGB(color: string): string {
-  const rgb = parseToRGB(color);
-  if (rgb) {
-    return `[RGB]{${rgb.r},${rgb.g},${rgb.b}}`;
-  }
-  // Return empty for named colors (they work as-is)
-  return '';
-}
+import {
+  ParsedEquation,
+  EquationDirectives,
+  DocumentFrontmatter,
+  DocumentTheme,
+  FrameStyle,
+  HighlightRule,
+  ParsedDocument,
+  MacroDefinition,
+  EnvironmentDefinition,
+  ParseDiagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from './types';
+import { STANDARD_COLORS, isValidColor, parseToRGB, toHexColor, toLatexRGB } from './colors';
+import { matchEquationIds } from './matching';
+import { DocumentSection, splitSections, isFrontmatter, findHeadings, HIGHLIGHT_KEY_PATTERN } from './sections';
+import { buildSectionTree, scopedFrontmatter, assignSections } from './outline';
+import { readBraceGroup } from './tex';
+import { parseVariantNames, highlightColor, expandHighlights } from './variants';
+import { validateHighlightToken, applyHighlightRules } from './highlights';
+import { darkThemeCollisions } from './theme';
+import { parseFontSize } from '../renderer/units';
 
 function generateId(): string {
   // Fallback for environments without crypto.randomUUID (HTTP contexts)
@@ -84,219 +52,852 @@ function resolveColor(color: string | undefined, presets: Record<string, string>
   if (color.startsWith('$')) {
     const presetName = color.substring(1);
     const resolved = presets?.[presetName] || color;
-    return toHexColor(resolved);
+    return toHexColor(resolved, presets);
   }
 
-  return toHexColor(color);
+  return toHexColor(color, presets);
+}
+
+const COLOR_COMMAND_PATTERN = /\\(color|textcolor|colorbox|fcolorbox)(?![A-Za-z])(\s*\[[^\]]*\])?/g;
+
+/**
+ * A color argument of a color command: the {name} group spans start (the brace) to end
+ */
+interface ColorArgument {
+  command: string;
+  name: string;
+  start: number;
+  end: number;
 }
 
 /**
- * Replace \color{name} with \color[RGB]{r,g,b} for custom color presets
- * Converts CSS colors to LaTeX RGB model format
+ * Find the color arguments of \color, \textcolor, \colorbox and \fcolorbox (frame and background)
+ * Arguments after an explicit [model] are skipped, MathJax handles those itself
+ */
+function findColorArguments(latex: string): ColorArgument[] {
+  const colorArguments: ColorArgument[] = [];
+
+  for (const match of latex.matchAll(COLOR_COMMAND_PATTERN)) {
+    if (match[2]) continue;
+    const command = match[1];
+    let position = (match.index ?? 0) + match[0].length;
+    for (let i = 0; i < (command === 'fcolorbox' ? 2 : 1); i++) {
+      const group = readBraceGroup(latex, position);
+      if (!group) break;
+      colorArguments.push({ command, name: group.content, start: group.end - group.content.length - 2, end: group.end });
+      position = group.end;
+    }
+  }
+
+  return colorArguments;
+}
+
+/**
+ * Rewrite color arguments MathJax can't resolve itself (presets, CSS color syntax,
+ * xcolor expressions such as red!40!blue) to colors it understands:
+ * \color{name} -> \color[RGB]{r,g,b}, \colorbox{name} -> \colorbox{#rrggbb}
  * Standard LaTeX colors are left unchanged
  */
 function replaceColorReferences(latex: string, presets: Record<string, string> | undefined): string {
-  // Standard LaTeX/xcolor color names (leave these unchanged)
-  const standardColors = new Set([
-    'black', 'white', 'red', 'green', 'blue', 'cyan', 'magenta', 'yellow',
-    'darkgray', 'gray', 'lightgray', 'brown', 'lime', 'olive', 'orange', 'pink',
-    'purple', 'teal', 'violet'
-  ]);
-
-  // Replace \color{name} with \color[RGB]{r,g,b}
-  return latex.replace(/\\color\{([^}]+)\}/g, (match, colorName) => {
-    const trimmed = colorName.trim();
-
-    // If it's a standard color, leave it as is
-    if (standardColors.has(trimmed.toLowerCase())) {
-      return match;
-    }
+  let result = '';
+  let position = 0;
 
-    // If it's a custom preset, convert to LaTeX RGB format
-    const colorValue = presets?.[trimmed];
-    if (colorValue) {
-      const rgbModel = toLatexRGB(colorValue);
-      return rgbModel ? `\\color${rgbModel}` : match;
-    }
+  for (const { command, name, start, end } of findColorArguments(latex)) {
+    const trimmed = name.trim();
+    if (STANDARD_COLORS.has(trimmed.toLowerCase()) || !parseToRGB(trimmed, presets)) continue;
+
+    // \colorbox and \fcolorbox take no [model], but pass color names through to the SVG
+    const replacement = command.endsWith('colorbox') ? `{${toHexColor(trimmed, presets)}}` : toLatexRGB(trimmed, presets);
+    result += latex.substring(position, start) + replacement;
+    position = end;
+  }
+
+  return result + latex.substring(position);
+}
+
+// Macro names are TeX control words (letters only), environment names may also contain digits and *
+const MACRO_KEY_PATTERN = /^([A-Za-z]+)(?:\[(\d)\])?$/;
+const ENVIRONMENT_KEY_PATTERN = /^([A-Za-z][A-Za-z0-9*]*)(?:\[(\d)\])?$/;
 
-    // If it looks like a CSS color (starts with # or rgb), convert to LaTeX RGB
-    if (trimmed.startsWith('#') || trimmed.startsWith('rgb')) {
-      const rgbModel = toLatexRGB(trimmed);
-      return rgbModel ? `\\color${rgbModel}` : match;
+// Frontmatter keys and % directives that style the box behind an equation
+const FRAME_KEYS = new Set(['background', 'padding', 'radius', 'border', 'shadow']);
+
+/**
+ * Parse padding, radius, border or shadow into `frame`, the same way in the frontmatter and in
+ * % directives (background is a plain color); returns an error message for invalid values
+ */
+function parseFrameValue(
+  key: string,
+  value: string,
+  presets: Record<string, string> | undefined,
+  frame: FrameStyle
+): string | undefined {
+  // Border and shadow colors are optional, presets must exist
+  const colorOf = (color: string | undefined, fallback: string) => {
+    if (!color) return fallback;
+    const known = color.startsWith('$') ? presets?.[color.substring(1)] !== undefined : isValidColor(color, presets);
+    return known ? resolveColor(color, presets) : undefined;
+  };
+
+  if (key === 'padding' || key === 'radius') {
+    const match = value.match(/^(\d*\.?\d+)(?:px)?$/);
+    if (!match) return `Invalid ${key} "${value}" (expected a number of pixels)`;
+    if (key === 'padding') frame.padding = parseFloat(match[1]);
+    else frame.radius = parseFloat(match[1]);
+  } else if (key === 'border') {
+    const match = value.match(/^(\d*\.?\d+)(?:px)?(?:\s+(.+))?$/);
+    const color = match ? colorOf(match[2], '#000000') : undefined;
+    if (value === 'none') {
+      frame.border = { width: 0, color: '#000000' };
+    } else if (match && color) {
+      frame.border = { width: parseFloat(match[1]), color };
+    } else {
+      return `Invalid border "${value}" (expected a width and color, e.g. 1px #cccccc, or none)`;
+    }
+  } else if (key === 'shadow') {
+    const match = value.match(/^(-?\d*\.?\d+)(?:px)?\s+(-?\d*\.?\d+)(?:px)?(?:\s+(\d*\.?\d+)(?:px)?)?(?:\s+(.+))?$/);
+    const color = match ? colorOf(match[4], '#00000040') : undefined;
+    if (value === 'none') {
+      frame.shadow = { offsetX: 0, offsetY: 0, blur: 0, color: '#00000000' };
+    } else if (match && color) {
+      frame.shadow = {
+        offsetX: parseFloat(match[1]),
+        offsetY: parseFloat(match[2]),
+        blur: match[3] ? parseFloat(match[3]) : 0,
+        color,
+      };
+    } else {
+      return `Invalid shadow "${value}" (expected x and y offsets, blur and color, e.g. 0 2 4 #00000040, or none)`;
     }
+  }
+  return undefined;
+}
 
-    // Otherwise leave unchanged
-    return match;
-  });
+/**
+ * Parse definition key suffix: "norm[1]" -> { name: 'norm', args: 1 }
+ */
+function parseDefinitionName(key: string, pattern: RegExp): { name: string; args?: number } | null {
+  const match = key.match(pattern);
+  if (!match) return null;
+  return match[2] ? { name: match[1], args: parseInt(match[2], 10) } : { name: match[1] };
 }
 
 /**
- * Extract color directive from comment at end of content: % color: #ff0000
- * Only matches if it's the last non-empty line
+ * Parse environment definition value: {begin}{end}
  */
-function extractColor(latex: string): string | null {
-  const lines = latex.split('\n');
-  // Find last non-empty line
-  for (let i = lines.length - 1; i >= 0; i--) {
-    const trimmed = lines[i].trim();
-    if (!trimmed) continue;
+function parseEnvironmentValue(value: string): { begin: string; end: string } | null {
+  const begin = readBraceGroup(value, 0);
+  if (!begin) return null;
+  const end = readBraceGroup(value, begin.end);
+  if (!end || value.substring(end.end).trim()) return null;
+  return { begin: begin.content, end: end.content };
+}
+
+function createDiagnostic(
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  line: number,
+  column: number,
+  endColumn: number
+): ParseDiagnostic {
+  return { severity, code, message, startLine: line, endLine: line, column, endColumn };
+}
+
+/**
+ * Diagnostic spanning the trimmed content of a whole line
+ */
+function lineDiagnostic(
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  lines: string[],
+  line: number
+): ParseDiagnostic {
+  const text = lines[line] ?? '';
+  const column = text.length - text.trimStart().length;
+  return createDiagnostic(severity, code, message, line, column, text.trimEnd().length);
+}
+
+/**
+ * Index of the first unescaped % in a line (or line length if there is none)
+ */
+function commentStart(line: string): number {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (line[i] === '%') return i;
+  }
+  return line.length;
+}
 
-    const match = trimmed.match(/^%\s*color:\s*(\S.*)$/);
-    return match ? match[1].trim() : null;
+/**
+ * Validate a color value (preset reference or literal) used at the given line
+ * Returns false (after reporting a diagnostic) if the value can't be used
+ */
+function checkColorValue(
+  value: string,
+  presets: Record<string, string> | undefined,
+  lines: string[],
+  line: number,
+  diagnostics: ParseDiagnostic[]
+): boolean {
+  const text = lines[line];
+  const column = Math.max(0, text.lastIndexOf(value));
+  const endColumn = column + value.length;
+
+  if (value.startsWith('$')) {
+    if (!presets?.[value.substring(1)]) {
+      diagnostics.push(createDiagnostic('warning', 'undefined-preset',
+        `Undefined color preset "${value}". Add define.${value.substring(1)} to the frontmatter`,
+        line, column, endColumn));
+      return false;
+    }
+  } else if (!isValidColor(value, presets)) {
+    diagnostics.push(createDiagnostic('warning', 'invalid-color',
+      `Invalid color value "${value}"`, line, column, endColumn));
+    return false;
   }
-  return null;
+  return true;
 }
 
-function parseFrontmatter(content: string): DocumentFrontmatter {
+/**
+ * Parse the document frontmatter, or with `inherited` (the frontmatter of the enclosing scope)
+ * the frontmatter block right after a section heading, which may only set color and presets
+ */
+function parseFrontmatter(
+  section: DocumentSection,
+  lines: string[],
+  diagnostics: ParseDiagnostic[],
+  inherited?: DocumentFrontmatter
+): DocumentFrontmatter {
   const frontmatter: DocumentFrontmatter = {};
   const colorPresets: Record<string, string> = {};
-  const lines = content.split('\n');
+  const macros: Record<string, MacroDefinition> = {};
+  const environments: Record<string, EnvironmentDefinition> = {};
+  const colorLines: { value: string; line: number }[] = [];
+  const theme: DocumentTheme = {};
+  const themePresetLines: { name: string; line: number; keyLength: number }[] = [];
+  const darkThemeLines = new Map<string, { line: number; keyLength: number }>();
+  const highlights = new Map<string, HighlightRule & { line: number }>();
+  const descriptions: Record<string, string> = {};
+  const descriptionLines: { name: string; line: number; keyLength: number }[] = [];
+  const frameLines: { key: string; value: string; line: number }[] = [];
+
+  for (let lineIndex = section.startLine; lineIndex <= section.endLine; lineIndex++) {
+    const line = lines[lineIndex];
+
+    // Skip comment and blank lines
+    if (!line.trim() || line.trim().startsWith('%')) continue;
+
+    // Highlight rule tokens contain LaTeX, so they don't fit the usual key pattern
+    const highlightMatch = line.match(HIGHLIGHT_KEY_PATTERN);
+    if (highlightMatch) {
+      const [, token, value] = highlightMatch;
+      const keyLength = token.length + 10;
+      const error = validateHighlightToken(token);
+      if (inherited) {
+        diagnostics.push(createDiagnostic('warning', 'unknown-frontmatter-key',
+          `"highlight.${token}" is only allowed in the document frontmatter, not in a section`, lineIndex, 0, keyLength));
+      } else if (error) {
+        diagnostics.push(createDiagnostic('warning', 'invalid-highlight', error, lineIndex, 10, keyLength));
+      } else {
+        if (highlights.has(token)) {
+          diagnostics.push(createDiagnostic('warning', 'highlight-conflict',
+            `Duplicate highlight rule for ${token} (the last one is used)`, lineIndex, 0, keyLength));
+          highlights.delete(token);
+        }
+        highlights.set(token, { token, color: value.trim(), line: lineIndex });
+      }
+      continue;
+    }
 
-  for (const line of lines) {
-    // Skip comment lines
-    if (line.trim().startsWith('%')) continue;
+    const match = line.match(/^([\w.*]+(?:\[\d\])?):\s*(\S.*)$/);
+    if (!match) {
+      diagnostics.push(lineDiagnostic('warning', 'unknown-frontmatter-key',
+        'Unrecognized frontmatter line (expected key: value)', lines, lineIndex));
+      continue;
+    }
 
-    const match = line.match(/^([\w.]+):\s*(\S.*)$/);
-    if (match) {
-      const [, key, value] = match;
-      if (key === 'color') {
-        frontmatter.color = value.trim();
-      } else if (key.startsWith('define.')) {
-        const presetName = key.substring(7); // Remove 'define.' prefix
-        colorPresets[presetName] = value.trim();
+    const [, key, value] = match;
+    const themeMatch = key.match(/^theme\.(light|dark)\.(\w+)$/);
+    const documentOnly = key === 'fontSize' || FRAME_KEYS.has(key)
+      || ['macro.', 'env.', 'theme.', 'describe.'].some((prefix) => key.startsWith(prefix));
+    if (inherited && documentOnly) {
+      diagnostics.push(createDiagnostic('warning', 'unknown-frontmatter-key',
+        `"${key}" is only allowed in the document frontmatter, not in a section`, lineIndex, 0, key.length));
+    } else if (key === 'color') {
+      frontmatter.color = value.trim();
+      colorLines.push({ value: value.trim(), line: lineIndex });
+    } else if (key === 'fontSize') {
+      const fontSize = parseFontSize(value.trim());
+      if (fontSize) {
+        frontmatter.fontSize = fontSize;
+      } else {
+        diagnostics.push(lineDiagnostic('warning', 'invalid-font-size',
+          `Invalid fontSize "${value.trim()}" (expected a size in pt or px, e.g. 28pt)`, lines, lineIndex));
       }
+    } else if (FRAME_KEYS.has(key)) {
+      frameLines.push({ key, value: value.trim(), line: lineIndex });
+    } else if (key.startsWith('define.')) {
+      const presetName = key.substring(7); // Remove 'define.' prefix
+      colorPresets[presetName] = value.trim();
+      colorLines.push({ value: value.trim(), line: lineIndex });
+    } else if (key.startsWith('describe.')) {
+      const presetName = key.substring(9);
+      descriptions[presetName] = value.trim();
+      descriptionLines.push({ name: presetName, line: lineIndex, keyLength: key.length });
+    } else if (key.startsWith('macro.')) {
+      const parsed = parseDefinitionName(key.substring(6), MACRO_KEY_PATTERN);
+      if (parsed) {
+        macros[parsed.name] = { body: value.trim(), ...(parsed.args ? { args: parsed.args } : {}) };
+      } else {
+        diagnostics.push(createDiagnostic('error', 'invalid-definition',
+          `Invalid macro name "${key.substring(6)}" (use letters only, e.g. macro.norm[1])`,
+          lineIndex, 0, key.length));
+      }
+    } else if (key.startsWith('env.')) {
+      const parsed = parseDefinitionName(key.substring(4), ENVIRONMENT_KEY_PATTERN);
+      const env = parseEnvironmentValue(value.trim());
+      if (parsed && env) {
+        environments[parsed.name] = { ...env, ...(parsed.args ? { args: parsed.args } : {}) };
+      } else {
+        diagnostics.push(lineDiagnostic('error', 'invalid-definition',
+          `Invalid environment definition "${key}" (expected env.name[n]: {begin}{end})`,
+          lines, lineIndex));
+      }
+    } else if (key === 'theme.output') {
+      if (value.trim() === 'css' || value.trim() === 'files') {
+        theme.output = value.trim() as DocumentTheme['output'];
+      } else {
+        diagnostics.push(lineDiagnostic('warning', 'invalid-theme',
+          `Invalid theme.output "${value.trim()}" (expected css or files)`, lines, lineIndex));
+      }
+    } else if (themeMatch) {
+      const [, mode, name] = themeMatch;
+      const colors = (theme[mode as 'light' | 'dark'] ??= {});
+      if (mode === 'dark') darkThemeLines.set(name, { line: lineIndex, keyLength: key.length });
+      if (name === 'color') {
+        colors.color = value.trim();
+      } else {
+        (colors.colorPresets ??= {})[name] = value.trim();
+        themePresetLines.push({ name, line: lineIndex, keyLength: key.length });
+      }
+      colorLines.push({ value: value.trim(), line: lineIndex });
+    } else if (key.startsWith('theme.')) {
+      diagnostics.push(createDiagnostic('warning', 'invalid-theme',
+        `Unknown theme key "${key}" (expected theme.light.name, theme.dark.name or theme.output)`,
+        lineIndex, 0, key.length));
+    } else {
+      diagnostics.push(createDiagnostic('warning', 'unknown-frontmatter-key',
+        `Unknown frontmatter key "${key}"`, lineIndex, 0, key.length));
+    }
+  }
+
+  // Theme colors override presets, they can't introduce new ones
+  for (const { name, line, keyLength } of themePresetLines) {
+    if (!colorPresets[name]) {
+      diagnostics.push(createDiagnostic('warning', 'undefined-preset',
+        `Theme color for undefined preset "${name}". Add define.${name} to the frontmatter`, line, 0, keyLength));
     }
   }
 
+  // Descriptions label presets in the color legend
+  for (const { name, line, keyLength } of descriptionLines) {
+    if (!colorPresets[name]) {
+      diagnostics.push(createDiagnostic('warning', 'undefined-preset',
+        `Description for undefined preset "${name}". Add define.${name} to the frontmatter`, line, 0, keyLength));
+    }
+  }
+
+  // The light theme is what gets rendered, the dark theme is applied on top (see darkThemeColors)
+  Object.assign(colorPresets, theme.light?.colorPresets);
+  if (theme.light?.color) {
+    frontmatter.color = theme.light.color;
+  }
+
   if (Object.keys(colorPresets).length > 0) {
     frontmatter.colorPresets = colorPresets;
   }
+  if (Object.keys(macros).length > 0) {
+    frontmatter.macros = macros;
+  }
+  if (Object.keys(environments).length > 0) {
+    frontmatter.environments = environments;
+  }
+  if (Object.keys(descriptions).length > 0) {
+    frontmatter.descriptions = descriptions;
+  }
+
+  // Presets can be defined after they are referenced, so validate colors once all are known
+  const visiblePresets = { ...inherited?.colorPresets, ...colorPresets };
+  for (const { value, line } of colorLines) {
+    checkColorValue(value, visiblePresets, lines, line, diagnostics);
+  }
+
+  // Frame defaults, parsed like the % directives that override them
+  const frame: FrameStyle = {};
+  for (const { key, value, line } of frameLines) {
+    if (key === 'background') {
+      if (checkColorValue(value, visiblePresets, lines, line, diagnostics)) {
+        frame.background = resolveColor(value, visiblePresets);
+      }
+    } else {
+      const error = parseFrameValue(key, value, visiblePresets, frame);
+      if (error) diagnostics.push(lineDiagnostic('warning', 'invalid-frame', error, lines, line));
+    }
+  }
+  if (Object.keys(frame).length > 0) {
+    frontmatter.frame = frame;
+  }
+
+  // Rules with colors that don't resolve are dropped
+  const validHighlights = [...highlights.values()]
+    .filter(({ color, line }) => checkColorValue(color, visiblePresets, lines, line, diagnostics))
+    .map(({ token, color }) => ({ token, color }));
+  if (validHighlights.length > 0) {
+    frontmatter.highlights = validHighlights;
+  }
 
   // Resolve the global color if it references a preset
   if (frontmatter.color) {
-    frontmatter.color = resolveColor(frontmatter.color, colorPresets);
+    frontmatter.color = resolveColor(frontmatter.color, visiblePresets);
+  }
+
+  if (theme.light || theme.dark || theme.output) {
+    if (theme.light?.color) {
+      theme.light.color = frontmatter.color;
+    }
+    if (theme.dark?.color) {
+      theme.dark.color = resolveColor(theme.dark.color, { ...visiblePresets, ...theme.dark.colorPresets });
+    }
+    frontmatter.theme = theme;
+
+    // The dark theme recolors by light color, so colors sharing one can't get different dark colors
+    for (const { light, names } of darkThemeCollisions(frontmatter)) {
+      const at = names.map((name) => darkThemeLines.get(name)).find(Boolean) ?? [...darkThemeLines.values()][0];
+      if (!at) continue;
+      const described = names.map((name) => (name === 'color' ? 'the default color' : `$${name}`));
+      diagnostics.push(createDiagnostic('warning', 'invalid-theme',
+        `${described.join(' and ')} are ${names.length === 2 ? 'both' : 'all'} ${light} in the light theme but differ in the dark theme ` +
+        `(give them different light colors)`, at.line, 0, at.keyLength));
+    }
   }
 
   return frontmatter;
 }
 
 /**
- * Check if content looks like frontmatter (has uncommented key: value lines, no LaTeX)
+ * Report color arguments (\color{name}, \colorbox{name}, ...) that are neither presets nor valid colors
+ */
+function checkColorReferences(
+  section: DocumentSection,
+  lines: string[],
+  presets: Record<string, string> | undefined,
+  diagnostics: ParseDiagnostic[]
+): void {
+  for (let lineIndex = section.startLine; lineIndex <= section.endLine; lineIndex++) {
+    const line = lines[lineIndex];
+    const code = line.substring(0, commentStart(line));
+
+    for (const argument of findColorArguments(code)) {
+      const name = argument.name.trim();
+      const column = argument.start + 1 + argument.name.length - argument.name.trimStart().length;
+      const endColumn = column + name.length;
+
+      if (presets?.[name] || isValidColor(name, presets)) continue;
+
+      // In xcolor expressions (accent!40!blue) report the first color that doesn't resolve
+      const undefinedName = name.includes('!')
+        ? name.replace(/^-/, '').split('!').filter((_, i) => i % 2 === 0).find((part) => !parseToRGB(part, presets))
+        : name;
+
+      if (!undefinedName || /^(?:#|rgba?\(|hsla?\()/i.test(undefinedName)) {
+        diagnostics.push(createDiagnostic('warning', 'invalid-color',
+          `Invalid color value "${name}"`, lineIndex, column, endColumn));
+        continue;
+      }
+
+      diagnostics.push(createDiagnostic('warning', 'undefined-color',
+        `Undefined color "${undefinedName.trim()}". Add define.${undefinedName.trim()} to the frontmatter`,
+        lineIndex, column, endColumn));
+    }
+  }
+}
+
+/**
+ * Report \hl{name}{...} markers for undeclared variants and declared variants without markers
  */
-function isFrontmatter(content: string): boolean {
-  const lines = content.split('\n');
-  let hasKeyValue = false;
+function checkHighlightMarkers(
+  section: DocumentSection,
+  lines: string[],
+  variantsLine: DirectiveLine | undefined,
+  variants: string[] | undefined,
+  diagnostics: ParseDiagnostic[]
+): void {
+  const used = new Set<string>();
+
+  for (let lineIndex = section.startLine; lineIndex <= section.endLine; lineIndex++) {
+    const line = lines[lineIndex];
+    const code = line.substring(0, commentStart(line));
+
+    for (const match of code.matchAll(/\\hl\{([^}]*)\}/g)) {
+      const column = (match.index ?? 0) + 4;
+      for (const name of parseVariantNames(match[1])) {
+        used.add(name);
+        if (variants?.includes(name)) continue;
+        diagnostics.push(createDiagnostic('warning', 'undefined-variant',
+          `Undefined variant "${name}". Add it to a % variants: directive`,
+          lineIndex, column, column + match[1].length));
+      }
+    }
+  }
 
-  for (const line of lines) {
+  if (!variants || !variantsLine) return;
+  for (const name of variants) {
+    if (used.has(name)) continue;
+    const column = variantsLine.column + Math.max(0, variantsLine.value.indexOf(name));
+    diagnostics.push(createDiagnostic('info', 'unused-variant',
+      `Variant "${name}" has no \\hl{${name}}{...} markers`,
+      variantsLine.line, column, column + name.length));
+  }
+}
+
+/**
+ * Line and column of an offset into a section's (trimmed) content
+ */
+function sectionPosition(section: DocumentSection, lines: string[], offset: number): { line: number; column: number } {
+  const text = lines.slice(section.startLine, section.endLine + 1).join('\n');
+  const before = text.substring(0, text.length - text.trimStart().length + offset).split('\n');
+  return { line: section.startLine + before.length - 1, column: before[before.length - 1].length };
+}
+
+/**
+ * Find the line and column of \label{name} within a section
+ */
+function findLabel(
+  section: Pick<DocumentSection, 'startLine' | 'endLine'>,
+  lines: string[],
+  label: string
+): { line: number; column: number } {
+  const needle = `\\label{${label}}`;
+  for (let lineIndex = section.startLine; lineIndex <= section.endLine; lineIndex++) {
+    const column = lines[lineIndex].indexOf(needle);
+    if (column !== -1) return { line: lineIndex, column };
+  }
+  return { line: section.startLine, column: 0 };
+}
+
+/**
+ * A `% key: value` comment in the trailing comment block of a section
+ */
+interface DirectiveLine {
+  key: string;
+  value: string;
+  line: number;
+  column: number;       // Column of the value
+}
+
+const DIRECTIVE_KEYS = new Set([
+  'color', 'display', 'scale', 'fontSize', 'background', 'padding', 'radius', 'border', 'shadow', 'filename',
+  'variants', 'tags',
+]);
+
+/**
+ * Read `% key: value` comments from the comment lines at the end of a section
+ */
+function extractDirectiveLines(
+  section: Pick<DocumentSection, 'startLine' | 'endLine'>,
+  lines: string[]
+): DirectiveLine[] {
+  const directiveLines: DirectiveLine[] = [];
+
+  for (let lineIndex = section.endLine; lineIndex >= section.startLine; lineIndex--) {
+    const line = lines[lineIndex];
     const trimmed = line.trim();
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('%')) continue;
+    if (!trimmed) continue;
+    if (!trimmed.startsWith('%')) break;
+
+    const match = line.match(/^(\s*%\s*)(\w+):\s*(\S.*?)\s*$/);
+    if (match) {
+      const [, prefix, key, value] = match;
+      const column = line.indexOf(value, prefix.length + key.length + 1);
+      directiveLines.unshift({ key, value, line: lineIndex, column });
+    }
+  }
+
+  return directiveLines;
+}
 
-    // Check for LaTeX commands
-    if (trimmed.includes('\\')) return false;
+/**
+ * Validate directive comments and collect them into EquationDirectives
+ * The raw % color: value is returned separately since it resolves like the frontmatter color
+ */
+function parseDirectives(
+  directiveLines: DirectiveLine[],
+  presets: Record<string, string> | undefined,
+  lines: string[],
+  diagnostics: ParseDiagnostic[]
+): { color?: string; directives: EquationDirectives } {
+  const directives: EquationDirectives = {};
+  const seen = new Set<string>();
+  let color: string | undefined;
+
+  for (const { key, value, line, column } of directiveLines) {
+    // Other comments such as "% Note: ..." are not directives
+    if (!DIRECTIVE_KEYS.has(key)) continue;
+
+    const invalid = (message: string) => {
+      diagnostics.push(createDiagnostic('warning', 'invalid-directive', message, line, column, column + value.length));
+    };
 
-    // Check for key: value pattern (including define.name format)
-    if (/^[\w.]+:\s*\S/.test(trimmed)) {
-      hasKeyValue = true;
+    if (seen.has(key)) {
+      invalid(`Duplicate "${key}" directive (the last one is used)`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'color':
+        checkColorValue(value, presets, lines, line, diagnostics);
+        color = value;
+        break;
+      case 'display':
+        if (value === 'inline' || value === 'block') {
+          directives.display = value;
+        } else {
+          invalid(`Invalid display "${value}" (expected inline or block)`);
+        }
+        break;
+      case 'scale':
+        if (/^\d*\.?\d+$/.test(value) && parseFloat(value) > 0) {
+          directives.scale = parseFloat(value);
+        } else {
+          invalid(`Invalid scale "${value}" (expected a positive number)`);
+        }
+        break;
+      case 'fontSize': {
+        const fontSize = parseFontSize(value);
+        if (fontSize) {
+          directives.fontSize = fontSize;
+        } else {
+          invalid(`Invalid fontSize "${value}" (expected a size in pt or px, e.g. 28pt)`);
+        }
+        break;
+      }
+      case 'padding':
+      case 'radius':
+      case 'border':
+      case 'shadow': {
+        const error = parseFrameValue(key, value, presets, directives);
+        if (error) invalid(error);
+        break;
+      }
+      case 'background':
+        if (checkColorValue(value, presets, lines, line, diagnostics)) {
+          directives.background = resolveColor(value, presets);
+        }
+        break;
+      case 'filename': {
+        const filename = value.replace(/\.svg$/i, '');
+        if (/^[\w-]+$/.test(filename)) {
+          directives.filename = filename;
+        } else {
+          invalid(`Invalid filename "${value}" (use letters, digits, "-" and "_")`);
+        }
+        break;
+      }
+      case 'variants': {
+        const names = parseVariantNames(value);
+        if (names.length > 0 && names.every((name) => /^[\w-]+$/.test(name))) {
+          directives.variants = [...new Set(names)];
+        } else {
+          invalid(`Invalid variants "${value}" (expected names like: a, b, c)`);
+        }
+        break;
+      }
+      case 'tags': {
+        const tags = parseVariantNames(value);
+        if (tags.length > 0 && tags.every((tag) => /^[\w-]+$/.test(tag))) {
+          directives.tags = [...new Set(tags)];
+        } else {
+          invalid(`Invalid tags "${value}" (expected tags like: physics, slide-12)`);
+        }
+        break;
+      }
+    }
+  }
+
+  return { color, directives };
+}
+
+/**
+ * Parse one equation section
+ * Unlabelled equations get an empty label until assignLabels numbers them
+ * `sectionColor` is used when the equation has no % color: directive
+ */
+export function parseEquationSection(
+  section: DocumentSection,
+  lines: string[],
+  frontmatter: DocumentFrontmatter,
+  diagnostics: ParseDiagnostic[],
+  sectionColor?: string
+): ParsedEquation {
+  const content = section.content;
+  const presets = frontmatter.colorPresets;
+  const directiveLines = extractDirectiveLines(section, lines);
+  const { color, directives } = parseDirectives(directiveLines, presets, lines, diagnostics);
+  const highlighted = applyHighlightRules(content, frontmatter.highlights);
+  const latex = replaceColorReferences(expandHighlights(highlighted.latex, null, ''), presets);
+  const variants = directives.variants?.map((name) => ({
+    name,
+    latex: replaceColorReferences(expandHighlights(highlighted.latex, name, highlightColor(name, presets)), presets),
+  }));
+
+  for (const conflict of highlighted.conflicts) {
+    const start = sectionPosition(section, lines, conflict.start);
+    const end = sectionPosition(section, lines, conflict.end);
+    diagnostics.push({
+      severity: 'warning',
+      code: 'highlight-conflict',
+      message: `Both highlight.${conflict.rule.token} and highlight.${conflict.ignored.token} match here ` +
+        `(the first rule is used)`,
+      startLine: start.line,
+      endLine: end.line,
+      column: start.column,
+      endColumn: end.column,
+    });
+  }
+
+  checkColorReferences(section, lines, presets, diagnostics);
+  checkHighlightMarkers(section, lines, directiveLines.filter((d) => d.key === 'variants').pop(),
+    directives.variants, diagnostics);
+
+  return {
+    id: '',
+    label: extractLabel(content) ?? '',
+    latex,
+    source: content,
+    startLine: section.startLine,
+    endLine: section.endLine,
+    color: resolveColor(color, presets) ?? sectionColor,
+    directives,
+    ...(variants ? { variants } : {}),
+    ...(highlighted.matched ? { baseLatex: replaceColorReferences(expandHighlights(content, null, ''), presets) } : {}),
+  };
+}
+
+/**
+ * Number unlabelled equations (eq1, eq2, ...) and report duplicate labels and filenames
+ * These checks span the whole document, so they run after every section is parsed
+ */
+export function assignLabels(equations: ParsedEquation[], lines: string[], diagnostics: ParseDiagnostic[]): void {
+  const labelLines = new Map<string, number>();
+  const filenameLines = new Map<string, number>();
+  let equationIndex = 0;
+
+  for (const eq of equations) {
+    const explicitLabel = extractLabel(eq.latex);
+    eq.label = explicitLabel || `eq${++equationIndex}`;
+
+    if (explicitLabel) {
+      const { line, column } = findLabel(eq, lines, explicitLabel);
+      const firstLine = labelLines.get(explicitLabel);
+      if (firstLine !== undefined) {
+        diagnostics.push(createDiagnostic('warning', 'duplicate-label',
+          `Duplicate label "${explicitLabel}" (first defined on line ${firstLine + 1})`,
+          line, column, column + explicitLabel.length + 8));
+      } else {
+        labelLines.set(explicitLabel, line);
+      }
+    }
+
+    if (eq.directives.filename) {
+      const filenameLine = extractDirectiveLines(eq, lines).filter((d) => d.key === 'filename').pop();
+      const firstLine = filenameLines.get(eq.directives.filename);
+      if (filenameLine && firstLine !== undefined) {
+        diagnostics.push(createDiagnostic('warning', 'duplicate-filename',
+          `Duplicate filename "${eq.directives.filename}" (first used on line ${firstLine + 1})`,
+          filenameLine.line, filenameLine.column, filenameLine.column + filenameLine.value.length));
+      } else if (filenameLine) {
+        filenameLines.set(eq.directives.filename, filenameLine.line);
+      }
     }
   }
+}
 
-  return hasKeyValue;
+/**
+ * Give equations the IDs of matching previous equations (by label, content, position
+ * and similarity) so they keep their identity while being edited, or fresh UUIDs
+ */
+export function assignEquationIds(equations: ParsedEquation[], previousEquations: ParsedEquation[]): void {
+  const toCandidate = (eq: ParsedEquation) => ({
+    label: eq.label,
+    latex: eq.latex,
+    hasExplicitLabel: extractLabel(eq.latex) !== null,
+  });
+
+  const reusedIds = matchEquationIds(
+    equations.map(toCandidate),
+    previousEquations.map((eq) => ({ id: eq.id, ...toCandidate(eq) }))
+  );
+  equations.forEach((eq, i) => {
+    eq.id = reusedIds[i] || generateId();
+  });
+}
+
+export function sortDiagnostics(diagnostics: ParseDiagnostic[]): void {
+  diagnostics.sort((a, b) => a.startLine - b.startLine || a.column - b.column);
 }
 
 /**
  * Parse document with frontmatter and equations
  * Frontmatter is the first section if it contains key: value pairs (no LaTeX)
- * Equations are matched by position (index) for ID preservation
+ * Heading separators (--- # Title) start sections, which may begin with their own
+ * frontmatter block of color and presets
+ * Equation IDs are preserved from previousEquations by label, content, position and similarity
  */
 export function parseDocumentWithFrontmatter(
   document: string,
   previousEquations?: ParsedEquation[]
 ): ParsedDocument {
   const lines = document.split('\n');
-  const sections: ParsedEquation[] = [];
+  const equations: ParsedEquation[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
   let frontmatter: DocumentFrontmatter = {};
+  const { sections, scopes } = buildSectionTree(findHeadings(lines));
+  let scopeIndex = -1;
 
-  let currentSection: string[] = [];
-  let startLine = 0;
-  let equationIndex = 0;
-  let sectionIndex = 0;
-  let isFirstSection = true;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Check for separator
-    if (/^---+$/.test(line.trim())) {
-      if (currentSection.length > 0) {
-        const content = currentSection.join('\n').trim();
-        if (content) {
-          // Check if first section is frontmatter (contains key: value, no LaTeX commands)
-          if (isFirstSection && isFrontmatter(content)) {
-            frontmatter = parseFrontmatter(content);
-          } else {
-            const explicitLabel = extractLabel(content);
-            const label = explicitLabel || `eq${++equationIndex}`;
-            const color = extractColor(content);
-
-            // Reuse ID from previous equation: match by explicit label, or by latex content if no label
-            const previousEq = explicitLabel
-              ? previousEquations?.find(eq => eq.label === label)
-              : previousEquations?.find(eq => eq.latex === replaceColorReferences(content, frontmatter.colorPresets));
-            const id = previousEq?.id || generateId();
-
-            sections.push({
-              id,
-              label,
-              latex: replaceColorReferences(content, frontmatter.colorPresets),
-              startLine,
-              endLine: i - 1,
-              color: resolveColor(color || undefined, frontmatter.colorPresets),
-            });
-
-            sectionIndex++;
-          }
-          isFirstSection = false;
-        }
+  splitSections(lines).forEach((section, index) => {
+    while (scopeIndex + 1 < scopes.length && scopes[scopeIndex + 1].node.line < section.startLine) scopeIndex++;
+    const scope = scopes[scopeIndex];
 
-        currentSection = [];
-      }
-      startLine = i + 1;
-    } else {
-      currentSection.push(line);
+    // Check if first section is frontmatter (contains key: value, no LaTeX commands)
+    if (index === 0 && !scope && isFrontmatter(section.content)) {
+      frontmatter = parseFrontmatter(section, lines, diagnostics);
+      return;
     }
-  }
 
-  // Last section
-  if (currentSection.length > 0) {
-    const content = currentSection.join('\n').trim();
-    if (content) {
-      // Check if first section is frontmatter
-      if (isFirstSection && isFrontmatter(content)) {
-        frontmatter = parseFrontmatter(content);
-      } else {
-        const explicitLabel = extractLabel(content);
-        const label = explicitLabel || `eq${++equationIndex}`;
-        const color = extractColor(content);
-
-        const previousEq = explicitLabel
-          ? previousEquations?.find(eq => eq.label === label)
-          : previousEquations?.find(eq => eq.latex === replaceColorReferences(content, frontmatter.colorPresets));
-        const id = previousEq?.id || generateId();
-
-        sections.push({
-          id,
-          label,
-          latex: replaceColorReferences(content, frontmatter.colorPresets),
-          startLine,
-          endLine: lines.length - 1,
-          color: resolveColor(color || undefined, frontmatter.colorPresets),
-        });
-      }
+    // Same for the first section after a heading
+    if (scope && section.startLine === scope.node.line + 1 && isFrontmatter(section.content)) {
+      const inherited = scopedFrontmatter(frontmatter, scope.parent).frontmatter;
+      const { color, colorPresets } = parseFrontmatter(section, lines, diagnostics, inherited);
+      if (color) scope.node.color = color;
+      if (colorPresets) scope.node.colorPresets = colorPresets;
+      return;
     }
-  }
 
-  return { frontmatter, equations: sections };
+    const scoped = scopedFrontmatter(frontmatter, scope);
+    equations.push(parseEquationSection(section, lines, scoped.frontmatter, diagnostics, scoped.sectionColor));
+  });
+
+  assignLabels(equations, lines, diagnostics);
+  assignEquationIds(equations, previousEquations ?? []);
+  assignSections(equations, scopes);
+  sortDiagnostics(diagnostics);
+
+  return { frontmatter, equations, diagnostics, sections };
 }
 
 /**
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import {
+  insertEquation,
+  moveEquation,
+  relabelEquation,
+  removeEquation,
+  replaceEquation,
+  serializeDocument,
+  setEquationColor,
+  setEquationDirective,
+  updateFrontmatter,
+} from './edit';
+import type { ParsedDocument, SectionNode } from './types';
+
+const DOCUMENT = `color: #333333
+define.hl: #ff0000
+author: someone
+
+---
+
+% The energy
+E = mc^2
+
+\\label{eq:energy}
+% color: $hl
+
+---
+
+\\hl{a}{a} + \\hl{b}{b}
+% variants: a, b
+
+--- # Mechanics
+
+color: #0000ff
+define.force: #00aa00
+
+---
+
+F = \\color{force}{m}a
+% scale: 1.5
+
+--- ## Examples
+
+p = mv
+`;
+
+const latexOf = (document: string) => parseDocumentWithFrontmatter(document).equations.map((eq) => eq.latex);
+
+/**
+ * Parse result without line numbers and IDs, which serializing is free to change
+ */
+function comparable({ frontmatter, equations, sections }: ParsedDocument) {
+  const outline = (nodes: SectionNode[]): unknown[] =>
+    nodes.map(({ id, title, level, color, colorPresets, children }) =>
+      ({ id, title, level, color, colorPresets, children: outline(children) }));
+  return {
+    frontmatter,
+    equations: equations.map(({ label, latex, source, color, directives, variants, section }) =>
+      ({ label, latex, source, color, directives, variants, section })),
+    sections: outline(sections),
+  };
+}
+
+describe('serializeDocument', () => {
+  it('writes a parsed document back as parsed', () => {
+    const parsed = parseDocumentWithFrontmatter(DOCUMENT);
+    const serialized = serializeDocument(parsed);
+    expect(comparable(parseDocumentWithFrontmatter(serialized))).toEqual(comparable(parsed));
+  });
+
+  it('keeps equations as written, with presets, \\hl markers, comments and blank lines', () => {
+    const serialized = serializeDocument(parseDocumentWithFrontmatter(DOCUMENT));
+    expect(serialized).toContain('% The energy\nE = mc^2\n\n\\label{eq:energy}\n% color: $hl');
+    expect(serialized).toContain('\\hl{a}{a} + \\hl{b}{b}\n% variants: a, b');
+    expect(serialized).toContain('F = \\color{force}{m}a');
+    expect(serialized).not.toContain('\\color[RGB]');
+  });
+
+  it('writes section headings with their colors and presets', () => {
+    const serialized = serializeDocument(parseDocumentWithFrontmatter(DOCUMENT));
+    expect(serialized).toContain('--- # Mechanics\n\ncolor: #0000ff\ndefine.force: #00aa00\n\n---\n\nF =');
+    expect(serialized).toContain('--- ## Examples\n\np = mv\n');
+  });
+
+  it('keeps sections without equations', () => {
+    const document = 'a\n\n--- # Empty\n\n--- # Full\n\nb\n';
+    expect(serializeDocument(parseDocumentWithFrontmatter(document))).toBe(document);
+  });
+
+  it('builds documents from LaTeX and colors', () => {
+    const serialized = serializeDocument({
+      frontmatter: { color: '#333333', macros: { norm: { body: '\\lVert #1 \\rVert', args: 1 } } },
+      equations: [{ latex: 'a + b' }, { latex: '\\norm{x}', color: 'red' }],
+    });
+    expect(serialized).toBe('color: #333333\nmacro.norm[1]: \\lVert #1 \\rVert\n\n---\n\na + b\n\n---\n\n\\norm{x}\n% color: red\n');
+    expect(parseDocumentWithFrontmatter(serialized).equations[1].color).toBe('#ff0000');
+  });
+});
+
+describe('insertEquation', () => {
+  it('inserts before an equation', () => {
+    const result = insertEquation(DOCUMENT, 'x = 1', 1);
+    expect(latexOf(result)[1]).toBe('x = 1');
+    expect(result).toContain('x = 1\n\n---\n\n\\hl{a}{a}');
+  });
+
+  it('appends at the end, keeping the trailing newline', () => {
+    const result = insertEquation('a\n\n---\n\nb\n', 'c');
+    expect(result).toBe('a\n\n---\n\nb\n\n---\n\nc\n');
+  });
+
+  it('reuses a trailing separator', () => {
+    expect(insertEquation('a\n\n---\n', 'b')).toBe('a\n\n---\n\nb\n');
+  });
+});
+
+describe('replaceEquation', () => {
+  it('replaces the equation text only', () => {
+    const result = replaceEquation(DOCUMENT, 3, 'p = m v');
+    expect(result).toBe(DOCUMENT.replace('p = mv', 'p = m v'));
+  });
+});
+
+describe('removeEquation', () => {
+  it('removes the first equation with its separator', () => {
+    expect(removeEquation('a\n\n---\n\nb\n', 0)).toBe('b\n');
+  });
+
+  it('removes an equation between two others', () => {
+    expect(removeEquation('a\n\n---\n\nb\n\n---\n\nc\n', 1)).toBe('a\n\n---\n\nc\n');
+  });
+
+  it('removes the last equation, keeping the trailing newline', () => {
+    expect(removeEquation('a\n\n---\n\nb\n', 1)).toBe('a\n');
+  });
+
+  it('keeps the frontmatter and comments of other equations', () => {
+    const result = removeEquation(DOCUMENT, 1);
+    expect(result).toContain('author: someone');
+    expect(result).toContain('% The energy\nE = mc^2\n\n\\label{eq:energy}');
+    expect(latexOf(result)).toHaveLength(3);
+  });
+
+  it('throws for indices out of range', () => {
+    expect(() => removeEquation('a\n', 1)).toThrow('out of range');
+  });
+});
+
+describe('moveEquation', () => {
+  it('moves an equation forward and backward', () => {
+    const document = 'a\n\n---\n\nb\n\n---\n\nc\n';
+    expect(moveEquation(document, 0, 2)).toBe('b\n\n---\n\nc\n\n---\n\na\n');
+    expect(moveEquation(document, 2, 0)).toBe('c\n\n---\n\na\n\n---\n\nb\n');
+  });
+
+  it('keeps the trailing newline when moving the last equation', () => {
+    expect(moveEquation('a\n\n---\n\nb\n', 1, 0)).toBe('b\n\n---\n\na\n');
+  });
+
+  it('moves comments and directives with the equation', () => {
+    const result = moveEquation(DOCUMENT, 0, 1);
+    const { equations } = parseDocumentWithFrontmatter(result);
+    expect(equations[1].source).toBe('% The energy\nE = mc^2\n\n\\label{eq:energy}\n% color: $hl');
+    expect(equations[1].color).toBe('#ff0000');
+  });
+});
+
+describe('relabelEquation', () => {
+  it('replaces an existing label', () => {
+    const result = relabelEquation(DOCUMENT, 0, 'eq:mass');
+    expect(parseDocumentWithFrontmatter(result).equations[0].label).toBe('eq:mass');
+    expect(result).toBe(DOCUMENT.replace('eq:energy', 'eq:mass'));
+  });
+
+  it('adds a label before the trailing directives', () => {
+    const result = relabelEquation(DOCUMENT, 1, 'eq:hl');
+    expect(result).toContain('\\hl{a}{a} + \\hl{b}{b}\n\\label{eq:hl}\n% variants: a, b');
+  });
+});
+
+describe('setEquationDirective', () => {
+  it('adds, updates and removes directives', () => {
+    const added = setEquationDirective(DOCUMENT, 3, 'filename', 'momentum');
+    expect(added).toContain('p = mv\n% filename: momentum\n');
+    const updated = setEquationDirective(added, 2, 'scale', '2');
+    expect(parseDocumentWithFrontmatter(updated).equations[2].directives.scale).toBe(2);
+    const removed = setEquationDirective(updated, 3, 'filename', undefined);
+    expect(removed).toBe(DOCUMENT.replace('% scale: 1.5', '% scale: 2'));
+  });
+
+  it('sets colors as written', () => {
+    const result = setEquationColor(DOCUMENT, 0, '$hl');
+    expect(result).toBe(DOCUMENT);
+    expect(setEquationColor(DOCUMENT, 0, undefined)).not.toContain('% color: $hl');
+  });
+});
+
+describe('updateFrontmatter', () => {
+  it('updates, adds and removes keys in place', () => {
+    const result = updateFrontmatter('% Colors\ncolor: red\nauthor: someone\n\n---\n\na\n', {
+      color: 'blue',
+      'define.hl': '#ff0000',
+      author: undefined,
+    });
+    expect(result).toBe('% Colors\ncolor: blue\ndefine.hl: #ff0000\n\n---\n\na\n');
+  });
+
+  it('leaves unknown keys it is not asked to change', () => {
+    const result = updateFrontmatter(DOCUMENT, { fontSize: '24pt' });
+    expect(result).toContain('author: someone\nfontSize: 24pt\n');
+    expect(parseDocumentWithFrontmatter(result).frontmatter.fontSize).toEqual({ value: 24, unit: 'pt' });
+  });
+
+  it('replaces macros whose argument count changed', () => {
+    const result = updateFrontmatter('macro.norm[1]: |#1|\n\n---\n\na\n', { 'macro.norm[2]': '|#1|_#2' });
+    expect(result).toBe('macro.norm[2]: |#1|_#2\n\n---\n\na\n');
+  });
+
+  it('starts a frontmatter when the document has none', () => {
+    expect(updateFrontmatter('a\n', { color: 'red' })).toBe('color: red\n\n---\n\na\n');
+    expect(updateFrontmatter('a\n', { color: undefined })).toBe('a\n');
+  });
+});
@@ -0,0 +1,351 @@
+import { DocumentFrontmatter, SerializableDocument } from './types';
+import { DocumentSection, splitSections, isFrontmatter, isSeparator, parseHeading, findHeadings } from './sections';
+import { sectionScopes } from './outline';
+
+/**
+ * Frontmatter and equation sections of a document, addressed by line
+ */
+interface DocumentLayout {
+  lines: string[];
+  frontmatter?: DocumentSection;
+  equations: DocumentSection[];
+}
+
+function getLayout(document: string): DocumentLayout {
+  const lines = document.split('\n');
+  const layout: DocumentLayout = { lines, equations: [] };
+
+  splitSections(lines).forEach((section, index) => {
+    const separatorLine = section.startLine - 1;
+    if (isFrontmatter(section.content)) {
+      // Frontmatter of a section (right after its heading) is not an equation either
+      if (parseHeading(lines[separatorLine] ?? '', separatorLine)) return;
+      if (index === 0 && findHeadings(lines, 0, separatorLine).length === 0) {
+        layout.frontmatter = section;
+        return;
+      }
+    }
+    layout.equations.push(section);
+  });
+
+  return layout;
+}
+
+function getEquationSection(layout: DocumentLayout, index: number): DocumentSection {
+  const section = layout.equations[index];
+  if (!section) {
+    throw new Error(`Equation index ${index} is out of range (document has ${layout.equations.length} equations)`);
+  }
+  return section;
+}
+
+/**
+ * First and last non-blank lines of a section
+ */
+function contentRange(section: DocumentSection, lines: string[]): { first: number; last: number } {
+  let first = section.startLine;
+  let last = section.endLine;
+  while (first < last && !lines[first].trim()) first++;
+  while (last > first && !lines[last].trim()) last--;
+  return { first, last };
+}
+
+function isComment(line: string): boolean {
+  return line.trim().startsWith('%');
+}
+
+const LABEL_PATTERN = /\\label\{[\w:.-]+\}/;
+const FRONTMATTER_KEY_PATTERN = /^(highlight\.(?:\/.+\/|[^\s:]+)|[\w.*]+(?:\[\d\])?):/;
+
+/**
+ * Frontmatter key without its argument count: macro.norm[1] -> macro.norm
+ */
+function baseKey(key: string): string {
+  return key.replace(/\[\d\]$/, '');
+}
+
+/**
+ * Frontmatter fields as key/value pairs, e.g. macro.norm[1] -> \left\lVert #1 \right\rVert
+ */
+export function frontmatterEntries(frontmatter: DocumentFrontmatter): Record<string, string> {
+  const entries: Record<string, string> = {};
+  if (frontmatter.color) entries.color = frontmatter.color;
+  if (frontmatter.fontSize) entries.fontSize = `${frontmatter.fontSize.value}${frontmatter.fontSize.unit}`;
+  const { background, padding, radius, border, shadow } = frontmatter.frame ?? {};
+  if (background) entries.background = background;
+  if (padding !== undefined) entries.padding = String(padding);
+  if (radius !== undefined) entries.radius = String(radius);
+  if (border) entries.border = border.width > 0 ? `${border.width}px ${border.color}` : 'none';
+  if (shadow) {
+    entries.shadow = shadow.offsetX || shadow.offsetY || shadow.blur
+      ? `${shadow.offsetX} ${shadow.offsetY} ${shadow.blur} ${shadow.color}`
+      : 'none';
+  }
+  for (const [name, value] of Object.entries(frontmatter.colorPresets ?? {})) {
+    entries[`define.${name}`] = value;
+  }
+  for (const [name, description] of Object.entries(frontmatter.descriptions ?? {})) {
+    entries[`describe.${name}`] = description;
+  }
+  for (const [name, def] of Object.entries(frontmatter.macros ?? {})) {
+    entries[`macro.${name}${def.args ? `[${def.args}]` : ''}`] = def.body;
+  }
+  for (const [name, def] of Object.entries(frontmatter.environments ?? {})) {
+    entries[`env.${name}${def.args ? `[${def.args}]` : ''}`] = `{${def.begin}}{${def.end}}`;
+  }
+  for (const mode of ['light', 'dark'] as const) {
+    const colors = frontmatter.theme?.[mode];
+    if (colors?.color) entries[`theme.${mode}.color`] = colors.color;
+    for (const [name, value] of Object.entries(colors?.colorPresets ?? {})) {
+      entries[`theme.${mode}.${name}`] = value;
+    }
+  }
+  if (frontmatter.theme?.output) entries['theme.output'] = frontmatter.theme.output;
+  for (const rule of frontmatter.highlights ?? []) {
+    entries[`highlight.${rule.token}`] = rule.color;
+  }
+  return entries;
+}
+
+/**
+ * Serialize frontmatter, sections and equations into a document
+ * Inverse of parseDocumentWithFrontmatter: equations are written from their source (presets,
+ * \hl markers, comments and % directives as written) and grouped under their section headings
+ * The frontmatter is written from its parsed values, so colors come back resolved and its
+ * comments are lost; use updateFrontmatter to change the frontmatter of an existing document
+ */
+export function serializeDocument(document: SerializableDocument): string {
+  const parts: string[] = [];
+  let heading: string | undefined;  // Heading separator waiting for the section's first block
+
+  const addBlock = (content: string) => {
+    if (heading || parts.length > 0) parts.push(heading ?? '---');
+    heading = undefined;
+    parts.push(content);
+  };
+  const addHeading = (line: string) => {
+    if (heading) parts.push(heading);
+    heading = line;
+  };
+
+  const frontmatterLines = entryLines(frontmatterEntries(document.frontmatter ?? {}));
+  if (frontmatterLines.length > 0) addBlock(frontmatterLines.join('\n'));
+
+  // Equations of unknown sections are written with the ones before the first heading
+  const scopes = sectionScopes(document.sections ?? []);
+  const sectionIds = new Set(scopes.map((scope) => scope.node.id));
+  const equationsIn = (sectionId: string | undefined) => document.equations.filter((equation) =>
+    (equation.section !== undefined && sectionIds.has(equation.section) ? equation.section : undefined) === sectionId);
+
+  const writeEquations = (sectionId: string | undefined) => {
+    for (const equation of equationsIn(sectionId)) {
+      if (equation.source !== undefined) {
+        addBlock(equation.source.trim());
+        continue;
+      }
+      const lines = equation.latex.trim().split('\n');
+      if (equation.color) applyDirective(lines, lines.length - 1, 'color', equation.color);
+      addBlock(lines.join('\n'));
+    }
+  };
+
+  writeEquations(undefined);
+  for (const { node } of scopes) {
+    addHeading(`--- ${'#'.repeat(node.level)} ${node.title}`);
+    const sectionLines = entryLines({
+      ...(node.color ? { color: node.color } : {}),
+      ...Object.fromEntries(Object.entries(node.colorPresets ?? {}).map(([name, value]) => [`define.${name}`, value])),
+    });
+    if (sectionLines.length > 0) addBlock(sectionLines.join('\n'));
+    writeEquations(node.id);
+  }
+  if (heading) parts.push(heading);
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+function entryLines(entries: Record<string, string>): string[] {
+  return Object.entries(entries).map(([key, value]) => `${key}: ${value}`);
+}
+
+/**
+ * Insert an equation before the equation at `index` (appends by default)
+ */
+export function insertEquation(document: string, latex: string, index?: number): string {
+  const layout = getLayout(document);
+  const { lines, equations } = layout;
+  const latexLines = latex.trim().split('\n');
+
+  if (index !== undefined && index < equations.length) {
+    const { first } = contentRange(getEquationSection(layout, index), lines);
+    lines.splice(first, 0, ...latexLines, '', '---', '');
+    return lines.join('\n');
+  }
+
+  // Append after the last non-blank line, reusing a trailing separator if there is one
+  let last = lines.length - 1;
+  while (last >= 0 && !lines[last].trim()) last--;
+  if (last < 0) {
+    return latexLines.join('\n') + document;
+  }
+  const insertion = isSeparator(lines[last]) ? ['', ...latexLines] : ['', '---', '', ...latexLines];
+  lines.splice(last + 1, 0, ...insertion);
+  return lines.join('\n');
+}
+
+/**
+ * Replace the content of the equation at `index`, keeping surrounding blank lines and separators
+ */
+export function replaceEquation(document: string, index: number, latex: string): string {
+  const layout = getLayout(document);
+  const { first, last } = contentRange(getEquationSection(layout, index), layout.lines);
+  layout.lines.splice(first, last - first + 1, ...latex.trim().split('\n'));
+  return layout.lines.join('\n');
+}
+
+/**
+ * Remove the equation at `index` together with one of its separators
+ */
+export function removeEquation(document: string, index: number): string {
+  const layout = getLayout(document);
+  const { lines } = layout;
+  const section = getEquationSection(layout, index);
+
+  let start = section.startLine;
+  let end = section.endLine;
+  if (start > 0 && isSeparator(lines[start - 1])) {
+    start--;
+    // Removing the last section also drops the blank lines left before its separator,
+    // but keeps the ones ending the document (its trailing newline)
+    if (end === lines.length - 1) {
+      while (start > 0 && !lines[start - 1].trim()) start--;
+      end = contentRange(section, lines).last;
+    }
+  } else if (end + 1 < lines.length && isSeparator(lines[end + 1])) {
+    // The next section becomes the first, without the blank lines after the separator
+    end++;
+    while (end + 1 < lines.length && !lines[end + 1].trim()) end++;
+  }
+
+  lines.splice(start, end - start + 1);
+  return lines.join('\n');
+}
+
+/**
+ * Move the equation at `from` so it ends up at index `to`
+ */
+export function moveEquation(document: string, from: number, to: number): string {
+  if (from === to) return document;
+
+  const layout = getLayout(document);
+  const { first, last } = contentRange(getEquationSection(layout, from), layout.lines);
+  const latex = layout.lines.slice(first, last + 1).join('\n');
+
+  return insertEquation(removeEquation(document, from), latex, to);
+}
+
+/**
+ * Set the \label{} of the equation at `index`
+ * Replaces an existing label, otherwise adds one before the trailing directive comments
+ */
+export function relabelEquation(document: string, index: number, label: string): string {
+  const layout = getLayout(document);
+  const { lines } = layout;
+  const { first, last } = contentRange(getEquationSection(layout, index), lines);
+
+  for (let i = first; i <= last; i++) {
+    if (LABEL_PATTERN.test(lines[i])) {
+      lines[i] = lines[i].replace(LABEL_PATTERN, `\\label{${label}}`);
+      return lines.join('\n');
+    }
+  }
+
+  let insertAt = last + 1;
+  while (insertAt > first && isComment(lines[insertAt - 1])) insertAt--;
+  lines.splice(insertAt, 0, `\\label{${label}}`);
+  return lines.join('\n');
+}
+
+/**
+ * Set or clear the % key: directive among the trailing comment lines ending at line `last`
+ */
+function applyDirective(lines: string[], last: number, key: string, value: string | undefined): void {
+  const pattern = new RegExp(`^\\s*%\\s*${key}:`);
+  for (let i = last; i >= 0 && (isComment(lines[i]) || !lines[i].trim()); i--) {
+    if (!pattern.test(lines[i])) continue;
+    if (value) {
+      lines[i] = `% ${key}: ${value}`;
+    } else {
+      lines.splice(i, 1);
+    }
+    return;
+  }
+
+  if (value) {
+    lines.splice(last + 1, 0, `% ${key}: ${value}`);
+  }
+}
+
+/**
+ * Set or clear (value undefined) a trailing % key: directive of the equation at `index`
+ */
+export function setEquationDirective(document: string, index: number, key: string, value: string | undefined): string {
+  const layout = getLayout(document);
+  const { last } = contentRange(getEquationSection(layout, index), layout.lines);
+  applyDirective(layout.lines, last, key, value);
+  return layout.lines.join('\n');
+}
+
+/**
+ * Set or clear (color undefined) the trailing % color: directive of the equation at `index`
+ */
+export function setEquationColor(document: string, index: number, color: string | undefined): string {
+  return setEquationDirective(document, index, 'color', color);
+}
+
+/**
+ * Set frontmatter keys in place, adding missing ones and removing keys set to undefined
+ * Keys are matched without their argument count, so macro.norm[2] replaces macro.norm[1]
+ * Comments, blank lines and other keys are left untouched
+ */
+export function updateFrontmatter(document: string, updates: Record<string, string | undefined>): string {
+  const layout = getLayout(document);
+  const { lines } = layout;
+  const pending = new Map(Object.entries(updates).map(([key, value]) => [baseKey(key), { key, value }]));
+
+  if (layout.frontmatter) {
+    const { first, last } = contentRange(layout.frontmatter, lines);
+
+    // Update or remove existing keys, bottom-up so removals don't shift unvisited lines
+    let end = last;
+    for (let i = last; i >= first; i--) {
+      const match = lines[i].trim().match(FRONTMATTER_KEY_PATTERN);
+      const update = match ? pending.get(baseKey(match[1])) : undefined;
+      if (!update) continue;
+
+      if (update.value === undefined) {
+        lines.splice(i, 1);
+        end--;
+      } else {
+        lines[i] = `${update.key}: ${update.value}`;
+      }
+      pending.delete(baseKey(update.key));
+    }
+
+    const added = [...pending.values()].filter((u) => u.value !== undefined).map((u) => `${u.key}: ${u.value}`);
+    lines.splice(end + 1, 0, ...added);
+    return lines.join('\n');
+  }
+
+  const added = [...pending.values()].filter((u) => u.value !== undefined).map((u) => `${u.key}: ${u.value}`);
+  if (added.length === 0) return document;
+
+  // Start a frontmatter section, reusing a leading separator if the document has one
+  const firstContent = lines.findIndex((line) => line.trim());
+  if (firstContent !== -1 && isSeparator(lines[firstContent])) {
+    lines.splice(firstContent, 0, ...added, '');
+  } else {
+    lines.splice(0, 0, ...added, '', '---', '');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { applyHighlightRules } from './highlights';
+
+const highlight = (latex: string, token: string) => applyHighlightRules(latex, [{ token, color: 'blue' }]).latex;
+
+describe('applyHighlightRules', () => {
+  it('colors every literal match', () => {
+    expect(highlight('x + \\beta_1 x', 'x')).toBe('{\\color{blue}x} + \\beta_1 {\\color{blue}x}');
+    expect(highlight('\\beta_1 + \\beta', '\\beta')).toBe('{\\color{blue}\\beta}_1 + {\\color{blue}\\beta}');
+  });
+
+  it('does not split words in font arguments', () => {
+    expect(highlight('\\mathrm{exp}(x)', 'x')).toBe('\\mathrm{exp}({\\color{blue}x})');
+    expect(highlight('\\mathit{max} + \\mathsf{xy} + \\mathtt{box}', 'x')).toBe('\\mathit{max} + \\mathsf{xy} + \\mathtt{box}');
+    expect(highlight('\\mathrm{exp}(x)', '/x/')).toBe('\\mathrm{exp}({\\color{blue}x})');
+  });
+
+  it('still matches single letters and whole words in font arguments', () => {
+    expect(highlight('\\mathrm{d}x', 'd')).toBe('\\mathrm{{\\color{blue}d}}x');
+    expect(highlight('\\mathrm{exp}(x)', '\\mathrm{exp}')).toBe('{\\color{blue}\\mathrm{exp}}(x)');
+  });
+
+  it('leaves protected arguments alone', () => {
+    expect(highlight('\\text{max } x \\label{eq:x}', 'x')).toBe('\\text{max } {\\color{blue}x} \\label{eq:x}');
+  });
+});
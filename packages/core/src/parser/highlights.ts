@@ -0,0 +1,253 @@
+import { HighlightRule } from './types';
+import { readBraceGroup } from './tex';
+
+/**
+ * A TeX token of an equation source: a control sequence, a single character or a word in \mathrm{...}
+ */
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  isProtected: boolean;   // Inside an argument that isn't math (labels, color names, text)
+}
+
+/**
+ * A highlight rule matching a span of tokens, first..last (inclusive)
+ */
+interface HighlightSpan {
+  rule: number;         // Index of the rule in the frontmatter
+  first: number;
+  last: number;
+}
+
+/**
+ * Two rules matching overlapping tokens; `start`/`end` are offsets in the equation source
+ */
+export interface HighlightConflict {
+  rule: HighlightRule;          // Rule that was applied
+  ignored: HighlightRule;       // Rule that was skipped
+  start: number;
+  end: number;
+}
+
+// Number of arguments that are names, colors or text rather than math
+const PROTECTED_ARGUMENTS: Record<string, number> = {
+  label: 1, ref: 1, eqref: 1, tag: 1, hl: 1, begin: 1, end: 1,
+  color: 1, textcolor: 1, colorbox: 1, fcolorbox: 2,
+  text: 1, textrm: 1, textbf: 1, textit: 1, textsf: 1, texttt: 1, mbox: 1, operatorname: 1,
+};
+
+// Font commands whose argument is usually a word (\mathrm{exp}); its letters form one token so
+// a single-letter rule can't color part of the word
+const FONT_WORD_COMMANDS = new Set(['mathrm', 'mathit', 'mathbf', 'mathsf', 'mathtt', 'mathnormal']);
+
+// Tokens that can't be moved into a color group without breaking the structure around them
+const STRUCTURAL_TOKENS = new Set([
+  '&', '\\\\', '\\left', '\\right', '\\middle', '\\begin', '\\end', '\\label', '\\tag', '\\hl',
+  '\\color', '\\textcolor', '\\colorbox', '\\fcolorbox',
+]);
+
+/**
+ * Split LaTeX into tokens, skipping whitespace and comments
+ */
+function tokenize(latex: string): Token[] {
+  const tokens: Token[] = [];
+  let protectedUntil = -1;
+  let wordUntil = -1;
+
+  for (let i = 0; i < latex.length;) {
+    const char = latex[i];
+    if (char === '%') {
+      const lineEnd = latex.indexOf('\n', i);
+      i = lineEnd === -1 ? latex.length : lineEnd;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    let end = i + 1;
+    if (char === '\\') {
+      const word = latex.substring(i + 1).match(/^[A-Za-z]+/)?.[0];
+      end = Math.min(latex.length, i + 1 + (word ? word.length : 1));
+    } else if (i < wordUntil && /[A-Za-z]/.test(char)) {
+      end = i + (latex.substring(i, wordUntil).match(/^[A-Za-z]+/)?.[0].length ?? 1);
+    }
+    const text = latex.substring(i, end);
+    tokens.push({ text, start: i, end, isProtected: i < protectedUntil });
+
+    if (char === '\\' && FONT_WORD_COMMANDS.has(text.substring(1))) {
+      wordUntil = readBraceGroup(latex, end)?.end ?? wordUntil;
+    }
+
+    // Skip the [model] option and the protected arguments of \label, \color, \text, ...
+    const argumentCount = char === '\\' ? PROTECTED_ARGUMENTS[text.substring(1)] : undefined;
+    if (argumentCount && i >= protectedUntil) {
+      let position = end;
+      const option = latex.substring(position).match(/^\s*\[[^\]]*\]/);
+      if (option) position += option[0].length;
+      for (let n = 0; n < argumentCount; n++) {
+        const group = readBraceGroup(latex, position);
+        if (!group) break;
+        position = group.end;
+      }
+      protectedUntil = position;
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Check if a rule token is a /regular expression/ rather than a literal
+ */
+function isPatternToken(token: string): boolean {
+  return token.length > 2 && token.startsWith('/') && token.endsWith('/');
+}
+
+/**
+ * Check that a rule token is a literal (\beta, x_i) or a /regular expression/
+ * Returns an error message for invalid tokens
+ */
+export function validateHighlightToken(token: string): string | null {
+  if (isPatternToken(token)) {
+    try {
+      new RegExp(token.slice(1, -1));
+    } catch {
+      return `Invalid regular expression ${token}`;
+    }
+    return null;
+  }
+
+  const tokens = tokenize(token);
+  if (tokens.length === 0) return 'Empty highlight token';
+  if (tokens.some((t) => STRUCTURAL_TOKENS.has(t.text) || t.text === '{' || t.text === '}')) {
+    return `Cannot highlight "${token}" (use a symbol such as \\beta or a /regular expression/)`;
+  }
+  return null;
+}
+
+/**
+ * Index of the last token of the brace group opened by tokens[open], or -1 if it isn't closed
+ */
+function closingBrace(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '{') depth++;
+    if (tokens[i].text === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Extend a span ending in a control word over its {...} arguments (\mathbf{x}, \frac{a}{b}),
+ * or return null if the span can't be wrapped in a group: it would split a brace group,
+ * start or end in a sub/superscript, or contain alignment and delimiter commands
+ */
+function completeSpan(tokens: Token[], first: number, last: number): number | null {
+  if (/^\\[A-Za-z]+$/.test(tokens[last].text)) {
+    while (tokens[last + 1]?.text === '{') {
+      const close = closingBrace(tokens, last + 1);
+      if (close === -1) return null;
+      last = close;
+    }
+  }
+
+  let depth = 0;
+  for (let i = first; i <= last; i++) {
+    const { text, isProtected } = tokens[i];
+    if (isProtected || STRUCTURAL_TOKENS.has(text)) return null;
+    if (text === '{') depth++;
+    if (text === '}' && --depth < 0) return null;
+  }
+  if (depth !== 0) return null;
+
+  const scripts = ['_', '^'];
+  if (scripts.includes(tokens[first].text) || scripts.includes(tokens[last].text)) return null;
+  return last;
+}
+
+/**
+ * Spans of tokens matched by one rule
+ */
+function findRuleSpans(latex: string, tokens: Token[], rule: HighlightRule, ruleIndex: number): HighlightSpan[] {
+  const spans: HighlightSpan[] = [];
+  const addSpan = (first: number, last: number) => {
+    const completed = completeSpan(tokens, first, last);
+    if (completed !== null) spans.push({ rule: ruleIndex, first, last: completed });
+  };
+
+  if (isPatternToken(rule.token)) {
+    // Regular expression matches must start and end on token boundaries
+    const startIndex = new Map(tokens.map((token, i) => [token.start, i]));
+    const endIndex = new Map(tokens.map((token, i) => [token.end, i]));
+    const pattern = new RegExp(rule.token.slice(1, -1), 'g');
+
+    for (const match of latex.matchAll(pattern)) {
+      if (!match[0]) continue;
+      const first = startIndex.get(match.index ?? 0);
+      const last = endIndex.get((match.index ?? 0) + match[0].length);
+      if (first === undefined || last === undefined) continue;
+
+      // Matches across comments would move code into the comment
+      const text = tokens.slice(first, last + 1).map((token) => token.text).join('');
+      if (text === match[0].replace(/\s+/g, '')) addSpan(first, last);
+    }
+    return spans;
+  }
+
+  const ruleTokens = tokenize(rule.token).map((token) => token.text);
+  for (let i = 0; i + ruleTokens.length <= tokens.length; i++) {
+    if (ruleTokens.every((text, n) => tokens[i + n].text === text)) {
+      addSpan(i, i + ruleTokens.length - 1);
+    }
+  }
+  return spans;
+}
+
+/**
+ * Color every token matched by a highlight rule: \beta_1 -> {\color{accent}\beta}_1
+ * Rules apply in frontmatter order; a match overlapping an earlier rule's match is skipped
+ * and reported as a conflict unless both rules use the same color
+ */
+export function applyHighlightRules(
+  latex: string,
+  rules: HighlightRule[] | undefined
+): { latex: string; matched: boolean; conflicts: HighlightConflict[] } {
+  if (!rules || rules.length === 0) return { latex, matched: false, conflicts: [] };
+
+  const tokens = tokenize(latex);
+  const applied: HighlightSpan[] = [];
+  const conflicts: HighlightConflict[] = [];
+
+  rules.forEach((rule, ruleIndex) => {
+    for (const span of findRuleSpans(latex, tokens, rule, ruleIndex)) {
+      const overlapping = applied.find((other) => other.first <= span.last && span.first <= other.last);
+      if (!overlapping) {
+        applied.push(span);
+        continue;
+      }
+
+      const other = rules[overlapping.rule];
+      if (other.color !== rule.color && !conflicts.some((c) => c.ignored === rule && c.rule === other)) {
+        conflicts.push({ rule: other, ignored: rule, start: tokens[span.first].start, end: tokens[span.last].end });
+      }
+    }
+  });
+
+  applied.sort((a, b) => a.first - b.first);
+  let result = '';
+  let position = 0;
+  for (const { rule, first, last } of applied) {
+    const start = tokens[first].start;
+    const end = tokens[last].end;
+    // $preset references become preset names, which \color resolves like any other color name
+    const color = rules[rule].color.replace(/^\$/, '');
+    result += `${latex.substring(position, start)}{\\color{${color}}${latex.substring(start, end)}}`;
+    position = end;
+  }
+
+  return { latex: result + latex.substring(position), matched: applied.length > 0, conflicts };
+}
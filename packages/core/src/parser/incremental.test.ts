@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import { parseDocumentIncremental, type DocumentChange } from './incremental';
+import type { ParsedDocument, SectionNode } from './types';
+
+const DOCUMENT = `color: #333333
+define.hl: #ff0000
+
+---
+
+a = 1
+% color: $hl
+
+---
+
+b = 2
+\\label{eq:b}
+
+--- # Mechanics
+
+define.force: #00aa00
+
+---
+
+F = \\color{force}{m}a
+
+---
+
+p = mv
+% scale: x
+
+--- ## Examples
+
+\\hl{a}{q}
+% variants: a
+
+---
+
+r = 3
+`;
+
+/**
+ * Replace the first occurrence of `search` and describe the edit like a Monaco change event
+ */
+function edit(document: string, search: string, text: string): { next: string; change: DocumentChange } {
+  const start = document.indexOf(search);
+  if (start === -1) throw new Error(`"${search}" not found`);
+  const position = (offset: number) => {
+    const before = document.substring(0, offset).split('\n');
+    return { lineNumber: before.length, column: before[before.length - 1].length + 1 };
+  };
+  const from = position(start);
+  const to = position(start + search.length);
+  return {
+    next: document.substring(0, start) + text + document.substring(start + search.length),
+    change: {
+      range: { startLineNumber: from.lineNumber, startColumn: from.column, endLineNumber: to.lineNumber, endColumn: to.column },
+      text,
+    },
+  };
+}
+
+/**
+ * Parse result with the fresh IDs of new equations replaced, as no two parses agree on those
+ */
+function withoutNewIds(parsed: ParsedDocument, previousIds: Set<string>): ParsedDocument {
+  const id = (value: string) => (previousIds.has(value) ? value : 'new');
+  const outline = (nodes: SectionNode[]): SectionNode[] =>
+    nodes.map((node) => ({ ...node, equationIds: node.equationIds.map(id), children: outline(node.children) }));
+  return {
+    ...parsed,
+    equations: parsed.equations.map((eq) => ({ ...eq, id: id(eq.id) })),
+    sections: outline(parsed.sections),
+  };
+}
+
+/**
+ * Apply an edit both ways and check the incremental parse equals a full parse
+ */
+function parseBothWays(document: string, search: string, text: string) {
+  const previous = parseDocumentWithFrontmatter(document);
+  const previousIds = new Set(previous.equations.map((eq) => eq.id));
+  const { next, change } = edit(document, search, text);
+  const { changedIds, removedIds, ...incremental } = parseDocumentIncremental(next, previous, [change]);
+  const full = parseDocumentWithFrontmatter(next, previous.equations);
+  expect(withoutNewIds(incremental, previousIds)).toEqual(withoutNewIds(full, previousIds));
+  return { previous, incremental, changedIds, removedIds };
+}
+
+describe('parseDocumentIncremental', () => {
+  it('matches a full parse after an edit inside a section', () => {
+    const { previous, incremental, changedIds, removedIds } = parseBothWays(DOCUMENT, 'F = ', 'F = 2');
+    expect(changedIds).toEqual([previous.equations[2].id]);
+    expect(removedIds).toEqual([]);
+    expect(incremental.equations.map((eq) => eq.id)).toEqual(previous.equations.map((eq) => eq.id));
+  });
+
+  it('shifts later equations, sections and diagnostics when lines are added', () => {
+    const { previous, incremental, changedIds } = parseBothWays(DOCUMENT, 'a = 1', 'a = 1\n+ 0\n+ 0');
+    expect(changedIds).toEqual([previous.equations[0].id]);
+    expect(incremental.sections[0].line).toBe(previous.sections[0].line + 2);
+    expect(incremental.diagnostics[0].startLine).toBe(previous.diagnostics[0].startLine + 2);
+  });
+
+  it('matches a full parse when equations are added or merged across separators', () => {
+    const added = parseBothWays(DOCUMENT, 'p = mv', 'p = mv\n\n---\n\nE = mc^2');
+    expect(added.incremental.equations).toHaveLength(added.previous.equations.length + 1);
+    expect(added.removedIds).toEqual([]);
+
+    const merged = parseBothWays(DOCUMENT, 'a = 1\n% color: $hl\n\n---\n\n', 'a = 1\n');
+    expect(merged.incremental.equations).toHaveLength(merged.previous.equations.length - 1);
+    expect(merged.removedIds).toHaveLength(1);
+  });
+
+  it('rechecks labels across the document', () => {
+    const { incremental } = parseBothWays(DOCUMENT, 'r = 3', 'r = 3 \\label{eq:b}');
+    expect(incremental.diagnostics.map((diagnostic) => diagnostic.code)).toContain('duplicate-label');
+  });
+
+  it('matches a full parse after edits in the frontmatter', () => {
+    const { incremental, changedIds } = parseBothWays(DOCUMENT, 'define.hl: #ff0000', 'define.hl: #0000ff');
+    expect(incremental.equations[0].color).toBe('#0000ff');
+    expect(changedIds).toEqual([incremental.equations[0].id]);
+  });
+
+  it('matches a full parse after edits in section frontmatter and headings', () => {
+    expect(parseBothWays(DOCUMENT, 'define.force: #00aa00', 'define.force: #0000aa')
+      .incremental.equations[2].latex).toContain('\\color[RGB]{0,0,170}');
+    expect(parseBothWays(DOCUMENT, '--- ## Examples', '--- # Examples').incremental.sections)
+      .toHaveLength(2);
+    expect(parseBothWays(DOCUMENT, '--- # Mechanics', '---').incremental.sections[0].title).toBe('Examples');
+    expect(parseBothWays(DOCUMENT, '$hl\n\n---', '$hl\n\n--- # Intro')
+      .incremental.sections.map((section) => section.id)).toEqual(['intro', 'mechanics']);
+  });
+});
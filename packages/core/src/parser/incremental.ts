@@ -0,0 +1,185 @@
+import { ParsedDocument, ParsedEquation, ParseDiagnostic, DiagnosticCode } from './types';
+import { splitSections, isFrontmatter, isSeparator, findHeadings, parseHeading } from './sections';
+import { shiftSections, sectionScopes, findSectionScope, scopedFrontmatter, assignSections } from './outline';
+import {
+  parseDocumentWithFrontmatter,
+  parseEquationSection,
+  assignLabels,
+  assignEquationIds,
+  sortDiagnostics,
+} from './document';
+
+/**
+ * A text edit in 1-based line/column coordinates of the document before the edit
+ * Matches Monaco's IModelContentChange, so editor change events can be passed as-is
+ */
+export interface DocumentChange {
+  range: {
+    startLineNumber: number;
+    startColumn: number;
+    endLineNumber: number;
+    endColumn: number;
+  };
+  text: string;
+}
+
+export interface IncrementalParseResult extends ParsedDocument {
+  changedIds: string[];   // Equations that are new or whose label, source or directives changed
+  removedIds: string[];   // Equations of the previous parse that no longer exist
+}
+
+// Diagnostics that depend on the whole document, recomputed on every update
+const DOCUMENT_WIDE_CODES = new Set<DiagnosticCode>(['duplicate-label', 'duplicate-filename']);
+
+/**
+ * Everything about an equation that affects its rendered output
+ */
+function renderKey(eq: ParsedEquation): string {
+  return JSON.stringify([eq.label, eq.latex, eq.color, eq.directives, eq.variants]);
+}
+
+/**
+ * Compare equations by ID; only `compare` (default: all) are checked for content changes,
+ * the rest are assumed unchanged apart from their label
+ */
+function diffEquations(
+  previous: ParsedEquation[],
+  current: ParsedEquation[],
+  compare: Set<ParsedEquation> | null = null
+): { changedIds: string[]; removedIds: string[] } {
+  const previousById = new Map(previous.map((eq) => [eq.id, eq]));
+  const currentIds = new Set(current.map((eq) => eq.id));
+
+  const changedIds = current
+    .filter((eq) => {
+      const prev = previousById.get(eq.id);
+      if (!prev) return true;
+      if (compare && !compare.has(eq)) return prev.label !== eq.label;
+      return renderKey(prev) !== renderKey(eq);
+    })
+    .map((eq) => eq.id);
+
+  return {
+    changedIds,
+    removedIds: previous.filter((eq) => !currentIds.has(eq.id)).map((eq) => eq.id),
+  };
+}
+
+/**
+ * Update a parsed document after an edit, reparsing only the sections the changes touch
+ * `changes` must come from a single edit of the document `previous` was parsed from
+ * (e.g. the changes of one Monaco content change event)
+ * Falls back to a full parse when the frontmatter or a section heading is affected
+ */
+export function parseDocumentIncremental(
+  document: string,
+  previous: ParsedDocument,
+  changes: DocumentChange[]
+): IncrementalParseResult {
+  const lines = document.split('\n');
+  const previousEquations = previous.equations;
+
+  const fullParse = (): IncrementalParseResult => {
+    const parsed = parseDocumentWithFrontmatter(document, previousEquations);
+    return { ...parsed, ...diffEquations(previousEquations, parsed.equations) };
+  };
+
+  const firstEquation = previousEquations[0];
+  if (changes.length === 0 || !firstEquation) return fullParse();
+
+  // Lines touched by the changes (0-based, in the previous document) and the line count delta
+  let changeStart = Infinity;
+  let changeEnd = -Infinity;
+  let lineDelta = 0;
+  for (const { range, text } of changes) {
+    changeStart = Math.min(changeStart, range.startLineNumber - 1);
+    changeEnd = Math.max(changeEnd, range.endLineNumber - 1);
+    lineDelta += text.split('\n').length - 1 - (range.endLineNumber - range.startLineNumber);
+  }
+
+  // Changes at or above the separator before the first equation may affect the frontmatter
+  if (changeStart < firstEquation.startLine) return fullParse();
+
+  // Equations whose separators are outside the changed lines are untouched
+  let before = 0;
+  while (before < previousEquations.length && previousEquations[before].endLine + 1 < changeStart) before++;
+  let after = previousEquations.length;
+  while (after > before && previousEquations[after - 1].startLine - 1 > changeEnd) after--;
+
+  // Reparse everything between the untouched equations
+  const regionStart = before > 0 ? previousEquations[before - 1].endLine + 1 : firstEquation.startLine;
+  const previousLineCount = lines.length - lineDelta;
+  const previousRegionEnd = after < previousEquations.length
+    ? previousEquations[after].startLine - 1
+    : previousLineCount - 1;
+  const regionEnd = previousRegionEnd + lineDelta;
+
+  // The changes don't describe this document, don't trust the previous parse
+  const separatorsIntact =
+    (before === 0 || isSeparator(lines[regionStart] ?? '')) &&
+    (after === previousEquations.length || isSeparator(lines[regionEnd] ?? ''));
+  if (regionEnd < regionStart - 1 || regionEnd >= lines.length || !separatorsIntact) return fullParse();
+
+  // Headings change which section (and presets) every following equation belongs to
+  const headingRemoved = sectionScopes(previous.sections)
+    .some(({ node }) => node.line >= regionStart && node.line <= previousRegionEnd);
+  if (headingRemoved || findHeadings(lines, regionStart, regionEnd).length > 0) return fullParse();
+
+  const regionSections = splitSections(lines.slice(regionStart, regionEnd + 1)).map((section) => ({
+    ...section,
+    startLine: section.startLine + regionStart,
+    endLine: section.endLine + regionStart,
+  }));
+
+  // A first section that now looks like frontmatter changes how the whole document parses,
+  // or how its section does if it directly follows a heading
+  if (before === 0 && regionSections.length > 0 && isFrontmatter(regionSections[0].content)) {
+    const separatorLine = regionSections[0].startLine - 1;
+    const hasFrontmatter = splitSections(lines.slice(0, regionStart)).length > 0;
+    if (!hasFrontmatter || parseHeading(lines[separatorLine] ?? '', separatorLine)) return fullParse();
+  }
+
+  // Keep diagnostics outside the region (shifting later ones), drop document-wide ones
+  const diagnostics: ParseDiagnostic[] = [];
+  for (const diagnostic of previous.diagnostics) {
+    if (DOCUMENT_WIDE_CODES.has(diagnostic.code)) continue;
+    if (diagnostic.endLine < regionStart) {
+      diagnostics.push(diagnostic);
+    } else if (diagnostic.startLine > previousRegionEnd) {
+      diagnostics.push({
+        ...diagnostic,
+        startLine: diagnostic.startLine + lineDelta,
+        endLine: diagnostic.endLine + lineDelta,
+      });
+    }
+  }
+
+  const sections = shiftSections(previous.sections, previousRegionEnd, lineDelta);
+  const scopes = sectionScopes(sections);
+  const regionEquations = regionSections.map((section) => {
+    const scoped = scopedFrontmatter(previous.frontmatter, findSectionScope(scopes, section.startLine));
+    return parseEquationSection(section, lines, scoped.frontmatter, diagnostics, scoped.sectionColor);
+  });
+  const equations: ParsedEquation[] = [
+    ...previousEquations.slice(0, before).map((eq) => ({ ...eq })),
+    ...regionEquations,
+    ...previousEquations.slice(after).map((eq) => ({
+      ...eq,
+      startLine: eq.startLine + lineDelta,
+      endLine: eq.endLine + lineDelta,
+    })),
+  ];
+
+  assignLabels(equations, lines, diagnostics);
+  assignEquationIds(regionEquations, previousEquations.slice(before, after));
+  assignSections(equations, scopes);
+  sortDiagnostics(diagnostics);
+
+  return {
+    frontmatter: previous.frontmatter,
+    equations,
+    diagnostics,
+    sections,
+    ...diffEquations(previousEquations, equations, new Set(regionEquations)),
+  };
+}
@@ -1,2 +1,8 @@
 export * from './types';
-export * from './document';
+export * from './colors';
+export * from './matching';
+export { parseDocumentWithFrontmatter, parseDocument } from './document';
+export * from './edit';
+export * from './incremental';
+export * from './search';
+export * from './theme';
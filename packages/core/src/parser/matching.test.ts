@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, matchEquationIds, similarity, type MatchCandidate, type PreviousCandidate } from './matching';
+
+const eq = (latex: string, label?: string): MatchCandidate => ({
+  label: label ?? latex,
+  latex,
+  hasExplicitLabel: label !== undefined,
+});
+
+const prev = (id: string, latex: string, label?: string): PreviousCandidate => ({ id, ...eq(latex, label) });
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('', '')).toBe(0);
+    expect(editDistance('abc', '')).toBe(3);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+});
+
+describe('similarity', () => {
+  it('is 1 for identical strings and drops with the edit distance', () => {
+    expect(similarity('', '')).toBe(1);
+    expect(similarity('x^2', 'x^2')).toBe(1);
+    expect(similarity('\\sin x', '\\cos x')).toBe(0.5);
+  });
+});
+
+describe('matchEquationIds', () => {
+  it('matches explicit labels even when the equation moved and changed', () => {
+    const previous = [prev('p1', 'E = mc^2', 'eq:energy'), prev('p2', 'a + b')];
+    const current = [eq('a + b'), eq('E = m c^2 + \\Delta', 'eq:energy')];
+    expect(matchEquationIds(current, previous)).toEqual(['p2', 'p1']);
+  });
+
+  it('does not match a label to an unlabelled equation with the same text', () => {
+    const previous = [prev('p1', 'x', 'eq:x')];
+    const current = [eq('x')];
+    expect(matchEquationIds(current, previous)).toEqual([undefined]);
+  });
+
+  it('does not match a new label to the numbered label of another equation', () => {
+    // \label{eq3} added to the first of three unlabelled equations, numbered eq1..eq3 before
+    const previous: PreviousCandidate[] = ['a', 'b', 'c']
+      .map((latex, i) => ({ id: `p${i + 1}`, label: `eq${i + 1}`, latex, hasExplicitLabel: false }));
+    const current: MatchCandidate[] = [
+      { label: 'eq3', latex: 'a \\label{eq3}', hasExplicitLabel: true },
+      { label: 'eq1', latex: 'b', hasExplicitLabel: false },
+      { label: 'eq2', latex: 'c', hasExplicitLabel: false },
+    ];
+    expect(matchEquationIds(current, previous)).toEqual([undefined, 'p2', 'p3']);
+  });
+
+  it('matches identical LaTeX after reordering', () => {
+    const previous = [prev('p1', 'a^2'), prev('p2', 'b^2'), prev('p3', 'c^2')];
+    const current = [eq('c^2'), eq('a^2'), eq('b^2')];
+    expect(matchEquationIds(current, previous)).toEqual(['p3', 'p1', 'p2']);
+  });
+
+  it('matches equal-sized gaps between anchors by position, however much the text changed', () => {
+    const previous = [prev('p1', 'a = 1'), prev('p2', '\\int_0^1 f(x)\\,dx'), prev('p3', 'b = 2')];
+    const current = [eq('a = 1'), eq('\\sum_n q^n'), eq('b = 2')];
+    expect(matchEquationIds(current, previous)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('matches a gap at the end of the document by position', () => {
+    const previous = [prev('p1', 'a = 1'), prev('p2', 'x')];
+    const current = [eq('a = 1'), eq('\\frac{y}{z}')];
+    expect(matchEquationIds(current, previous)).toEqual(['p1', 'p2']);
+  });
+
+  it('matches by similarity when the gaps differ, from a score of 0.6', () => {
+    // similarity 0.5 plus 0.1 for the same relative position
+    const previous = [prev('p1', '\\sin x')];
+    const current = [eq('\\cos x'), eq('q')];
+    expect(matchEquationIds(current, previous)).toEqual(['p1', undefined]);
+  });
+
+  it('leaves equations below the threshold unmatched', () => {
+    // similarity 0.38 plus 0.1 for the same relative position
+    const previous = [prev('p1', 'a + b')];
+    const current = [eq('a + b + c + d'), eq('q')];
+    expect(matchEquationIds(current, previous)).toEqual([undefined, undefined]);
+  });
+
+  it('adds a bonus for an already matched neighbour', () => {
+    // The same pair as above, now next to a matched equation
+    const previous = [prev('p1', 'A'), prev('p2', 'B'), prev('p3', 'a + b'), prev('p4', 'C')];
+    const current = [eq('A'), eq('B'), eq('a + b + c + d'), eq('q'), eq('C')];
+    expect(matchEquationIds(current, previous)).toEqual(['p1', 'p2', 'p3', undefined, 'p4']);
+  });
+
+  it('assigns the best-scoring pairs first', () => {
+    const previous = [prev('p1', 'x^2 + y^2 = r^2'), prev('p2', 'e^{i\\pi} + 1 = 0')];
+    const current = [eq('e^{i\\pi} = -1'), eq('x^2 + y^2 = R^2'), eq('q')];
+    expect(matchEquationIds(current, previous)).toEqual(['p2', 'p1', undefined]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Equation identity matching between consecutive parses
+ *
+ * Keeps equation IDs stable while the document is edited so rendered SVGs,
+ * the active equation and SVG re-import duplicate detection survive typing.
+ */
+
+export interface MatchCandidate {
+  label: string;
+  latex: string;
+  hasExplicitLabel: boolean;
+}
+
+export interface PreviousCandidate extends MatchCandidate {
+  id: string;
+}
+
+// Minimum score for a similarity-only match (similarity + neighbour bonus)
+const MATCH_THRESHOLD = 0.6;
+// Bonus per neighbour (before/after) that is already matched to the candidate's neighbour
+const NEIGHBOUR_BONUS = 0.2;
+// Weight of relative position in the document
+const POSITION_WEIGHT = 0.1;
+
+/**
+ * Levenshtein edit distance using two rolling rows
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let currentRow = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    currentRow[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost);
+    }
+    [previousRow, currentRow] = [currentRow, previousRow];
+  }
+
+  return previousRow[b.length];
+}
+
+/**
+ * Normalized similarity in [0, 1] based on edit distance
+ */
+export function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - editDistance(a, b) / maxLength;
+}
+
+/**
+ * Match current equations to previous ones and return the reused ID per current equation
+ *
+ * Matching runs in passes, each only considering equations left unmatched by earlier passes:
+ * 1. Explicit labels
+ * 2. Identical LaTeX
+ * 3. Gaps between matched equations with the same number of equations on both sides (by position)
+ * 4. Best remaining pairs by edit distance, boosted by matched neighbours and relative position
+ */
+export function matchEquationIds(
+  current: MatchCandidate[],
+  previous: PreviousCandidate[]
+): (string | undefined)[] {
+  // previousIndex for each current equation (-1 = unmatched)
+  const matches = new Array<number>(current.length).fill(-1);
+  const used = new Set<number>();
+
+  const assign = (currentIndex: number, previousIndex: number) => {
+    matches[currentIndex] = previousIndex;
+    used.add(previousIndex);
+  };
+
+  // Pass 1: explicit labels
+  current.forEach((eq, i) => {
+    if (!eq.hasExplicitLabel) return;
+    const j = previous.findIndex((prev, k) => !used.has(k) && prev.hasExplicitLabel && prev.label === eq.label);
+    if (j !== -1) assign(i, j);
+  });
+
+  // Pass 2: identical LaTeX for unlabelled equations
+  current.forEach((eq, i) => {
+    if (matches[i] !== -1 || eq.hasExplicitLabel) return;
+    const j = previous.findIndex((prev, k) => !used.has(k) && !prev.hasExplicitLabel && prev.latex === eq.latex);
+    if (j !== -1) assign(i, j);
+  });
+
+  // Pass 3: equal-sized gaps between in-order anchors are matched by position
+  let lastCurrent = -1;
+  let lastPrevious = -1;
+  for (let i = 0; i <= current.length; i++) {
+    const anchor = i === current.length ? previous.length : matches[i];
+    if (anchor === -1 || anchor <= lastPrevious) continue;
+
+    const currentGap = i - lastCurrent - 1;
+    const previousGap = anchor - lastPrevious - 1;
+    const gapIsFree = (k: number) =>
+      matches[lastCurrent + k] === -1 &&
+      !used.has(lastPrevious + k) &&
+      !current[lastCurrent + k].hasExplicitLabel &&
+      !previous[lastPrevious + k].hasExplicitLabel;
+
+    if (currentGap > 0 && currentGap === previousGap) {
+      const gap = Array.from({ length: currentGap }, (_, k) => k + 1);
+      if (gap.every(gapIsFree)) {
+        gap.forEach((k) => assign(lastCurrent + k, lastPrevious + k));
+      }
+    }
+
+    lastCurrent = i;
+    lastPrevious = anchor;
+  }
+
+  // Pass 4: similarity with neighbour and position bonus, best pairs first
+  const pairs: { i: number; j: number; score: number }[] = [];
+  current.forEach((eq, i) => {
+    if (matches[i] !== -1 || eq.hasExplicitLabel) return;
+    previous.forEach((prev, j) => {
+      if (used.has(j) || prev.hasExplicitLabel) return;
+
+      let score = similarity(eq.latex, prev.latex);
+      if (i > 0 && j > 0 && matches[i - 1] === j - 1) score += NEIGHBOUR_BONUS;
+      if (i + 1 < current.length && matches[i + 1] !== -1 && matches[i + 1] === j + 1) score += NEIGHBOUR_BONUS;
+      const relativeCurrent = current.length > 1 ? i / (current.length - 1) : 0;
+      const relativePrevious = previous.length > 1 ? j / (previous.length - 1) : 0;
+      score += POSITION_WEIGHT * (1 - Math.abs(relativeCurrent - relativePrevious));
+
+      if (score >= MATCH_THRESHOLD) pairs.push({ i, j, score });
+    });
+  });
+
+  pairs.sort((a, b) => b.score - a.score);
+  for (const { i, j } of pairs) {
+    if (matches[i] === -1 && !used.has(j)) assign(i, j);
+  }
+
+  return matches.map((j) => (j === -1 ? undefined : previous[j].id));
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import { buildSectionTree, findSectionScope, scopedFrontmatter, sectionScopes } from './outline';
+import { findHeadings } from './sections';
+
+const DOCUMENT = `define.hl: #ff0000
+
+---
+
+a
+
+--- # Lecture 3
+
+color: #0000ff
+define.hl: #00aa00
+
+---
+
+\\color{hl}{b}
+
+--- ## Examples
+
+c
+% color: $hl
+
+--- ## Examples
+
+d
+
+--- # Lecture 4
+
+\\color{hl}{e}
+`;
+
+describe('buildSectionTree', () => {
+  it('nests headings with more # and numbers sibling IDs with the same title', () => {
+    const lines = ['--- # Lecture 3', '--- ## Examples', '--- ### Hard!', '--- ## Examples', '--- # Lecture 4'];
+    const { sections, scopes } = buildSectionTree(findHeadings(lines));
+    expect(scopes.map((scope) => scope.node.id)).toEqual([
+      'lecture-3',
+      'lecture-3/examples',
+      'lecture-3/examples/hard',
+      'lecture-3/examples-2',
+      'lecture-4',
+    ]);
+    expect(sections.map((node) => node.children.length)).toEqual([2, 0]);
+    expect(scopes[2].parent?.node).toBe(scopes[1].node);
+    expect(sectionScopes(sections).map((scope) => scope.node)).toEqual(scopes.map((scope) => scope.node));
+  });
+
+  it('finds the innermost section of a line', () => {
+    const { scopes } = buildSectionTree(findHeadings(['x', '--- # A', 'y', '--- ## B', 'z']));
+    expect(findSectionScope(scopes, 0)).toBeUndefined();
+    expect(findSectionScope(scopes, 2)?.node.id).toBe('a');
+    expect(findSectionScope(scopes, 4)?.node.id).toBe('a/b');
+  });
+});
+
+describe('scopedFrontmatter', () => {
+  it('lets inner sections override presets and the default color', () => {
+    const { scopes } = buildSectionTree(findHeadings(['--- # A', '--- ## B']));
+    scopes[0].node.color = '#0000ff';
+    scopes[0].node.colorPresets = { hl: '#00aa00', a: '#111111' };
+    scopes[1].node.colorPresets = { hl: '#222222' };
+    expect(scopedFrontmatter({ colorPresets: { hl: '#ff0000' } }, scopes[1])).toEqual({
+      frontmatter: { colorPresets: { hl: '#222222', a: '#111111' } },
+      sectionColor: '#0000ff',
+    });
+    expect(scopedFrontmatter({ color: '#333333' }, undefined)).toEqual({ frontmatter: { color: '#333333' } });
+  });
+});
+
+describe('sections', () => {
+  it('builds the section tree of a document and puts equations into their innermost section', () => {
+    const { equations, sections, diagnostics } = parseDocumentWithFrontmatter(DOCUMENT);
+    expect(diagnostics).toEqual([]);
+    expect(equations.map((eq) => eq.section)).toEqual([
+      undefined,
+      'lecture-3',
+      'lecture-3/examples',
+      'lecture-3/examples-2',
+      'lecture-4',
+    ]);
+    expect(sections).toMatchObject([
+      {
+        id: 'lecture-3',
+        title: 'Lecture 3',
+        level: 1,
+        line: 6,
+        color: '#0000ff',
+        colorPresets: { hl: '#00aa00' },
+        equationIds: [equations[1].id],
+        children: [
+          { id: 'lecture-3/examples', level: 2, equationIds: [equations[2].id], children: [] },
+          { id: 'lecture-3/examples-2', level: 2, equationIds: [equations[3].id], children: [] },
+        ],
+      },
+      { id: 'lecture-4', title: 'Lecture 4', equationIds: [equations[4].id], children: [] },
+    ]);
+  });
+
+  it('scopes section presets and colors to the section and its subsections', () => {
+    const { equations } = parseDocumentWithFrontmatter(DOCUMENT);
+    expect(equations.map((eq) => eq.color)).toEqual([undefined, '#0000ff', '#00aa00', '#0000ff', undefined]);
+    expect(equations[1].latex).toBe('\\color[RGB]{0,170,0}{b}');
+    expect(equations[4].latex).toBe('\\color[RGB]{255,0,0}{e}');
+  });
+
+  it('reports document-only keys in section frontmatter', () => {
+    const { sections, diagnostics } = parseDocumentWithFrontmatter('--- # A\n\ncolor: red\nfontSize: 12pt\n\n---\n\nx');
+    expect(sections[0].color).toBe('#ff0000');
+    expect(diagnostics).toMatchObject([{
+      code: 'unknown-frontmatter-key',
+      message: '"fontSize" is only allowed in the document frontmatter, not in a section',
+      startLine: 3,
+    }]);
+  });
+});
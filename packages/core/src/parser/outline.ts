@@ -0,0 +1,124 @@
+import { DocumentFrontmatter, ParsedEquation, SectionNode } from './types';
+import { SectionHeading } from './sections';
+
+/**
+ * A section together with its enclosing section, for resolving section-scoped presets
+ */
+export interface SectionScope {
+  node: SectionNode;
+  parent?: SectionScope;
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+}
+
+/**
+ * Nest headings into a section tree: a heading contains the following headings with more #
+ * Returns the top-level sections and the scope of every section in document order
+ */
+export function buildSectionTree(headings: SectionHeading[]): { sections: SectionNode[]; scopes: SectionScope[] } {
+  const sections: SectionNode[] = [];
+  const scopes: SectionScope[] = [];
+  const stack: SectionScope[] = [];
+
+  for (const heading of headings) {
+    while (stack.length > 0 && stack[stack.length - 1].node.level >= heading.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    const siblings = parent ? parent.node.children : sections;
+
+    // Sibling sections with the same title get numbered IDs: examples, examples-2
+    const prefix = parent ? `${parent.node.id}/` : '';
+    const slug = slugify(heading.title);
+    let id = prefix + slug;
+    for (let n = 2; siblings.some((sibling) => sibling.id === id); n++) {
+      id = `${prefix}${slug}-${n}`;
+    }
+
+    const scope: SectionScope = {
+      node: { id, title: heading.title, level: heading.level, line: heading.line, equationIds: [], children: [] },
+      parent,
+    };
+    siblings.push(scope.node);
+    scopes.push(scope);
+    stack.push(scope);
+  }
+
+  return { sections, scopes };
+}
+
+/**
+ * Copy a section tree, moving sections after `afterLine` down by `lineDelta` lines
+ */
+export function shiftSections(sections: SectionNode[], afterLine: number, lineDelta: number): SectionNode[] {
+  return sections.map((node) => ({
+    ...node,
+    line: node.line > afterLine ? node.line + lineDelta : node.line,
+    equationIds: [...node.equationIds],
+    children: shiftSections(node.children, afterLine, lineDelta),
+  }));
+}
+
+/**
+ * Scopes of an existing section tree in document order
+ */
+export function sectionScopes(sections: SectionNode[], parent?: SectionScope): SectionScope[] {
+  return sections.flatMap((node) => {
+    const scope: SectionScope = { node, parent };
+    return [scope, ...sectionScopes(node.children, scope)];
+  });
+}
+
+/**
+ * Innermost section containing a line
+ */
+export function findSectionScope(scopes: SectionScope[], line: number): SectionScope | undefined {
+  let found: SectionScope | undefined;
+  for (const scope of scopes) {
+    if (scope.node.line >= line) break;
+    found = scope;
+  }
+  return found;
+}
+
+/**
+ * Frontmatter as seen from inside a section: section presets override document presets,
+ * and the innermost section color is the default color of its equations
+ */
+export function scopedFrontmatter(
+  frontmatter: DocumentFrontmatter,
+  scope: SectionScope | undefined
+): { frontmatter: DocumentFrontmatter; sectionColor?: string } {
+  const chain: SectionNode[] = [];
+  for (let current = scope; current; current = current.parent) {
+    chain.unshift(current.node);
+  }
+  if (!chain.some((node) => node.colorPresets || node.color)) return { frontmatter };
+
+  const colorPresets = Object.assign({}, frontmatter.colorPresets, ...chain.map((node) => node.colorPresets));
+  const sectionColor = chain.map((node) => node.color).filter(Boolean).pop();
+  return { frontmatter: { ...frontmatter, colorPresets }, sectionColor };
+}
+
+/**
+ * Put every equation into its innermost section (both lists in document order)
+ */
+export function assignSections(equations: ParsedEquation[], scopes: SectionScope[]): void {
+  for (const scope of scopes) {
+    scope.node.equationIds = [];
+  }
+
+  let index = -1;
+  for (const eq of equations) {
+    while (index + 1 < scopes.length && scopes[index + 1].node.line < eq.startLine) index++;
+    const scope = scopes[index];
+    if (scope) {
+      eq.section = scope.node.id;
+      scope.node.equationIds.push(eq.id);
+    } else {
+      delete eq.section;
+    }
+  }
+}
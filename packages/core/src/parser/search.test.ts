@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import { filterEquations, matchesEquationQuery } from './search';
+
+const { equations } = parseDocumentWithFrontmatter(`E = mc^2 \\label{eq:energy}
+% tags: physics, slide-12
+
+---
+
+\\mathbf{v} \\cdot \\mathbf{w}
+% tags: Linear-Algebra
+
+---
+
+\\alpha + \\beta
+`);
+
+const labels = (query: string) => filterEquations(equations, query).map((eq) => eq.label);
+
+describe('filterEquations', () => {
+  it('returns every equation for an empty query', () => {
+    expect(labels('  ')).toEqual(['eq:energy', 'eq1', 'eq2']);
+  });
+
+  it('matches parts of the label, a tag or the LaTeX, ignoring case', () => {
+    expect(labels('ENERGY')).toEqual(['eq:energy']);
+    expect(labels('algebra')).toEqual(['eq1']);
+    expect(labels('\\beta')).toEqual(['eq2']);
+    expect(labels('mc^2')).toEqual(['eq:energy']);
+  });
+
+  it('matches tag: prefixes and label: parts only', () => {
+    expect(labels('tag:slide')).toEqual(['eq:energy']);
+    expect(labels('tag:12')).toEqual([]);
+    expect(labels('label:eq1')).toEqual(['eq1']);
+    expect(labels('label:physics')).toEqual([]);
+  });
+
+  it('fuzzy-matches macro names from their first letter', () => {
+    expect(labels('\\mbf')).toEqual(['eq1']);
+    expect(labels('\\alp')).toEqual(['eq2']);
+    expect(labels('\\bf')).toEqual([]);
+  });
+
+  it('requires every term to match', () => {
+    expect(labels('tag:physics mc')).toEqual(['eq:energy']);
+    expect(labels('tag:physics \\alpha')).toEqual([]);
+  });
+});
+
+describe('matchesEquationQuery', () => {
+  it('matches the equation against the whole query', () => {
+    expect(matchesEquationQuery(equations[1], 'tag:linear \\cdot')).toBe(true);
+    expect(matchesEquationQuery(equations[1], 'tag:physics')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { ParsedEquation } from './types';
+
+/**
+ * Check if all characters of `query` appear in `text` in order, starting with the first
+ * "mbf" matches "mathbf", "alp" matches "alpha"
+ */
+function fuzzyMatch(query: string, text: string): boolean {
+  if (!query) return true;
+  if (query[0] !== text[0]) return false;
+  let position = 0;
+  for (const char of query) {
+    position = text.indexOf(char, position);
+    if (position === -1) return false;
+    position++;
+  }
+  return true;
+}
+
+/**
+ * Check if an equation matches one (lowercase) search term
+ */
+function matchesTerm(equation: ParsedEquation, term: string): boolean {
+  const tags = equation.directives.tags?.map((tag) => tag.toLowerCase()) ?? [];
+
+  if (term.startsWith('tag:')) {
+    const tag = term.substring(4);
+    return tags.some((t) => t.startsWith(tag));
+  }
+  if (term.startsWith('label:')) {
+    return equation.label.toLowerCase().includes(term.substring(6));
+  }
+
+  const latex = equation.latex.toLowerCase();
+  if (equation.label.toLowerCase().includes(term) || tags.some((t) => t.includes(term)) || latex.includes(term)) {
+    return true;
+  }
+
+  // \mbf finds equations using \mathbf
+  if (term.startsWith('\\') && term.length > 1) {
+    const macro = term.substring(1);
+    for (const match of latex.matchAll(/\\([a-z]+)/g)) {
+      if (fuzzyMatch(macro, match[1])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if an equation matches a search query
+ * Every whitespace-separated term must match (case-insensitive):
+ *   tag:physics   a tag starting with "physics"
+ *   label:energy  a label containing "energy"
+ *   \mbf          a macro whose name fuzzy-matches "mbf" (\mathbf)
+ *   anything else part of the label, a tag or the LaTeX source
+ */
+export function matchesEquationQuery(equation: ParsedEquation, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every((term) => matchesTerm(equation, term));
+}
+
+/**
+ * Equations matching a search query (all equations for an empty query)
+ */
+export function filterEquations(equations: ParsedEquation[], query: string): ParsedEquation[] {
+  if (!query.trim()) return equations;
+  return equations.filter((eq) => matchesEquationQuery(eq, query));
+}
@@ -0,0 +1,114 @@
+/**
+ * A non-empty block of the document between --- separators
+ */
+export interface DocumentSection {
+  content: string;      // Trimmed section text
+  startLine: number;    // First line after the separator
+  endLine: number;      // Last line before the next separator
+}
+
+/**
+ * A --- # Title separator that starts a document section
+ */
+export interface SectionHeading {
+  title: string;
+  level: number;        // Number of #
+  line: number;         // Line of the separator
+}
+
+// highlight.\beta: color, highlight./x_\{?i\}?/: color
+export const HIGHLIGHT_KEY_PATTERN = /^highlight\.(\/.+\/|[^\s:]+):\s*(\S.*)$/;
+
+const HEADING_SEPARATOR_PATTERN = /^---+\s*(#{1,6})\s+(\S.*)$/;
+
+/**
+ * Check if a line is a --- section separator (with or without a heading)
+ */
+export function isSeparator(line: string): boolean {
+  const trimmed = line.trim();
+  return /^---+$/.test(trimmed) || HEADING_SEPARATOR_PATTERN.test(trimmed);
+}
+
+/**
+ * Parse a --- # Title heading separator
+ */
+export function parseHeading(line: string, lineIndex: number): SectionHeading | null {
+  const match = line.trim().match(HEADING_SEPARATOR_PATTERN);
+  if (!match) return null;
+  return { title: match[2].trim(), level: match[1].length, line: lineIndex };
+}
+
+/**
+ * Find heading separators between two lines (inclusive)
+ */
+export function findHeadings(lines: string[], start = 0, end = lines.length - 1): SectionHeading[] {
+  const headings: SectionHeading[] = [];
+  for (let i = Math.max(0, start); i <= Math.min(end, lines.length - 1); i++) {
+    const heading = parseHeading(lines[i], i);
+    if (heading) headings.push(heading);
+  }
+  return headings;
+}
+
+/**
+ * Split document lines into non-empty sections separated by ---
+ */
+export function splitSections(lines: string[]): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let currentSection: string[] = [];
+  let startLine = 0;
+
+  const pushSection = (endLine: number) => {
+    const content = currentSection.join('\n').trim();
+    if (content) {
+      sections.push({ content, startLine, endLine });
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (isSeparator(lines[i])) {
+      pushSection(i - 1);
+      currentSection = [];
+      startLine = i + 1;
+    } else {
+      currentSection.push(lines[i]);
+    }
+  }
+  pushSection(lines.length - 1);
+
+  return sections;
+}
+
+/**
+ * Check if content looks like frontmatter (has uncommented key: value lines, no LaTeX)
+ */
+export function isFrontmatter(content: string): boolean {
+  const lines = content.split('\n');
+  let hasKeyValue = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Skip empty lines and comments
+    if (!trimmed || trimmed.startsWith('%')) continue;
+
+    // Macro and environment definitions, descriptions and highlight rules are the only lines allowed to contain LaTeX
+    if (
+      /^(?:macro\.[A-Za-z]+|env\.[A-Za-z][A-Za-z0-9*]*)(?:\[\d\])?:\s*\S/.test(trimmed) ||
+      /^describe\.\w+:\s*\S/.test(trimmed) ||
+      HIGHLIGHT_KEY_PATTERN.test(trimmed)
+    ) {
+      hasKeyValue = true;
+      continue;
+    }
+
+    // Check for LaTeX commands
+    if (trimmed.includes('\\')) return false;
+
+    // Check for key: value pattern (including define.name format)
+    if (/^[\w.]+:\s*\S/.test(trimmed)) {
+      hasKeyValue = true;
+    }
+  }
+
+  return hasKeyValue;
+}
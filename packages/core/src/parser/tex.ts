@@ -0,0 +1,26 @@
+/**
+ * Read a balanced {...} group starting at `start`
+ * Returns the group content and the index after the closing brace
+ */
+export function readBraceGroup(text: string, start: number): { content: string; end: number } | null {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  if (text[i] !== '{') return null;
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    const char = text[j];
+    if (char === '\\') {
+      j++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return { content: text.substring(i + 1, j), end: j + 1 };
+      }
+    }
+  }
+  return null;
+}
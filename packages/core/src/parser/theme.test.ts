@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import { darkThemeCollisions, darkThemeColors } from './theme';
+
+const frontmatterOf = (document: string) => parseDocumentWithFrontmatter(`${document}\n\n---\n\nx`).frontmatter;
+
+describe('theme frontmatter', () => {
+  it('applies the light theme and keeps the dark theme for rendering', () => {
+    const { frontmatter, diagnostics } = parseDocumentWithFrontmatter([
+      'color: #333333',
+      'define.accent: #ff0000',
+      'theme.light.accent: #cc0000',
+      'theme.light.color: #111111',
+      'theme.dark.color: white',
+      'theme.dark.accent: $soft',
+      'define.soft: #ff8888',
+      'theme.output: files',
+      '',
+      '---',
+      '',
+      'x',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(frontmatter.color).toBe('#111111');
+    expect(frontmatter.colorPresets).toEqual({ accent: '#cc0000', soft: '#ff8888' });
+    expect(frontmatter.theme).toEqual({
+      light: { color: '#111111', colorPresets: { accent: '#cc0000' } },
+      dark: { color: '#ffffff', colorPresets: { accent: '$soft' } },
+      output: 'files',
+    });
+  });
+
+  it('reports theme colors of undefined presets and unknown theme keys', () => {
+    const { diagnostics } = parseDocumentWithFrontmatter(
+      'theme.dark.accent: white\ntheme.output: both\ntheme.contrast: high\n\n---\n\nx'
+    );
+    expect(diagnostics.map(({ code, message }) => ({ code, message }))).toEqual([
+      { code: 'undefined-preset', message: 'Theme color for undefined preset "accent". Add define.accent to the frontmatter' },
+      { code: 'invalid-theme', message: 'Invalid theme.output "both" (expected css or files)' },
+      { code: 'invalid-theme', message: 'Unknown theme key "theme.contrast" (expected theme.light.name, theme.dark.name or theme.output)' },
+    ]);
+  });
+});
+
+describe('darkThemeColors', () => {
+  it('maps the default color and overridden presets from their light to their dark color', () => {
+    expect(darkThemeColors(frontmatterOf([
+      'define.accent: #ff0000',
+      'define.plain: #00ff00',
+      'theme.dark.color: white',
+      'theme.dark.accent: #ff8888',
+    ].join('\n')))).toEqual({ '#000000': '#ffffff', '#ff0000': '#ff8888' });
+  });
+
+  it('moves presets derived from an overridden preset along with it', () => {
+    expect(darkThemeColors(frontmatterOf([
+      'define.accent: #ff0000',
+      'define.soft: accent!50',
+      'theme.dark.accent: #0000ff',
+    ].join('\n')))).toEqual({ '#ff0000': '#0000ff', '#ff8080': '#8080ff' });
+  });
+
+  it('is empty without a dark theme', () => {
+    expect(darkThemeColors(frontmatterOf('define.accent: #ff0000\ntheme.light.accent: #cc0000'))).toEqual({});
+  });
+});
+
+describe('darkThemeCollisions', () => {
+  it('finds presets sharing a light color with different dark colors', () => {
+    const frontmatter = frontmatterOf([
+      'define.a: #ff0000',
+      'define.b: red',
+      'define.c: #0000ff',
+      'theme.dark.a: #ff8888',
+      'theme.dark.b: #880000',
+    ].join('\n'));
+    expect(darkThemeCollisions(frontmatter)).toEqual([{ light: '#ff0000', names: ['a', 'b'] }]);
+    expect(darkThemeColors(frontmatter)).toEqual({ '#ff0000': '#ff8888' });
+  });
+
+  it('finds presets with the default color when the dark theme changes only one of them', () => {
+    const recolored = frontmatterOf('define.ink: black\ntheme.dark.color: white');
+    expect(darkThemeCollisions(recolored)).toEqual([{ light: '#000000', names: ['color', 'ink'] }]);
+    expect(darkThemeCollisions(frontmatterOf('define.ink: black\ntheme.dark.color: white\ntheme.dark.ink: white')))
+      .toEqual([]);
+  });
+
+  it('reports collisions at the dark theme key', () => {
+    const { diagnostics } = parseDocumentWithFrontmatter(
+      'define.a: #ff0000\ndefine.b: red\ntheme.dark.b: #880000\n\n---\n\nx'
+    );
+    expect(diagnostics.map(({ code, message, startLine, column, endColumn }) =>
+      ({ code, message, startLine, column, endColumn }))).toEqual([{
+      code: 'invalid-theme',
+      message: '$a and $b are both #ff0000 in the light theme but differ in the dark theme (give them different light colors)',
+      startLine: 2,
+      column: 0,
+      endColumn: 12,
+    }]);
+  });
+});
@@ -0,0 +1,56 @@
+import { DocumentFrontmatter } from './types';
+import { toHexColor } from './colors';
+
+/**
+ * A color that is the same as another in the light theme but not in the dark theme
+ */
+export interface ThemeColorCollision {
+  light: string;        // Hex color shared in the light theme
+  names: string[];      // Preset names, "color" for the default color
+}
+
+/**
+ * Light and dark hex color of the default color and every preset
+ */
+function themeColorPairs(frontmatter: DocumentFrontmatter): { name: string; light: string; dark: string }[] {
+  const dark = frontmatter.theme?.dark;
+  if (!dark) return [];
+
+  const presets = frontmatter.colorPresets ?? {};
+  const darkPresets = { ...presets, ...dark.colorPresets };
+  const defaultColor = toHexColor(frontmatter.color ?? '#000000', presets);
+  const pairs = [
+    { name: 'color', light: defaultColor, dark: dark.color ? toHexColor(dark.color, darkPresets) : defaultColor },
+    ...Object.keys(presets).map((name) =>
+      ({ name, light: toHexColor(name, presets), dark: toHexColor(name, darkPresets) })),
+  ];
+  return pairs.filter(({ light, dark }) => light.startsWith('#') && dark.startsWith('#'));
+}
+
+/**
+ * Map each color as rendered in the light theme to its dark theme color (both hex)
+ * Covers the default color and every preset, so presets derived from an overridden one
+ * (define.soft: accent!30) follow it into the dark theme
+ * Colors are told apart by their light color only; see darkThemeCollisions
+ */
+export function darkThemeColors(frontmatter: DocumentFrontmatter): Record<string, string> {
+  const colors: Record<string, string> = {};
+  for (const { light, dark } of themeColorPairs(frontmatter)) {
+    if (light !== dark && !(light in colors)) colors[light] = dark;
+  }
+  return colors;
+}
+
+/**
+ * Default color and presets sharing a light color but with different dark colors, which
+ * darkThemeColors can't map apart (the first one's dark color is used for all of them)
+ */
+export function darkThemeCollisions(frontmatter: DocumentFrontmatter): ThemeColorCollision[] {
+  const byLight = new Map<string, { name: string; dark: string }[]>();
+  for (const { name, light, dark } of themeColorPairs(frontmatter)) {
+    byLight.set(light, [...(byLight.get(light) ?? []), { name, dark }]);
+  }
+  return [...byLight.entries()]
+    .filter(([, colors]) => new Set(colors.map((color) => color.dark)).size > 1)
+    .map(([light, colors]) => ({ light, names: colors.map((color) => color.name) }));
+}
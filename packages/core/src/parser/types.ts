@@ -1,18 +1,180 @@
+/**
+ * Font size with its unit, as written: 28pt, 16px
+ */
+export interface FontSize {
+  value: number;
+  unit: 'pt' | 'px';
+}
+
+/**
+ * Border around an equation's frame: 1px #cccccc
+ */
+export interface BorderStyle {
+  width: number;        // px, 0 for none
+  color: string;        // Resolved hex color
+}
+
+/**
+ * Drop shadow of an equation's frame: 0 2 4 #00000040 (offset x, offset y, blur, color)
+ */
+export interface ShadowStyle {
+  offsetX: number;      // px
+  offsetY: number;
+  blur: number;         // Blur radius in px, as in CSS box-shadow
+  color: string;        // Resolved hex color
+}
+
+/**
+ * Box drawn behind an equation; the frontmatter sets defaults that % directives override
+ */
+export interface FrameStyle {
+  background?: string;            // background: #fff (resolved like color, transparent for none)
+  padding?: number;               // padding: 4 (px around the equation)
+  radius?: number;                // radius: 6 (px, rounded corners)
+  border?: BorderStyle;           // border: 1px #cccccc, or none
+  shadow?: ShadowStyle;           // shadow: 0 2 4 #00000040, or none
+}
+
+export interface EquationDirectives extends FrameStyle {
+  display?: 'inline' | 'block';   // % display: inline
+  scale?: number;                 // % scale: 1.5
+  fontSize?: FontSize;            // % fontSize: 32pt (overrides the frontmatter fontSize)
+  filename?: string;              // % filename: energy-eq (export name without .svg)
+  variants?: string[];            // % variants: a, b, c (see \hl{a}{...} markers)
+  tags?: string[];                // % tags: physics, slide-12
+}
+
+export interface EquationVariant {
+  name: string;         // Variant name from % variants:
+  latex: string;        // LaTeX with this variant's \hl{} markers highlighted
+}
+
 export interface ParsedEquation {
   id: string;           // UUID for React keys
   label: string;        // "eq:foo" or "eq1" (auto)
   latex: string;        // LaTeX code for this section
+  source: string;       // Section text as written (presets, \hl markers, % directives)
   startLine: number;    // Line number in document
   endLine: number;      // Line number in document
   color?: string;       // Per-equation color override
+  directives: EquationDirectives;
+  variants?: EquationVariant[];   // Highlight variants rendered from the same source
+  section?: string;     // ID of the innermost enclosing section (see SectionNode)
+  baseLatex?: string;   // LaTeX without the colors of highlight.* rules, set when a rule matched
+}
+
+export interface RGBColor {
+  r: number;            // 0-255
+  g: number;
+  b: number;
+  a?: number;           // Alpha 0-1, omitted when opaque
+}
+
+export interface MacroDefinition {
+  body: string;         // Replacement text, may reference #1..#9
+  args?: number;        // Number of arguments
+}
+
+export interface EnvironmentDefinition {
+  begin: string;        // Code inserted at \begin{name}
+  end: string;          // Code inserted at \end{name}
+  args?: number;        // Number of arguments
+}
+
+export interface ThemeColors {
+  color?: string;                          // theme.dark.color: white
+  colorPresets?: Record<string, string>;   // theme.dark.highlight: #ff88aa
+}
+
+export interface DocumentTheme {
+  light?: ThemeColors;  // Already applied to the frontmatter color and colorPresets
+  dark?: ThemeColors;
+  output?: 'css' | 'files';   // theme.output: one SVG with a prefers-color-scheme style, or -dark.svg files
+}
+
+/**
+ * A highlight.<token>: color rule coloring a symbol in every equation
+ */
+export interface HighlightRule {
+  token: string;        // Literal tokens (\beta, x_i) or a /regular expression/
+  color: string;        // Color value as written, may be a $preset
 }
 
 export interface DocumentFrontmatter {
   color?: string;
+  fontSize?: FontSize;                                   // fontSize: 28pt
+  frame?: FrameStyle;                                    // background, padding, radius, border, shadow
   colorPresets?: Record<string, string>;
+  macros?: Record<string, MacroDefinition>;              // macro.name[n]: body
+  environments?: Record<string, EnvironmentDefinition>;  // env.name[n]: {begin}{end}
+  theme?: DocumentTheme;                                 // theme.light.*, theme.dark.*, theme.output
+  highlights?: HighlightRule[];                          // highlight.\beta: $accent (in document order)
+  descriptions?: Record<string, string>;                 // describe.accent: learning rate (legend text)
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'duplicate-label'
+  | 'duplicate-filename'
+  | 'undefined-color'
+  | 'undefined-preset'
+  | 'invalid-color'
+  | 'invalid-definition'
+  | 'invalid-theme'
+  | 'invalid-font-size'
+  | 'invalid-frame'
+  | 'invalid-highlight'
+  | 'highlight-conflict'
+  | 'invalid-directive'
+  | 'undefined-variant'
+  | 'unused-variant'
+  | 'unknown-frontmatter-key';
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  code: DiagnosticCode;
+  startLine: number;    // Line number in document (0-based, like ParsedEquation)
+  endLine: number;
+  column: number;       // Start column (0-based)
+  endColumn: number;    // End column (0-based, exclusive)
+}
+
+/**
+ * A heading separator (--- # Lecture 3) and the equations up to the next heading
+ * of the same or a higher level (fewer #)
+ */
+export interface SectionNode {
+  id: string;           // Slug path of the section titles: "lecture-3/examples"
+  title: string;        // "Lecture 3"
+  level: number;        // Number of # in the heading
+  line: number;         // Line number of the heading separator
+  color?: string;       // Default color for the section's equations
+  colorPresets?: Record<string, string>;  // Presets only visible inside the section
+  equationIds: string[];  // Equations directly in this section (not in subsections)
+  children: SectionNode[];
 }
 
 export interface ParsedDocument {
   frontmatter: DocumentFrontmatter;
   equations: ParsedEquation[];
+  diagnostics: ParseDiagnostic[];
+  sections: SectionNode[];   // Top-level sections; equations before the first heading are in none
+}
+
+export interface SerializableEquation {
+  latex: string;        // Section text, may already contain \label{} and comments
+  source?: string;      // Section text as written, used instead of latex and color when set
+  color?: string;       // Written as a trailing % color: directive
+  section?: string;     // ID of the enclosing section in SerializableDocument.sections
+}
+
+/**
+ * Input of serializeDocument; a ParsedDocument is one
+ */
+export interface SerializableDocument {
+  frontmatter?: DocumentFrontmatter;
+  equations: SerializableEquation[];
+  sections?: SectionNode[];
 }
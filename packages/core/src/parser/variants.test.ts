@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseDocumentWithFrontmatter } from './document';
+import { expandHighlights, highlightColor, parseVariantNames } from './variants';
+
+describe('parseVariantNames', () => {
+  it('splits and trims comma-separated names', () => {
+    expect(parseVariantNames(' a, b ,c,, ')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('highlightColor', () => {
+  it('prefers a preset named after the variant, then the highlight preset, then red', () => {
+    expect(highlightColor('a', { a: '#00ff00', highlight: '#0000ff' })).toBe('a');
+    expect(highlightColor('b', { a: '#00ff00', highlight: '#0000ff' })).toBe('highlight');
+    expect(highlightColor('b', undefined)).toBe('red');
+  });
+});
+
+describe('expandHighlights', () => {
+  const latex = '\\hl{a}{x} + \\hl{b, c}{\\frac{1}{\\hl{a}{y}}}';
+
+  it('colors the markers listing the variant', () => {
+    expect(expandHighlights(latex, 'a', 'red')).toBe('{\\color{red}x} + {\\frac{1}{{\\color{red}y}}}');
+    expect(expandHighlights(latex, 'c', 'blue')).toBe('{x} + {\\color{blue}\\frac{1}{{y}}}');
+  });
+
+  it('strips every marker for the base equation', () => {
+    expect(expandHighlights(latex, null, '')).toBe('{x} + {\\frac{1}{{y}}}');
+  });
+
+  it('leaves comments, other commands and incomplete markers alone', () => {
+    expect(expandHighlights('\\hline \\\\ \\hl{a} % \\hl{a}{x}', 'a', 'red')).toBe('\\hline \\\\ \\hl{a} % \\hl{a}{x}');
+  });
+});
+
+describe('variants', () => {
+  it('renders one variant per name of % variants:, in the preset colors', () => {
+    const { equations, diagnostics } = parseDocumentWithFrontmatter(
+      'define.a: #00aa00\n\n---\n\n\\hl{a}{x} + \\hl{b}{y}\n% variants: a, b, a'
+    );
+    expect(diagnostics).toEqual([]);
+    expect(equations).toHaveLength(1);
+    expect(equations[0].latex).toBe('{x} + {y}\n% variants: a, b, a');
+    expect(equations[0].directives.variants).toEqual(['a', 'b']);
+    expect(equations[0].variants).toEqual([
+      { name: 'a', latex: '{\\color[RGB]{0,170,0}x} + {y}\n% variants: a, b, a' },
+      { name: 'b', latex: '{x} + {\\color{red}y}\n% variants: a, b, a' },
+    ]);
+  });
+
+  it('reports markers of undeclared variants and variants without markers', () => {
+    const { equations, diagnostics } = parseDocumentWithFrontmatter('\\hl{a}{x} + \\hl{c}{y}\n% variants: a, b');
+    expect(equations[0].variants?.map((variant) => variant.name)).toEqual(['a', 'b']);
+    expect(diagnostics.map(({ severity, code, message, startLine, column, endColumn }) =>
+      ({ severity, code, message, startLine, column, endColumn }))).toEqual([
+      { severity: 'warning', code: 'undefined-variant', message: 'Undefined variant "c". Add it to a % variants: directive', startLine: 0, column: 16, endColumn: 17 },
+      { severity: 'info', code: 'unused-variant', message: 'Variant "b" has no \\hl{b}{...} markers', startLine: 1, column: 15, endColumn: 16 },
+    ]);
+  });
+
+  it('rejects invalid variant names', () => {
+    const { equations, diagnostics } = parseDocumentWithFrontmatter('\\hl{a}{x}\n% variants: a, b c');
+    expect(equations[0].variants).toBeUndefined();
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['undefined-variant', 'invalid-directive']);
+  });
+});
@@ -0,0 +1,68 @@
+import { readBraceGroup } from './tex';
+
+/**
+ * Split a comma-separated variant list: "a, b" -> ['a', 'b']
+ */
+export function parseVariantNames(value: string): string[] {
+  return value.split(',').map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Color used for a variant's highlights: a preset named after the variant,
+ * then the "highlight" preset, then red
+ */
+export function highlightColor(variant: string, presets: Record<string, string> | undefined): string {
+  if (presets?.[variant]) return variant;
+  if (presets?.highlight) return 'highlight';
+  return 'red';
+}
+
+/**
+ * Expand \hl{names}{content} highlight markers
+ * Markers listing `variant` become {\color{color}content}, all others plain {content}
+ * Pass variant null to strip every marker (the unhighlighted base equation)
+ */
+export function expandHighlights(latex: string, variant: string | null, color: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < latex.length) {
+    // Copy comments unchanged
+    if (latex[i] === '%') {
+      const lineEnd = latex.indexOf('\n', i);
+      const end = lineEnd === -1 ? latex.length : lineEnd;
+      result += latex.substring(i, end);
+      i = end;
+      continue;
+    }
+
+    if (latex[i] !== '\\') {
+      result += latex[i++];
+      continue;
+    }
+
+    const word = latex.substring(i + 1).match(/^[A-Za-z]+/)?.[0];
+    if (word !== 'hl') {
+      // Copy other control words and control symbols (e.g. \\) unchanged
+      const length = word ? word.length + 1 : 2;
+      result += latex.substring(i, i + length);
+      i += length;
+      continue;
+    }
+
+    const names = readBraceGroup(latex, i + 3);
+    const content = names ? readBraceGroup(latex, names.end) : null;
+    if (!names || !content) {
+      result += '\\hl';
+      i += 3;
+      continue;
+    }
+
+    const inner = expandHighlights(content.content, variant, color);
+    const highlighted = variant !== null && parseVariantNames(names.content).includes(variant);
+    result += highlighted ? `{\\color{${color}}${inner}}` : `{${inner}}`;
+    i = content.end;
+  }
+
+  return result;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateSVG } from './generator';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+describe('generateSVG', () => {
+  it('carries the alpha of translucent colors into fill-opacity', () => {
+    const { svg, errors } = generateSVG({
+      equations: [{ latex: 'x + {\\color{#0000ff80}y}', displayMode: 'block', color: '#ff000040' }],
+      options: { embedMetadata: false },
+    });
+    expect(errors).toEqual([]);
+    expect(svg).toContain('fill="#ff0000" fill-opacity="0.251"');
+    expect(svg).toContain('fill="#0000ff" fill-opacity="0.502"');
+    expect(svg).not.toMatch(/="#[0-9a-f]{8}"/i);
+  });
+});
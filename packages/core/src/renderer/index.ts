@@ -1,3 +1,5 @@
 export * from './mathjax';
 export * from './metadata';
 export * from './generator';
+export * from './preamble';
+export * from './units';
@@ -4,6 +4,7 @@ import { SVG } from 'mathjax-full/js/output/svg';
 import { browserAdaptor } from 'mathjax-full/js/adaptors/browserAdaptor';
 import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html';
 import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages';
+import type { MacroDefinition, EnvironmentDefinition } from '../parser/types';
 
 // Use standard color package (colorv2 has bundling issues)
 const packages = AllPackages;
@@ -11,22 +12,31 @@ const packages = AllPackages;
 export interface RendererOptions {
   displayMode?: boolean;
   throwOnError?: boolean;
+  preamble?: string;
+  macros?: Record<string, MacroDefinition>;
+  environments?: Record<string, EnvironmentDefinition>;
 }
 
 export interface RenderResult {
   html: string;
 }
 
+/**
+ * Extract the first TeX error message from MathJax output (rendered as merror)
+ */
+function extractTexError(html: string): string | null {
+  const match = html.match(/data-mjx-error="([^"]*)"/);
+  return match ? match[1] : null;
+}
+
 export class MathJaxRenderer {
   private adaptor;
-  private tex;
   private svg;
   private initialized = false;
 
   constructor() {
     this.adaptor = browserAdaptor();
     RegisterHTMLHandler(this.adaptor);
-    this.tex = new TeX({ packages });
     this.svg = new SVG({ fontCache: 'none' });
     this.initialized = true;
   }
@@ -40,11 +50,20 @@ export class MathJaxRenderer {
     const throwOnError = options.throwOnError ?? false;
 
     try {
+      // Fresh input jax per render so macro definitions never leak between equations
       const doc = mathjax.document('', {
-        InputJax: this.tex,
+        InputJax: this.createInputJax(options),
         OutputJax: this.svg,
       });
 
+      if (options.preamble) {
+        const preambleNode = doc.convert(options.preamble, { display: false });
+        const preambleError = extractTexError(this.adaptor.outerHTML(preambleNode));
+        if (preambleError) {
+          throw new Error(`Preamble error: ${preambleError}`);
+        }
+      }
+
       const node = doc.convert(latex, {
         display: displayMode,
         em: 16,
@@ -74,7 +93,7 @@ export class MathJaxRenderer {
   validate(latex: string): { valid: boolean; errors: string[] } {
     try {
       const doc = mathjax.document('', {
-        InputJax: this.tex,
+        InputJax: this.createInputJax(),
         OutputJax: this.svg,
       });
       doc.convert(latex, { display: true });
@@ -87,6 +106,19 @@ export class MathJaxRenderer {
     }
   }
 
+  private createInputJax(options: RendererOptions = {}) {
+    // Convert definitions to the configmacros format: name -> [body, args] / [begin, end, args]
+    const macros: Record<string, string | [string, number]> = {};
+    for (const [name, def] of Object.entries(options.macros ?? {})) {
+      macros[name] = def.args ? [def.body, def.args] : def.body;
+    }
+    const environments: Record<string, [string, string] | [string, string, number]> = {};
+    for (const [name, def] of Object.entries(options.environments ?? {})) {
+      environments[name] = def.args ? [def.begin, def.end, def.args] : [def.begin, def.end];
+    }
+    return new TeX({ packages, macros, environments });
+  }
+
   getVersion(): string {
     return '3.2.2';
   }
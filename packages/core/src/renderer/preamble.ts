@@ -0,0 +1,57 @@
+/**
+ * Preamble handling for MathJax rendering
+ *
+ * MathJax has no document preamble, so definitions are evaluated in the same
+ * TeX input jax right before the equation. Commands that only make sense in a
+ * real LaTeX document (\documentclass, \usepackage, ...) are dropped since
+ * MathJax already loads every package it supports.
+ */
+
+const IGNORED_PREAMBLE_COMMANDS = ['documentclass', 'usepackage', 'RequirePackage'];
+
+/**
+ * Remove a trailing % comment from a line, keeping escaped \%
+ */
+function stripComment(line: string): string {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (line[i] === '%') {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Normalize a preamble into a string MathJax can evaluate
+ * Returns an empty string if nothing renderable is left
+ */
+export function parsePreamble(preamble: string | null | undefined): string {
+  if (!preamble) return '';
+
+  const ignored = new RegExp(
+    `^\\\\(?:${IGNORED_PREAMBLE_COMMANDS.join('|')})\\s*(?:\\[[^\\]]*\\])?\\s*\\{[^}]*\\}`
+  );
+
+  return preamble
+    .split('\n')
+    .map((line) => stripComment(line).trim())
+    .filter((line) => line && !ignored.test(line))
+    .join('\n');
+}
+
+/**
+ * Combine global preamble and per-equation override
+ * The override is applied after the global preamble so its definitions win
+ */
+export function combinePreambles(
+  globalPreamble: string | null | undefined,
+  preambleOverride: string | null | undefined
+): string {
+  return [parsePreamble(globalPreamble), parsePreamble(preambleOverride)]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,57 @@
+/**
+ * Font sizes and lengths for sizing rendered SVGs
+ *
+ * MathJax reports sizes in em (its viewBox is in thousandths of an em) or ex, so output
+ * is sized from a font size with a unit, and the SVG's width and height carry that unit.
+ */
+
+import type { FontSize } from '../parser/types';
+
+export type { FontSize };
+
+export const FONT_SIZE_PATTERN = /^(\d*\.?\d+)\s*(pt|px)$/;
+
+/**
+ * Font size equations are rendered at when neither the document (or request) nor the equation sets one
+ */
+export const DEFAULT_FONT_SIZE: FontSize = { value: 36, unit: 'pt' };
+
+const PX_PER_UNIT: Record<FontSize['unit'], number> = {
+  px: 1,
+  pt: 4 / 3,    // CSS pixels are 1/96in, points 1/72in
+};
+
+/**
+ * x-height of the MathJax TeX fonts in em, for sizes MathJax reports in ex
+ */
+export const MATHJAX_EX_IN_EM = 0.442;
+
+/**
+ * Parse a font size with its unit: "28pt" -> { value: 28, unit: 'pt' }
+ */
+export function parseFontSize(value: string): FontSize | undefined {
+  const match = value.trim().match(FONT_SIZE_PATTERN);
+  if (!match?.[1] || parseFloat(match[1]) <= 0) return undefined;
+  return { value: parseFloat(match[1]), unit: match[2] as FontSize['unit'] };
+}
+
+/**
+ * Size of 1em in CSS pixels
+ */
+export function fontSizeInPixels(fontSize: FontSize): number {
+  return fontSize.value * PX_PER_UNIT[fontSize.unit];
+}
+
+/**
+ * A length in pixels written in `unit`, for width and height attributes
+ */
+export function formatLength(px: number, unit: FontSize['unit']): string {
+  return `${Math.round((px / PX_PER_UNIT[unit]) * 1000) / 1000}${unit}`;
+}
+
+/**
+ * Font size as written in frontmatter, requests and metadata: 28pt, 16px
+ */
+export function formatFontSize(fontSize: FontSize): string {
+  return `${fontSize.value}${fontSize.unit}`;
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { readXmlElements } from '../../metadata/xml';
+import { importWithAdapters, latexitAdapter } from './index';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+const fields = (svg: string) => importWithAdapters(svg)?.equations
+  .map(({ latex, label, preamble, color }) => ({ latex, label, preamble, color }));
+
+describe('importWithAdapters', () => {
+  it('reads the LaTeXiT source, the preamble MathJax can use and the color', () => {
+    const svg = fixture('latexit.svg');
+    expect(importWithAdapters(svg)?.format).toBe('LaTeXiT');
+    expect(fields(svg)).toEqual([
+      { latex: '\\R^n \\to \\R', label: 'imported1', preamble: '\\newcommand{\\R}{\\mathbb{R}}', color: '#cc0000' },
+    ]);
+  });
+
+  it('reads the TexText source of every equation group', () => {
+    const svg = fixture('textext.svg');
+    expect(importWithAdapters(svg)?.format).toBe('TexText');
+    expect(fields(svg)).toEqual([
+      { latex: 'E = mc^2', label: 'imported1', preamble: undefined, color: '#0055d4' },
+      { latex: '\\int_0^1 f(x)\\,dx', label: 'imported2', preamble: undefined, color: undefined },
+    ]);
+  });
+
+  it('reads data-latex of MathJax math nodes, not of their subexpressions', () => {
+    const svg = fixture('mathjax.svg');
+    expect(importWithAdapters(svg)?.format).toBe('MathJax');
+    expect(fields(svg)).toEqual([{ latex: 'x^2 + y^2', label: 'imported1', preamble: undefined, color: undefined }]);
+  });
+});
+
+describe('latexitAdapter', () => {
+  const importLatexit = (content: string) => latexitAdapter.importEquations({ content, elements: readXmlElements(content) });
+
+  it('falls back to the plain markers and leaves black glyphs uncolored', () => {
+    const svg = '<svg><!--ESannot\\frac{a}{b} \\label{eq:ratio}ESannotend--><g fill="rgb(0%, 0%, 0%)"><use/></g></svg>';
+    const [equation] = importLatexit(svg);
+    expect(equation).toMatchObject({ latex: '\\frac{a}{b} \\label{eq:ratio}', label: 'eq:ratio' });
+    expect(equation?.preamble).toBeUndefined();
+    expect(equation?.color).toBeUndefined();
+  });
+
+  it('prefers the color annotation over the glyph fills', () => {
+    const glyphs = '<g fill="rgb(80%, 0%, 0%)"><use/></g>';
+    const [annotated] = importLatexit(`<svg><!--ESannotxESannotend ESannoc0 0.4 0.8 0.5ESannocend-->${glyphs}</svg>`);
+    expect(annotated?.color).toBe('#0066cc80');
+    const [black] = importLatexit(`<svg><!--ESannotxESannotend ESannoc0 0 0 1ESannocend-->${glyphs}</svg>`);
+    expect(black?.color).toBeUndefined();
+    const [malformed] = importLatexit(`<svg><!--ESannotxESannotend ESannocredESannocend-->${glyphs}</svg>`);
+    expect(malformed?.color).toBe('#cc0000');
+  });
+
+  it('ignores SVGs without a LaTeXiT annotation', () => {
+    expect(importLatexit(fixture('textext.svg'))).toEqual([]);
+  });
+});
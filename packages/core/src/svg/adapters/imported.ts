@@ -0,0 +1,18 @@
+import type { ImportedEquation } from './types';
+
+/**
+ * Imported equation for LaTeX recovered without metadata, labelled from its \label when it has one
+ */
+export function importedEquation(
+  latex: string,
+  index: number,
+  fields?: Partial<ImportedEquation>
+): ImportedEquation {
+  const labelMatch = latex.match(/\\label\{([\w:.-]+)\}/);
+  return {
+    id: crypto.randomUUID(),
+    latex,
+    label: labelMatch?.[1] || `imported${index + 1}`,
+    ...fields,
+  };
+}
@@ -0,0 +1,46 @@
+import { readXmlElements } from '../../metadata/xml';
+import type { ImportedEquation, SvgImportAdapter } from './types';
+import { latexitAdapter } from './latexit';
+import { textextAdapter } from './textext';
+import { mathjaxAdapter } from './mathjax';
+import { reconstructAdapter } from './reconstruct';
+
+export * from './types';
+export { latexitAdapter } from './latexit';
+export { textextAdapter } from './textext';
+export { mathjaxAdapter } from './mathjax';
+export { reconstructAdapter, reconstructLatex } from './reconstruct';
+
+// Rebuilding LaTeX from MathJax output is the last resort
+// IguanaTeX and Mathcha have no importer: IguanaTeX keeps its LaTeX in PowerPoint shape tags,
+// which SVG export drops, and no source embedded in Mathcha SVG exports is known
+const adapters: SvgImportAdapter[] = [latexitAdapter, textextAdapter, mathjaxAdapter, reconstructAdapter];
+
+export interface AdapterImportResult {
+  format: string;                 // Name of the adapter that recognised the SVG
+  equations: ImportedEquation[];
+}
+
+/**
+ * Add an importer for another tool's SVGs, tried before LaTeX is rebuilt from MathJax output
+ */
+export function registerSvgImportAdapter(adapter: SvgImportAdapter): void {
+  if (!adapters.some((existing) => existing.name === adapter.name)) {
+    adapters.splice(adapters.indexOf(reconstructAdapter), 0, adapter);
+  }
+}
+
+/**
+ * Equations embedded by a third-party tool, from the first adapter that recognises the SVG
+ */
+export function importWithAdapters(svgContent: string): AdapterImportResult | undefined {
+  const input = { content: svgContent, elements: readXmlElements(svgContent) };
+
+  for (const adapter of adapters) {
+    const equations = adapter.importEquations(input);
+    if (equations.length > 0) {
+      return { format: adapter.name, equations };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,77 @@
+import { parsePreamble } from '../../renderer/preamble';
+import { xmlAttribute, type XmlElement } from '../../metadata/xml';
+import { importedEquation } from './imported';
+import type { SvgImportAdapter } from './types';
+
+/**
+ * Text between LaTeXiT annotation markers, ESannot...ESannotend; the ESannoe* variants are
+ * percent-encoded and preferred as they survive any character in the source
+ */
+function annotation(content: string, plain: string, escaped?: string): string | undefined {
+  const encoded = escaped
+    ? content.match(new RegExp(`ESanno${escaped}([\\s\\S]*?)ESanno${escaped}end`))?.[1]
+    : undefined;
+  if (encoded !== undefined) {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      // Fall back to the plain marker
+    }
+  }
+  return content.match(new RegExp(`ESanno${plain}([\\s\\S]*?)ESanno${plain}end`))?.[1];
+}
+
+/**
+ * Hex color of channels in 0-1 (alpha only when not opaque), undefined for black
+ */
+function hexColor(channels: number[]): string | undefined {
+  const [r = 0, g = 0, b = 0, a = 1] = channels;
+  const hex = [r, g, b, ...(a < 1 ? [a] : [])]
+    .map((channel) => Math.round(Math.min(Math.max(channel, 0), 1) * 255).toString(16).padStart(2, '0'))
+    .join('');
+  return hex === '000000' ? undefined : `#${hex}`;
+}
+
+/**
+ * Color annotation, ESannoc1.000000 0.000000 0.000000 1.000000ESannocend (RGBA in 0-1)
+ */
+function annotatedColor(content: string): number[] | undefined {
+  const channels = annotation(content, 'c')?.trim().split(/\s+/).map(Number);
+  return channels && channels.length >= 3 && channels.length <= 4 && channels.every(Number.isFinite)
+    ? channels
+    : undefined;
+}
+
+/**
+ * Glyph color of cairo SVG output: fill="rgb(100%, 0%, 0%)" or style="fill:rgb(100%,0%,0%);..."
+ */
+function glyphColor(elements: XmlElement[]): string | undefined {
+  for (const element of elements) {
+    const fill = xmlAttribute(element, 'style')?.match(/(?:^|;)\s*fill\s*:\s*([^;]+)/)?.[1] ?? xmlAttribute(element, 'fill');
+    const channels = fill?.match(/^\s*rgb\(\s*([\d.]+)%\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)\s*$/);
+    if (!channels) continue;
+    return hexColor(channels.slice(1, 4).map((percent) => parseFloat(percent) / 100));
+  }
+  return undefined;
+}
+
+/**
+ * LaTeXiT annotates its exports with the source, preamble and color between ESanno markers, which
+ * it keeps in a comment of SVG exports. The preamble is a full document preamble; only what MathJax
+ * can evaluate is kept. Exports without a color annotation get the color of their glyphs
+ */
+export const latexitAdapter: SvgImportAdapter = {
+  name: 'LaTeXiT',
+  importEquations: ({ content, elements }) => {
+    const latex = annotation(content, 't', 'es')?.trim();
+    if (!latex) return [];
+
+    const preamble = parsePreamble(annotation(content, 'p', 'ep'));
+    const channels = annotatedColor(content);
+    const color = channels ? hexColor(channels) : glyphColor(elements);
+    return [importedEquation(latex, 0, {
+      ...(preamble ? { preamble } : {}),
+      ...(color ? { color } : {}),
+    })];
+  },
+};
@@ -0,0 +1,16 @@
+import { xmlAttribute } from '../../metadata/xml';
+import { importedEquation } from './imported';
+import type { SvgImportAdapter } from './types';
+
+/**
+ * MathJax 4 SVG output keeps the TeX of each expression in data-latex on its math node
+ * Nodes inside it carry data-latex for their own subexpressions and are skipped
+ */
+export const mathjaxAdapter: SvgImportAdapter = {
+  name: 'MathJax',
+  importEquations: ({ elements }) => elements
+    .filter((element) => xmlAttribute(element, 'data-mml-node') === 'math')
+    .map((element) => xmlAttribute(element, 'data-latex')?.trim() ?? '')
+    .filter((latex) => latex !== '')
+    .map((latex, index) => importedEquation(latex, index)),
+};
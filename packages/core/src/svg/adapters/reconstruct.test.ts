@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { generateSVG } from '../../renderer/generator';
+import { parseSvg } from '../parser';
+import { characterLatex, delimiterLatex } from './unicode';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/stripped/${name}`, import.meta.url), 'utf8');
+
+/**
+ * Exported SVG without metadata or any data-* attribute but the MathJax structure (data-mml-node, data-c)
+ */
+const strip = (svg: string) => svg.replace(/\s(data-(?!mml-node|c=)[\w-]+)="[^"]*"/g, '');
+
+describe('reconstructAdapter', () => {
+  it.each([
+    ['fractions.svg', ['\\frac{a + b}{2}', '\\frac{1}{x^2 + 1}', '\\binom{n}{k}']],
+    ['scripts.svg', ['x_i^2 + y_{i + 1}', 'e^{-x^2}', "f'(x) = f''(x)"]],
+    ['roots.svg', ['\\sqrt{x}', '\\sqrt[3]{y + 1}', '\\sqrt{\\frac{a}{b}}']],
+    ['operators.svg', [
+      '\\sum_{i = 1}^n i^2',
+      '\\int_0^1 f(x)\\,dx',
+      '\\lim_{x \\to 0}\\frac{\\sin x}{x} = 1',
+      'a \\le b \\times c',
+    ]],
+    ['matrices.svg', [
+      '\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}',
+      '\\begin{bmatrix} 1 & 0 \\\\ 0 & 1 \\end{bmatrix}',
+      '\\begin{vmatrix} a & b \\\\ c & d \\end{vmatrix}',
+      '\\begin{Vmatrix} x \\\\ y \\end{Vmatrix}',
+      '|x| = \\begin{cases} x & x \\ge 0 \\\\ -x & x < 0 \\end{cases}',
+    ]],
+    ['tagged.svg', ['E = mc^2 \\tag{1}', 'a^2 + b^2 = c^2 \\tag{2.1}']],
+  ])('rebuilds the LaTeX of %s', (name, latex) => {
+    const result = parseSvg(fixture(name));
+    expect(result.format).toBe('MathJax structure');
+    expect(result.approximate).toBe(true);
+    expect(result.hasMetadata).toBe(false);
+    expect(result.equations.map((equation) => equation.latex)).toEqual(latex);
+  });
+
+  // Equation numbers and stretched delimiters are nested svgs in the export
+  it.each([
+    'E = mc^2 \\tag{1}',
+    '\\left\\lfloor \\frac{n}{2} \\right\\rfloor',
+    '\\begin{Vmatrix} a & b \\\\ c & d \\end{Vmatrix}',
+  ])('rebuilds %s from a fresh export', (latex) => {
+    const { svg, errors } = generateSVG({
+      equations: [{ latex, displayMode: 'block' }],
+      options: { embedMetadata: false },
+    });
+    expect(errors).toEqual([]);
+    expect(parseSvg(strip(svg)).equations.map((equation) => equation.latex)).toEqual([latex]);
+  });
+});
+
+describe('characterLatex', () => {
+  it.each([
+    [0x1d465, { latex: 'x' }],
+    [0x211d, { latex: 'R', variant: 'mathbb' }],
+    [0x1d42f, { latex: 'v', variant: 'mathbf' }],
+    [0x1d7ce, { latex: '0', variant: 'mathbf' }],
+    [0x1d6fc, { latex: '\\alpha' }],
+    [0x3a9, { latex: '\\Omega' }],
+    [0x2264, { latex: '\\le' }],
+    [0x25, { latex: '\\%' }],
+  ])('reads code point %d', (code, expected) => {
+    expect(characterLatex(code)).toEqual(expected);
+  });
+});
+
+describe('delimiterLatex', () => {
+  it('reads the pieces of stretched delimiters', () => {
+    expect([0x239b, 0x23a4, 0x23a7, 0x23ad, 0x2223, 0x2225].map(delimiterLatex))
+      .toEqual(['(', ']', '\\{', '\\}', '|', '\\Vert']);
+  });
+
+  it('leaves other characters out', () => {
+    expect(delimiterLatex(0x1d465)).toBeUndefined();
+    expect(delimiterLatex(0x2b)).toBeUndefined();
+  });
+});
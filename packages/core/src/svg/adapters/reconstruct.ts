@@ -0,0 +1,413 @@
+import { xmlAttribute, type XmlElement } from '../../metadata/xml';
+import { importedEquation } from './imported';
+import { characterLatex, delimiterLatex } from './unicode';
+import type { ImportedEquation, SvgImportAdapter } from './types';
+
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'coth',
+  'log', 'ln', 'lg', 'exp', 'lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'ker', 'deg',
+  'gcd', 'arg', 'hom', 'Pr',
+]);
+
+// Operators that take their limits above and below in display math
+const LIMIT_OPERATORS = /^\\(sum|prod|coprod|int|iint|iiint|oint|bigcup|bigcap|bigoplus|bigotimes|bigwedge|bigvee|lim|liminf|limsup|max|min|sup|inf|det|gcd|Pr)$/;
+
+// Operators written with space around them, as a person would type them
+const SPACED_OPERATORS = /^([+\-=<>*/]|\\(pm|mp|times|div|cdot|circ|bullet|otimes|oplus|ominus|odot|land|lor|cup|cap|setminus|le|ge|ne|approx|equiv|sim|simeq|cong|propto|ll|gg|prec|succ|in|notin|ni|subset|supset|subseteq|supseteq|mid|parallel|perp|vdash|models|to|leftarrow|leftrightarrow|Rightarrow|Leftarrow|Leftrightarrow|longrightarrow|Longrightarrow|Longleftrightarrow|mapsto))$/;
+
+const OVER_ACCENTS: Record<number, string> = {
+  0x5e: 'hat', 0x2c6: 'hat', 0x302: 'hat', 0x7e: 'tilde', 0x2dc: 'tilde', 0x303: 'tilde', 0xaf: 'bar',
+  0x2c9: 'bar', 0x304: 'bar', 0x2192: 'vec', 0x20d7: 'vec', 0x2d9: 'dot', 0x307: 'dot', 0xa8: 'ddot',
+  0x308: 'ddot', 0x2c7: 'check', 0x30c: 'check', 0x2d8: 'breve', 0x306: 'breve', 0xb4: 'acute', 0x2ca: 'acute',
+  0x301: 'acute', 0x60: 'grave', 0x2cb: 'grave', 0x300: 'grave', 0x2013: 'overline', 0x203e: 'overline',
+  0x2015: 'overline', 0x23de: 'overbrace',
+};
+
+const UNDER_ACCENTS: Record<number, string> = {
+  0x2013: 'underline', 0x203e: 'underline', 0x2015: 'underline', 0x5f: 'underline', 0x23df: 'underbrace',
+};
+
+// Accents stretched over their base, by the first piece they are drawn with
+const STRETCHED_OVER_ACCENTS: Record<number, string> = {
+  0x2192: 'overrightarrow', 0x2190: 'overleftarrow', 0x2194: 'overleftrightarrow', 0xe150: 'overbrace',
+};
+
+const STRETCHED_UNDER_ACCENTS: Record<number, string> = {
+  0x2192: 'underrightarrow', 0x2190: 'underleftarrow', 0x2194: 'underleftrightarrow', 0xe152: 'underbrace',
+};
+
+// Matrix environments by their delimiters
+const MATRIX_ENVIRONMENTS: Record<string, string> = {
+  '()': 'pmatrix',
+  '[]': 'bmatrix',
+  '\\{\\}': 'Bmatrix',
+  '||': 'vmatrix',
+  '\\Vert\\Vert': 'Vmatrix',
+  '\\{': 'cases',
+};
+
+function mmlNode(element: XmlElement): string | undefined {
+  return xmlAttribute(element, 'data-mml-node');
+}
+
+/**
+ * MathML children of a node, looking through the plain <g> and <svg> wrappers MathJax adds
+ */
+function mmlChildren(element: XmlElement): XmlElement[] {
+  return element.children.flatMap((child) => mmlNode(child) !== undefined ? [child] : mmlChildren(child));
+}
+
+/**
+ * Code points of the glyphs drawn for a node, in order; a character drawn from several glyphs
+ * (″ as two primes) is a group with its own code, and its pieces are not counted again
+ */
+function characters(element: XmlElement): number[] {
+  const code = xmlAttribute(element, 'data-c');
+  if (code !== undefined && /^[0-9A-Fa-f]+$/.test(code)) return [parseInt(code, 16)];
+  return element.children.flatMap(characters);
+}
+
+/**
+ * Offset of a node from its first transform translate(x, y); y points up in MathJax output
+ */
+function offset(element: XmlElement): { x: number; y: number } {
+  const match = xmlAttribute(element, 'transform')?.match(/translate\(\s*(-?[\d.e]+)(?:[\s,]+(-?[\d.e]+))?/);
+  return { x: parseFloat(match?.[1] ?? '0') || 0, y: parseFloat(match?.[2] ?? '0') || 0 };
+}
+
+/**
+ * Join LaTeX fragments, separating a control word from a following letter, and a bare script
+ * argument from a following letter or digit (x^2 y, not x^2y)
+ */
+function joinLatex(parts: string[]): string {
+  return parts.reduce((latex, part) => {
+    const separate = (/\\[A-Za-z]+$/.test(latex) && /^[A-Za-z]/.test(part))
+      || (/[_^][A-Za-z0-9]$/.test(latex) && /^[A-Za-z0-9]/.test(part));
+    return separate ? `${latex} ${part}` : latex + part;
+  }, '');
+}
+
+/**
+ * Braced argument, left bare when it is a single character
+ */
+function argument(latex: string): string {
+  const trimmed = latex.trim();
+  return [...trimmed].length === 1 ? trimmed : `{${trimmed}}`;
+}
+
+/**
+ * Script base, braced unless it is a single symbol, number or font command
+ */
+function scriptBase(latex: string): string {
+  const trimmed = latex.trim();
+  return /^([^\\\s{}^_]|\d+(\.\d+)?|\\[A-Za-z]+|\\[A-Za-z]+\{[^{}]*\}|\{.*\})$/.test(trimmed) || trimmed === ''
+    ? trimmed
+    : `{${trimmed}}`;
+}
+
+function spaceLatex(width: number): string {
+  if (width >= 1900) return '\\qquad ';
+  if (width >= 900) return '\\quad ';
+  if (width >= 250) return '\\;';
+  if (width >= 200) return '\\:';
+  if (width >= 100) return '\\,';
+  if (width <= -100) return '\\!';
+  return '';
+}
+
+function isSpace(element: XmlElement): boolean {
+  const children = mmlChildren(element);
+  return mmlNode(element) === 'mspace' || (children.length > 0 && characters(element).length === 0
+    && children.every(isSpace));
+}
+
+function identifier(codes: number[]): string {
+  // Multi-letter upright identifiers are function names or \mathrm text
+  if (codes.length > 1 && codes.every((code) => /[A-Za-z]/.test(String.fromCodePoint(code)))) {
+    const name = String.fromCodePoint(...codes);
+    return FUNCTIONS.has(name) ? `\\${name}` : `\\mathrm{${name}}`;
+  }
+  return joinLatex(codes.map((code) => {
+    const { latex, variant } = characterLatex(code);
+    // Upright single letters: italic letters use the Mathematical Alphanumeric Symbols block
+    if (!variant && /^[A-Za-z]$/.test(String.fromCodePoint(code))) return `\\mathrm{${latex}}`;
+    return variant ? `\\${variant}{${latex}}` : latex;
+  }));
+}
+
+function operator(codes: number[]): string {
+  if (codes.length > 1 && codes.every((code) => /[A-Za-z]/.test(String.fromCodePoint(code)))) {
+    const name = String.fromCodePoint(...codes);
+    return FUNCTIONS.has(name) ? `\\${name}` : `\\operatorname{${name}}`;
+  }
+  // Stretched delimiters are drawn from pieces, the first one tells which
+  const delimiter = codes.length > 1 && codes[0] !== undefined ? delimiterLatex(codes[0]) : undefined;
+  if (delimiter) return delimiter;
+
+  const latex = joinLatex(codes.map((code) => characterLatex(code).latex));
+  if (SPACED_OPERATORS.test(latex)) return ` ${latex} `;
+  return latex === ',' ? ', ' : latex;
+}
+
+function text(codes: number[]): string {
+  const content = String.fromCodePoint(...codes)
+    .replace(/\u00a0/g, ' ')
+    .replace(/[{}$&%#_]/g, '\\$&');
+  return `\\text{${content}}`;
+}
+
+/**
+ * Delimiter drawn by a fence operator, "." when it draws nothing (\right.)
+ * Sized delimiters (\binom, \big) are an operator wrapped in a TeXAtom
+ */
+function fence(element: XmlElement | undefined): string | undefined {
+  const [wrapped] = element && mmlNode(element) === 'TeXAtom' ? mmlChildren(element) : [];
+  if (wrapped && mmlChildren(element!).length === 1) return fence(wrapped);
+  if (!element || mmlNode(element) !== 'mo') return undefined;
+  const [code] = characters(element);
+  return code === undefined ? '.' : delimiterLatex(code);
+}
+
+function row(elements: XmlElement[]): string {
+  return joinLatex(elements.map((element, index) => {
+    if (!isSpace(element)) return convert(element);
+    const next = elements[index + 1];
+    return next ? spaceLatex(offset(next).x - offset(element).x) : '';
+  }));
+}
+
+function fenced(element: XmlElement): string | undefined {
+  const children = mmlChildren(element);
+  const open = fence(children[0]);
+  const close = fence(children[children.length - 1]);
+  if (children.length < 2 || open === undefined || close === undefined) return undefined;
+
+  const inner = children.slice(1, -1);
+  const [only] = inner;
+  if (open === '(' && close === ')' && inner.length === 1 && only && mmlNode(only) === 'mfrac') {
+    const { numerator, denominator, hasBar } = fraction(only);
+    if (!hasBar) return `\\binom{${numerator}}{${denominator}}`;
+  }
+
+  const environment = MATRIX_ENVIRONMENTS[`${open}${close === '.' ? '' : close}`];
+  if (environment && inner.length === 1 && inner[0] && mmlNode(inner[0]) === 'mtable') {
+    return table(inner[0], environment);
+  }
+  return `\\left${open} ${row(inner).trim()} \\right${close}`;
+}
+
+/**
+ * Numerator and denominator of a fraction, and whether it is drawn with a bar (\binom is not)
+ */
+function fraction(element: XmlElement): { numerator: string; denominator: string; hasBar: boolean } {
+  const [numerator, denominator] = mmlChildren(element);
+  return {
+    numerator: numerator ? convert(numerator).trim() : '',
+    denominator: denominator ? convert(denominator).trim() : '',
+    hasBar: element.children.some((child) => child.localName === 'rect'),
+  };
+}
+
+function scripts(element: XmlElement, node: string): string {
+  const [base, ...rest] = mmlChildren(element);
+  const baseLatex = scriptBase(base ? convert(base) : '');
+  const [lower, upper] = node === 'msub' ? [rest[0], undefined]
+    : node === 'msup' ? [undefined, rest[0]]
+    // MathJax draws the superscript first; order by height in case another tool did not
+    : [...rest].sort((a, b) => offset(a).y - offset(b).y);
+
+  // f' is a superscript prime
+  const primes = upper ? characters(upper) : [];
+  if (!lower && primes.length > 0 && primes.every((code) => code >= 0x2032 && code <= 0x2034)) {
+    return baseLatex + primes.map((code) => "'".repeat(code - 0x2031)).join('');
+  }
+  return baseLatex
+    + (lower ? `_${argument(convert(lower))}` : '')
+    + (upper ? `^${argument(convert(upper))}` : '');
+}
+
+function underOver(element: XmlElement, node: string): string {
+  const [base, ...rest] = mmlChildren(element);
+  if (!base) return '';
+  const baseLatex = convert(base).trim();
+  const baseY = offset(base).y;
+  const under = node === 'mover' ? undefined : rest.find((child) => offset(child).y < baseY);
+  const over = node === 'munder' ? undefined : rest.find((child) => child !== under);
+
+  const accent = (child: XmlElement | undefined, accents: Record<number, string>, stretched: Record<number, string>) => {
+    const [first, ...pieces] = child && mmlNode(child) === 'mo' ? characters(child) : [];
+    if (first === undefined) return undefined;
+    return pieces.length === 0 ? accents[first] : stretched[first];
+  };
+  const overAccent = accent(over, OVER_ACCENTS, STRETCHED_OVER_ACCENTS);
+  const underAccent = accent(under, UNDER_ACCENTS, STRETCHED_UNDER_ACCENTS);
+  if (overAccent && !under) return `\\${overAccent}{${baseLatex}}`;
+  if (underAccent && !over) return `\\${underAccent}{${baseLatex}}`;
+
+  // \underbrace{a + b}_n takes its label like a limit
+  if (LIMIT_OPERATORS.test(baseLatex) || /^\\(underbrace|overbrace)\{/.test(baseLatex)) {
+    return baseLatex
+      + (under ? `_${argument(convert(under))}` : '')
+      + (over ? `^${argument(convert(over))}` : '');
+  }
+  let latex = baseLatex;
+  if (under) latex = `\\underset{${convert(under).trim()}}{${latex}}`;
+  if (over) latex = `\\overset{${convert(over).trim()}}{${latex}}`;
+  return latex;
+}
+
+function radical(element: XmlElement, node: string): string {
+  // The radicand sits in a plain wrapper <g>; the marked children are the surd and the index
+  const base = element.children.filter((child) => mmlNode(child) === undefined).flatMap(mmlChildren);
+  const index = element.children.filter((child) => {
+    if (mmlNode(child) === undefined) return false;
+    const codes = characters(child);
+    return !(mmlNode(child) === 'mo' && codes.every((code) => code === 0x221a || (code >= 0x23b7 && code <= 0x23b8)));
+  });
+  const indexLatex = node === 'mroot' && index.length > 0 ? `[${row(index).trim()}]` : '';
+  return `\\sqrt${indexLatex}{${row(base).trim()}}`;
+}
+
+/**
+ * Equation number of a label cell: (3) -> \tag{3}
+ */
+function tag(element: XmlElement): string {
+  const label = String.fromCodePoint(...characters(element)).replace(/^\((.*)\)$/, '$1');
+  return ` \\tag{${label}}`;
+}
+
+function table(element: XmlElement, environment?: string): string {
+  const children = mmlChildren(element);
+  // Equation numbers are drawn apart from the rows, one label cell per labelled row
+  const labels = children.filter((child) => mmlNode(child) === 'mtd');
+  const rows = children
+    .filter((child) => mmlNode(child) === 'mtr' || mmlNode(child) === 'mlabeledtr')
+    .map((tableRow) => {
+      const cells = mmlChildren(tableRow).map((cell) => row(mmlChildren(cell)).trim()).join(' & ');
+      const label = mmlNode(tableRow) === 'mlabeledtr' ? labels.shift() : undefined;
+      return { cells, tag: label ? tag(label) : '', single: mmlChildren(tableRow).length === 1 };
+    });
+
+  // A single numbered equation is laid out as a one-cell table
+  if (!environment && rows.length === 1 && rows[0]?.single) return rows[0].cells + rows[0].tag;
+
+  const name = environment ?? (rows.some((tableRow) => tableRow.tag) ? 'align' : 'matrix');
+  const content = rows.map((tableRow) => tableRow.cells + tableRow.tag).join(' \\\\ ');
+  return `\\begin{${name}} ${content} \\end{${name}}`;
+}
+
+/**
+ * LaTeX color for a fill set by \color, as a named color or [HTML] hex
+ */
+function colorLatex(fill: string): string {
+  const hex = fill.match(/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/)?.[1];
+  if (!hex) return `{${fill}}`;
+  const full = hex.length === 3 ? hex.replace(/./g, '$&$&') : hex;
+  return `[HTML]{${full.toUpperCase()}}`;
+}
+
+function convert(element: XmlElement): string {
+  const node = mmlNode(element) ?? '';
+  let latex: string;
+
+  switch (node) {
+    case 'mi':
+      latex = identifier(characters(element));
+      break;
+    case 'mn':
+      latex = joinLatex(characters(element).map((code) => {
+        const { latex: digit, variant } = characterLatex(code);
+        return variant ? `\\${variant}{${digit}}` : digit;
+      }));
+      break;
+    case 'mo':
+      latex = operator(characters(element));
+      break;
+    case 'mtext':
+      latex = text(characters(element));
+      break;
+    case 'mspace':
+      latex = '';
+      break;
+    case 'mfrac': {
+      // Without the fraction bar this is an \atop (or a \binom, see fenced)
+      const { numerator, denominator, hasBar } = fraction(element);
+      latex = hasBar ? `\\frac{${numerator}}{${denominator}}` : `\\genfrac{}{}{0pt}{}{${numerator}}{${denominator}}`;
+      break;
+    }
+    case 'msub':
+    case 'msup':
+    case 'msubsup':
+      latex = scripts(element, node);
+      break;
+    case 'munder':
+    case 'mover':
+    case 'munderover':
+      latex = underOver(element, node);
+      break;
+    case 'msqrt':
+    case 'mroot':
+      latex = radical(element, node);
+      break;
+    case 'mtable':
+      latex = table(element);
+      break;
+    case 'mrow':
+      latex = fenced(element) ?? row(mmlChildren(element));
+      break;
+    case 'menclose': {
+      const content = row(mmlChildren(element)).trim();
+      const lines = element.children.filter((child) => child.localName === 'line').length;
+      latex = element.children.some((child) => child.localName === 'rect') ? `\\boxed{${content}}`
+        : lines === 1 ? `\\cancel{${content}}`
+        : lines > 1 ? `\\xcancel{${content}}`
+        : content;
+      break;
+    }
+    default:
+      // math, TeXAtom, mstyle, mpadded, mphantom and anything unknown: the content in order
+      latex = row(mmlChildren(element));
+  }
+
+  const fill = xmlAttribute(element, 'fill');
+  if (fill && fill !== 'currentColor' && fill !== 'none' && latex.trim()) {
+    return `{\\color${colorLatex(fill)} ${latex.trim()}}`;
+  }
+  return latex;
+}
+
+/**
+ * LaTeX rebuilt from the MathML structure of one MathJax math node
+ */
+export function reconstructLatex(math: XmlElement): string {
+  const children = mmlChildren(math);
+  const [only] = children;
+  const rows = only ? mmlChildren(only).filter((child) => mmlNode(child) !== 'mtd') : [];
+  // Multi-line displays (align, gather) are a table directly in the math node
+  const latex = children.length === 1 && only && mmlNode(only) === 'mtable' && rows.length > 1
+    ? table(only, rows.some((child) => mmlNode(child) === 'mlabeledtr') ? 'align' : 'aligned')
+    : row(children);
+  // Signs at the start of a group or a cell are unary: {-x^2}, (-1), & -x
+  return latex.replace(/\s+/g, ' ')
+    .replace(/(^|[{([]) ?([-+]) /g, '$1$2')
+    .replace(/(&|\\\\) ([-+]) /g, '$1 $2')
+    .trim();
+}
+
+/**
+ * MathJax SVG output without any embedded source: the LaTeX is rebuilt from the data-mml-node
+ * structure and the data-c code points of the glyphs; equation numbers come back as \tag. Fonts
+ * like \mathcal and spacing are not always recoverable, so the result is marked approximate
+ */
+export const reconstructAdapter: SvgImportAdapter = {
+  name: 'MathJax structure',
+  importEquations: ({ elements }) => {
+    const equations: ImportedEquation[] = [];
+    for (const element of elements) {
+      if (mmlNode(element) !== 'math') continue;
+      const latex = reconstructLatex(element);
+      if (latex) equations.push(importedEquation(latex, equations.length, { approximate: true }));
+    }
+    return equations;
+  },
+};
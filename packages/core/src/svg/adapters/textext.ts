@@ -0,0 +1,52 @@
+import { xmlAttribute, type XmlElement } from '../../metadata/xml';
+import { importedEquation } from './imported';
+import type { ImportedEquation, SvgImportAdapter } from './types';
+
+const TEXTEXT_NAMESPACE = 'http://www.iki.fi/pav/software/textext/';
+
+/**
+ * Namespace prefixes bound to TexText in the file (Inkscape writes textext:)
+ */
+function textextPrefixes(elements: XmlElement[]): string[] {
+  const prefixes = new Set(['textext']);
+  for (const element of elements) {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if (name.startsWith('xmlns:') && value === TEXTEXT_NAMESPACE) prefixes.add(name.slice(6));
+    }
+  }
+  return [...prefixes];
+}
+
+/**
+ * Fill color of the equation group, from its style or fill attribute
+ */
+function groupFill(element: XmlElement): string | undefined {
+  const style = xmlAttribute(element, 'style')?.match(/(?:^|;)\s*fill\s*:\s*([^;]+)/)?.[1];
+  const fill = (style ?? xmlAttribute(element, 'fill'))?.trim();
+  if (!fill || /^(none|currentColor|#000(000)?|black)$/i.test(fill)) return undefined;
+  return fill;
+}
+
+/**
+ * TexText (Inkscape extension) keeps the source of each equation in textext:text on its group
+ * textext:preamble only names a preamble file on the author's machine, so no preamble is imported
+ */
+export const textextAdapter: SvgImportAdapter = {
+  name: 'TexText',
+  importEquations: ({ elements }) => {
+    const prefixes = textextPrefixes(elements);
+    const equations: ImportedEquation[] = [];
+
+    for (const element of elements) {
+      const latex = prefixes
+        .map((prefix) => element.attributes[`${prefix}:text`])
+        .find((text) => text !== undefined)
+        ?.trim();
+      if (!latex) continue;
+
+      const color = groupFill(element);
+      equations.push(importedEquation(latex, equations.length, color ? { color } : {}));
+    }
+    return equations;
+  },
+};
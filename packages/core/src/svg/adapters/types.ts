@@ -0,0 +1,29 @@
+import type { XmlElement } from '../../metadata/xml';
+
+export interface ImportedEquation {
+  id: string;
+  latex: string;
+  label: string;
+  source?: string;      // Document text as written, when the metadata has it
+  preamble?: string;    // LaTeX preamble the equation was made with, when the tool embeds it
+  color?: string;       // Color the equation was rendered in, when not the default
+  approximate?: boolean;  // LaTeX rebuilt from the rendered output rather than read from the source
+  modifiedSinceExport?: boolean;  // Drawing edited after export, so it may no longer match the LaTeX
+}
+
+/**
+ * SVG being imported, read once and shared by the adapters
+ */
+export interface SvgImportInput {
+  content: string;
+  elements: XmlElement[];
+}
+
+/**
+ * Importer for the SVGs of another equation tool
+ */
+export interface SvgImportAdapter {
+  name: string;         // Tool name, reported as the import format
+  /** Equations embedded by the tool, empty when the SVG is not in its format */
+  importEquations(input: SvgImportInput): ImportedEquation[];
+}
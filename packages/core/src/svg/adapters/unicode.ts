@@ -0,0 +1,156 @@
+/**
+ * LaTeX for a character of MathJax output, with the font command it is set in (mathbf, mathbb, ...)
+ */
+export interface CharacterLatex {
+  latex: string;
+  variant?: string;
+}
+
+const GREEK_LOWER = [
+  '\\alpha', '\\beta', '\\gamma', '\\delta', '\\varepsilon', '\\zeta', '\\eta', '\\theta', '\\iota', '\\kappa',
+  '\\lambda', '\\mu', '\\nu', '\\xi', 'o', '\\pi', '\\rho', '\\varsigma', '\\sigma', '\\tau', '\\upsilon',
+  '\\varphi', '\\chi', '\\psi', '\\omega',
+];
+
+const GREEK_UPPER = [
+  'A', 'B', '\\Gamma', '\\Delta', 'E', 'Z', 'H', '\\Theta', 'I', 'K', '\\Lambda', 'M', 'N', '\\Xi', 'O', '\\Pi',
+  'P', '\\Theta', '\\Sigma', 'T', '\\Upsilon', '\\Phi', 'X', '\\Psi', '\\Omega',
+];
+
+// Greek symbol variants, upright and italic (U+1D715..U+1D71B)
+const GREEK_VARIANTS = ['\\partial', '\\epsilon', '\\vartheta', '\\varkappa', '\\phi', '\\varrho', '\\varpi'];
+
+/**
+ * Mathematical Alphanumeric Symbols blocks of 52 letters (A-Z, a-z) and the command for each
+ */
+const LETTER_BLOCKS: [number, string | undefined][] = [
+  [0x1d400, 'mathbf'],
+  [0x1d434, undefined],
+  [0x1d468, 'boldsymbol'],
+  [0x1d49c, 'mathcal'],
+  [0x1d4d0, 'mathcal'],
+  [0x1d504, 'mathfrak'],
+  [0x1d538, 'mathbb'],
+  [0x1d56c, 'mathfrak'],
+  [0x1d5a0, 'mathsf'],
+  [0x1d5d4, 'mathsf'],
+  [0x1d608, 'mathsf'],
+  [0x1d63c, 'mathsf'],
+  [0x1d670, 'mathtt'],
+];
+
+const DIGIT_BLOCKS: [number, string][] = [
+  [0x1d7ce, 'mathbf'],
+  [0x1d7d8, 'mathbb'],
+  [0x1d7e2, 'mathsf'],
+  [0x1d7ec, 'mathsf'],
+  [0x1d7f6, 'mathtt'],
+];
+
+// Letters the alphanumeric blocks leave to the Letterlike Symbols block
+const LETTERLIKE: Record<number, CharacterLatex> = {
+  0x210e: { latex: 'h' },
+  0x212c: { latex: 'B', variant: 'mathcal' },
+  0x2130: { latex: 'E', variant: 'mathcal' },
+  0x2131: { latex: 'F', variant: 'mathcal' },
+  0x210b: { latex: 'H', variant: 'mathcal' },
+  0x2110: { latex: 'I', variant: 'mathcal' },
+  0x2112: { latex: 'L', variant: 'mathcal' },
+  0x2133: { latex: 'M', variant: 'mathcal' },
+  0x211b: { latex: 'R', variant: 'mathcal' },
+  0x212d: { latex: 'C', variant: 'mathfrak' },
+  0x210c: { latex: 'H', variant: 'mathfrak' },
+  0x2128: { latex: 'Z', variant: 'mathfrak' },
+  0x2102: { latex: 'C', variant: 'mathbb' },
+  0x210d: { latex: 'H', variant: 'mathbb' },
+  0x2115: { latex: 'N', variant: 'mathbb' },
+  0x2119: { latex: 'P', variant: 'mathbb' },
+  0x211a: { latex: 'Q', variant: 'mathbb' },
+  0x211d: { latex: 'R', variant: 'mathbb' },
+  0x2124: { latex: 'Z', variant: 'mathbb' },
+};
+
+const SYMBOLS: Record<number, string> = {
+  0x2212: '-', 0x2217: '*', 0xb1: '\\pm', 0x2213: '\\mp', 0xd7: '\\times', 0xf7: '\\div', 0x22c5: '\\cdot',
+  0xb7: '\\cdot', 0x2218: '\\circ', 0x2219: '\\bullet', 0x2297: '\\otimes', 0x2295: '\\oplus', 0x2296: '\\ominus',
+  0x2299: '\\odot', 0x2227: '\\land', 0x2228: '\\lor', 0xac: '\\neg', 0x222a: '\\cup', 0x2229: '\\cap',
+  0x2216: '\\setminus', 0x2264: '\\le', 0x2265: '\\ge', 0x2260: '\\ne', 0x2248: '\\approx', 0x2261: '\\equiv',
+  0x223c: '\\sim', 0x2243: '\\simeq', 0x2245: '\\cong', 0x221d: '\\propto', 0x226a: '\\ll', 0x226b: '\\gg',
+  0x227a: '\\prec', 0x227b: '\\succ', 0x2208: '\\in', 0x2209: '\\notin', 0x220b: '\\ni', 0x2282: '\\subset',
+  0x2283: '\\supset', 0x2286: '\\subseteq', 0x2287: '\\supseteq', 0x2223: '\\mid', 0x2225: '\\parallel',
+  0x22a5: '\\perp', 0x22a2: '\\vdash', 0x22a8: '\\models', 0x2192: '\\to', 0x2190: '\\leftarrow',
+  0x2194: '\\leftrightarrow', 0x21d2: '\\Rightarrow', 0x21d0: '\\Leftarrow', 0x21d4: '\\Leftrightarrow',
+  0x27f6: '\\longrightarrow', 0x27f9: '\\Longrightarrow', 0x27fa: '\\Longleftrightarrow', 0x21a6: '\\mapsto',
+  0x2191: '\\uparrow', 0x2193: '\\downarrow', 0x2200: '\\forall', 0x2203: '\\exists', 0x2204: '\\nexists',
+  0x2205: '\\emptyset', 0x221e: '\\infty', 0x2202: '\\partial', 0x2207: '\\nabla', 0x2032: '\\prime',
+  0x2026: '\\ldots', 0x22ef: '\\cdots', 0x22ee: '\\vdots', 0x22f1: '\\ddots', 0x2220: '\\angle',
+  0x25b3: '\\triangle', 0x2211: '\\sum', 0x220f: '\\prod', 0x2210: '\\coprod', 0x222b: '\\int',
+  0x222c: '\\iint', 0x222d: '\\iiint', 0x222e: '\\oint', 0x22c3: '\\bigcup', 0x22c2: '\\bigcap',
+  0x2a01: '\\bigoplus', 0x2a02: '\\bigotimes', 0x22c0: '\\bigwedge', 0x22c1: '\\bigvee', 0x27e8: '\\langle',
+  0x27e9: '\\rangle', 0x2329: '\\langle', 0x232a: '\\rangle', 0x230a: '\\lfloor', 0x230b: '\\rfloor',
+  0x2308: '\\lceil', 0x2309: '\\rceil', 0x2016: '\\Vert', 0x210f: '\\hbar', 0x2113: '\\ell', 0x2118: '\\wp',
+  0x2135: '\\aleph', 0x211c: '\\Re', 0x2111: '\\Im', 0xa0: '~', 0x2061: '', 0x2062: '', 0x2063: '', 0x2064: '',
+  0x3f5: '\\epsilon', 0x3d1: '\\vartheta', 0x3d5: '\\phi', 0x3f1: '\\varrho', 0x3d6: '\\varpi', 0x3f0: '\\varkappa',
+  0x3dd: '\\digamma', 0x1d6a4: '\\imath', 0x1d6a5: '\\jmath', 0x131: '\\imath', 0x237: '\\jmath',
+};
+
+const ESCAPED = /^[#$%&_{}]$/;
+
+/**
+ * LaTeX for a code point from a data-c attribute
+ */
+export function characterLatex(code: number): CharacterLatex {
+  const letterlike = LETTERLIKE[code];
+  if (letterlike) return letterlike;
+
+  for (const [start, variant] of LETTER_BLOCKS) {
+    if (code >= start && code < start + 52) {
+      const offset = code - start;
+      const letter = String.fromCharCode(offset < 26 ? 0x41 + offset : 0x61 + offset - 26);
+      return variant ? { latex: letter, variant } : { latex: letter };
+    }
+  }
+  for (const [start, variant] of DIGIT_BLOCKS) {
+    if (code >= start && code < start + 10) return { latex: String(code - start), variant };
+  }
+
+  // Greek: upright, then the bold, italic and bold italic blocks (58 code points each)
+  if (code >= 0x391 && code <= 0x3a9) return { latex: GREEK_UPPER[code - 0x391] ?? '' };
+  if (code >= 0x3b1 && code <= 0x3c9) return { latex: GREEK_LOWER[code - 0x3b1] ?? '' };
+  for (const [start, variant] of [[0x1d6a8, 'boldsymbol'], [0x1d6e2, undefined], [0x1d71c, 'boldsymbol']] as const) {
+    const offset = code - start;
+    const latex = offset < 0 ? undefined
+      : offset < 25 ? GREEK_UPPER[offset]
+      : offset === 25 ? '\\nabla'
+      : offset >= 26 && offset < 51 ? GREEK_LOWER[offset - 26]
+      : offset >= 51 && offset < 58 ? GREEK_VARIANTS[offset - 51]
+      : undefined;
+    if (latex) return variant ? { latex, variant } : { latex };
+  }
+
+  const symbol = SYMBOLS[code];
+  if (symbol !== undefined) return { latex: symbol };
+
+  const char = String.fromCodePoint(code);
+  if (char === '\\') return { latex: '\\backslash' };
+  return { latex: ESCAPED.test(char) ? `\\${char}` : char };
+}
+
+/**
+ * Delimiters, with the glyph pieces MathJax assembles stretched ones from
+ */
+export function delimiterLatex(code: number): string | undefined {
+  if (code >= 0x239b && code <= 0x239d) return '(';
+  if (code >= 0x239e && code <= 0x23a0) return ')';
+  if (code >= 0x23a1 && code <= 0x23a3) return '[';
+  if (code >= 0x23a4 && code <= 0x23a6) return ']';
+  if ((code >= 0x23a7 && code <= 0x23aa) || code === 0x23b0) return '\\{';
+  if ((code >= 0x23ab && code <= 0x23ad) || code === 0x23b1) return '\\}';
+  if (code === 0x2223 || code === 0x7c || code === 0x2758) return '|';
+  if (code === 0x2225) return '\\Vert';
+
+  const latex = characterLatex(code).latex;
+  return /^([()[\]/]|\\[{}]|\\(langle|rangle|lfloor|rfloor|lceil|rceil|Vert|uparrow|downarrow|backslash))$/.test(latex)
+    ? latex
+    : undefined;
+}
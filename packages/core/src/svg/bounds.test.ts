@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateSVG } from '../renderer/generator';
+import { inkBounds, type BoundsMode, type Bounds } from './bounds';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+const render = (latex: string, bounds: BoundsMode) => {
+  const { svg, errors } = generateSVG({
+    equations: [{ latex, displayMode: 'block' }],
+    options: { embedMetadata: false, bounds },
+  });
+  expect(errors).toEqual([]);
+  return svg;
+};
+
+function viewBoxOf(svg: string): Bounds {
+  const [minX = 0, minY = 0, width = 0, height = 0] = (svg.match(/viewBox="([^"]+)"/)?.[1] ?? '').split(' ').map(parseFloat);
+  return { minX, minY, maxX: minX + width, maxY: minY + height };
+}
+
+describe('inkBounds', () => {
+  // Equations whose accents, fractions, descenders or tags used to be clipped
+  const clipped = [
+    '\\hat{\\dfrac{a}{b}}',
+    '\\widehat{\\frac{\\int_0^1 f}{2}}',
+    'g_y',
+    'x = 1 \\tag{1}',
+    '\\widehat{\\frac{\\int_0^1 f}{2}} \\tag{2}',
+  ];
+  it.each(clipped.flatMap((latex) => (['tex', 'ink', 'union'] as const).map((bounds) => [latex, bounds] as const)))(
+    'keeps the ink of %s inside the viewBox in %s mode',
+    (latex, bounds) => {
+      const svg = render(latex, bounds);
+      const ink = inkBounds(svg);
+      const viewBox = viewBoxOf(svg);
+      expect(ink).toBeDefined();
+      expect(ink!.minX).toBeGreaterThanOrEqual(viewBox.minX - 1e-6);
+      expect(ink!.minY).toBeGreaterThanOrEqual(viewBox.minY - 1e-6);
+      expect(ink!.maxX).toBeLessThanOrEqual(viewBox.maxX + 1e-6);
+      expect(ink!.maxY).toBeLessThanOrEqual(viewBox.maxY + 1e-6);
+    }
+  );
+
+  it('crops ink exports to the drawn glyphs', () => {
+    const svg = render('\\hat{\\dfrac{a}{b}}', 'ink');
+    const ink = inkBounds(svg)!;
+    const viewBox = viewBoxOf(svg);
+    expect(ink.maxX - ink.minX).toBeCloseTo(viewBox.maxX - viewBox.minX, 1);
+    expect(ink.maxY - ink.minY).toBeCloseTo(viewBox.maxY - viewBox.minY, 1);
+  });
+
+  it('sizes nested svgs without a size, or sized in percent, by the parent viewport', () => {
+    const svg = '<svg viewBox="0 0 200 100"><svg width="50%" y="10" height="80">'
+      + '<svg preserveAspectRatio="xMaxYMid" viewBox="0 0 1 10"><rect width="1" height="10"/></svg>'
+      + '</svg></svg>';
+    // The 1x10 viewBox is scaled by 8 into the 100x80 viewport and pushed to its right edge
+    expect(inkBounds(svg)).toEqual({ minX: 92, minY: 10, maxX: 100, maxY: 90 });
+  });
+
+  it('skips empty text but not text it cannot measure', () => {
+    expect(inkBounds('<svg viewBox="0 0 10 10"><text x="1"></text><rect width="4" height="2"/></svg>'))
+      .toEqual({ minX: 0, minY: 0, maxX: 4, maxY: 2 });
+    expect(inkBounds('<svg viewBox="0 0 10 10"><text>x</text></svg>')).toBeUndefined();
+    expect(inkBounds('<svg viewBox="0 0 10 10"><svg width="2ex" height="1ex"><rect width="1" height="1"/></svg></svg>'))
+      .toBeUndefined();
+  });
+});
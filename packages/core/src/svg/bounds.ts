@@ -0,0 +1,504 @@
+import { readXmlElements, xmlAttribute, type XmlElement } from '../metadata/xml';
+
+/**
+ * Axis-aligned box in SVG user units
+ */
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Box an equation is cropped to
+ * - tex: the box of the TeX metrics MathJax lays out with (ink may overflow it)
+ * - ink: exactly the drawn glyphs and rules
+ * - union: the TeX box grown to the ink, so nothing is clipped and spacing is kept
+ * Padding is added around whichever box is used. Tagged equations keep their full-width layout
+ * in every mode, grown to the ink
+ */
+export type BoundsMode = 'tex' | 'ink' | 'union';
+
+// Affine transform [a b c d e f], as in SVG matrix()
+type Matrix = [number, number, number, number, number, number];
+
+interface Paint {
+  matrix: Matrix;
+  fill: boolean;
+  stroke: boolean;
+  strokeWidth: number;
+  viewport: [number, number] | undefined;   // Size of the nearest svg viewport, for percentages
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Elements that draw nothing themselves
+const SKIPPED_ELEMENTS = new Set([
+  'defs', 'title', 'desc', 'metadata', 'style', 'script', 'clipPath', 'mask', 'marker', 'pattern',
+  'linearGradient', 'radialGradient', 'filter', 'symbol',
+]);
+
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function numbers(value: string | undefined): number[] {
+  return (value?.match(NUMBER) ?? []).map(parseFloat);
+}
+
+/**
+ * Parse an SVG transform list: matrix, translate, scale, rotate, skewX, skewY
+ */
+function parseTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of value?.matchAll(/(\w+)\s*\(([^)]*)\)/g) ?? []) {
+    const [a = 0, b, c] = numbers(args);
+    const angle = (a * Math.PI) / 180;
+    let next: Matrix | undefined;
+    switch (name) {
+      case 'matrix': {
+        const values = numbers(args);
+        if (values.length === 6) next = values as Matrix;
+        break;
+      }
+      case 'translate':
+        next = [1, 0, 0, 1, a, b ?? 0];
+        break;
+      case 'scale':
+        next = [a, 0, 0, b ?? a, 0, 0];
+        break;
+      case 'rotate': {
+        const rotation: Matrix = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+        next = b !== undefined && c !== undefined
+          ? multiply(multiply([1, 0, 0, 1, b, c], rotation), [1, 0, 0, 1, -b, -c])
+          : rotation;
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(angle), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(angle), 0, 1, 0, 0];
+        break;
+    }
+    if (next) matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+/**
+ * Collects points in output coordinates, grown by the stroke of the shape being measured
+ */
+class BoundsBuilder {
+  bounds: Bounds | undefined;
+  private margin = 0;
+
+  begin(paint: Paint): void {
+    const [a, b, c, d] = paint.matrix;
+    this.margin = paint.stroke ? (paint.strokeWidth / 2) * Math.sqrt(Math.abs(a * d - b * c)) : 0;
+  }
+
+  add(x: number, y: number): void {
+    const box = this.bounds;
+    if (!box) {
+      this.bounds = { minX: x - this.margin, minY: y - this.margin, maxX: x + this.margin, maxY: y + this.margin };
+      return;
+    }
+    box.minX = Math.min(box.minX, x - this.margin);
+    box.minY = Math.min(box.minY, y - this.margin);
+    box.maxX = Math.max(box.maxX, x + this.margin);
+    box.maxY = Math.max(box.maxY, y + this.margin);
+  }
+}
+
+/**
+ * Coordinate of a quadratic or cubic Bézier at `t`, along one axis
+ */
+function bezierAt(p: number[], t: number): number {
+  const s = 1 - t;
+  const [p0 = 0, p1 = 0, p2 = 0, p3 = 0] = p;
+  return p.length === 3
+    ? s * s * p0 + 2 * s * t * p1 + t * t * p2
+    : s * s * s * p0 + 3 * s * s * t * p1 + 3 * s * t * t * p2 + t * t * t * p3;
+}
+
+/**
+ * Parameters in (0, 1) where a quadratic or cubic Bézier turns along one axis
+ */
+function bezierExtremes(p: number[]): number[] {
+  const [p0 = 0, p1 = 0, p2 = 0, p3 = 0] = p;
+  if (p.length === 3) {
+    const denominator = p0 - 2 * p1 + p2;
+    return denominator !== 0 ? [(p0 - p1) / denominator] : [];
+  }
+
+  // Roots of the derivative a t^2 + b t + c (divided by 3)
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  if (Math.abs(a) < 1e-12) return b !== 0 ? [-c / b] : [];
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  return [(-b + Math.sqrt(discriminant)) / (2 * a), (-b - Math.sqrt(discriminant)) / (2 * a)];
+}
+
+/**
+ * Add a quadratic or cubic Bézier (control points already transformed) with its extremes
+ * Curves are affine invariant, so transforming the control points first keeps the bounds exact
+ */
+function addCurve(builder: BoundsBuilder, points: [number, number][]): void {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const t = [...bezierExtremes(xs), ...bezierExtremes(ys)].filter((value) => value > 0 && value < 1);
+  for (const value of [...t, 1]) {
+    builder.add(bezierAt(xs, value), bezierAt(ys, value));
+  }
+}
+
+/**
+ * Points along an elliptical arc (SVG endpoint parameterization), enough for its extremes
+ */
+function arcPoints(
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): [number, number][] {
+  if (rx === 0 || ry === 0) return [[x2, y2]];
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small for the endpoints are scaled up
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1p) / ry;
+  const cyp = (-factor * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number) => Math.atan2(uy, ux);
+  const start = angle((x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((-x1p - cxp) / rx, (-y1p - cyp) / ry) - start;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+  const points: [number, number][] = [];
+  const steps = 32;
+  for (let i = 1; i <= steps; i++) {
+    const theta = start + (delta * i) / steps;
+    points.push([
+      cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+    ]);
+  }
+  return points;
+}
+
+/**
+ * Add the outline of path data
+ */
+function addPath(builder: BoundsBuilder, d: string, m: Matrix): void {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const point = (x: number, y: number) => transformPoint(m, x, y);
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let control: [number, number] | undefined;   // Last control point, for S and T
+  let command = '';
+  let index = 0;
+
+  const next = () => parseFloat(tokens[index++] ?? '0');
+
+  while (index < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[index]!)) {
+      command = tokens[index++]!;
+      if (command === 'Z' || command === 'z') {
+        x = startX;
+        y = startY;
+        control = undefined;
+        continue;
+      }
+    } else if (!command || command === 'Z' || command === 'z') {
+      index++;
+      continue;
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const previousControl = control;
+    control = undefined;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        x = ox + next();
+        y = oy + next();
+        startX = x;
+        startY = y;
+        builder.add(...point(x, y));
+        // Further coordinate pairs are line segments
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        x = ox + next();
+        y = oy + next();
+        builder.add(...point(x, y));
+        break;
+      case 'H':
+        x = ox + next();
+        builder.add(...point(x, y));
+        break;
+      case 'V':
+        y = oy + next();
+        builder.add(...point(x, y));
+        break;
+      case 'C':
+      case 'S': {
+        const c1: [number, number] = command.toUpperCase() === 'C'
+          ? [ox + next(), oy + next()]
+          : previousControl ? [2 * x - previousControl[0], 2 * y - previousControl[1]] : [x, y];
+        const c2: [number, number] = [ox + next(), oy + next()];
+        const start: [number, number] = [x, y];
+        x = ox + next();
+        y = oy + next();
+        addCurve(builder, [point(...start), point(...c1), point(...c2), point(x, y)]);
+        control = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c: [number, number] = command.toUpperCase() === 'Q'
+          ? [ox + next(), oy + next()]
+          : previousControl ? [2 * x - previousControl[0], 2 * y - previousControl[1]] : [x, y];
+        const start: [number, number] = [x, y];
+        x = ox + next();
+        y = oy + next();
+        addCurve(builder, [point(...start), point(...c), point(x, y)]);
+        control = c;
+        break;
+      }
+      case 'A': {
+        const [rx, ry, rotation, largeArc, sweep] = [next(), next(), next(), next(), next()];
+        const [x1, y1] = [x, y];
+        x = ox + next();
+        y = oy + next();
+        for (const [px, py] of arcPoints(x1, y1, rx, ry, rotation, largeArc !== 0, sweep !== 0, x, y)) {
+          builder.add(...point(px, py));
+        }
+        break;
+      }
+      default:
+        index++;
+    }
+  }
+}
+
+function attributeNumber(element: XmlElement, name: string): number {
+  return parseFloat(xmlAttribute(element, name) ?? '0') || 0;
+}
+
+/**
+ * Paint of an element from its attributes and the paint it inherits
+ */
+function elementPaint(element: XmlElement, inherited: Paint): Paint {
+  const style = Object.fromEntries(
+    (xmlAttribute(element, 'style') ?? '').split(';').map((rule) => rule.split(':').map((part) => part.trim()))
+  ) as Record<string, string | undefined>;
+  const property = (name: string) => style[name] ?? xmlAttribute(element, name);
+
+  const fill = property('fill');
+  const stroke = property('stroke');
+  const strokeWidth = property('stroke-width');
+  return {
+    matrix: multiply(inherited.matrix, parseTransform(xmlAttribute(element, 'transform'))),
+    fill: fill === undefined ? inherited.fill : fill !== 'none',
+    stroke: stroke === undefined ? inherited.stroke : stroke !== 'none',
+    strokeWidth: strokeWidth === undefined ? inherited.strokeWidth : parseFloat(strokeWidth) || 0,
+    viewport: inherited.viewport,
+  };
+}
+
+/**
+ * Add an element and its children; false when something's extent can't be computed (text, images)
+ */
+function addElement(builder: BoundsBuilder, element: XmlElement, inherited: Paint): boolean {
+  const name = element.localName;
+  if (SKIPPED_ELEMENTS.has(name) || xmlAttribute(element, 'display') === 'none') return true;
+  if (xmlAttribute(element, 'data-hitbox') !== undefined) return true;
+
+  const paint = elementPaint(element, inherited);
+  const m = paint.matrix;
+  const point = (x: number, y: number) => transformPoint(m, x, y);
+  const visible = paint.fill || (paint.stroke && paint.strokeWidth > 0);
+  builder.begin(paint);
+
+  switch (name) {
+    case 'g':
+    case 'a':
+    case 'switch':
+      return element.children.every((child) => addElement(builder, child, paint));
+    case 'path':
+      if (visible) addPath(builder, xmlAttribute(element, 'd') ?? '', m);
+      return true;
+    case 'rect': {
+      const [x, y] = [attributeNumber(element, 'x'), attributeNumber(element, 'y')];
+      const [width, height] = [attributeNumber(element, 'width'), attributeNumber(element, 'height')];
+      if (visible) {
+        for (const [px, py] of [[x, y], [x + width, y], [x, y + height], [x + width, y + height]] as const) {
+          builder.add(...point(px, py));
+        }
+      }
+      return true;
+    }
+    case 'line':
+      if (paint.stroke && paint.strokeWidth > 0) {
+        builder.add(...point(attributeNumber(element, 'x1'), attributeNumber(element, 'y1')));
+        builder.add(...point(attributeNumber(element, 'x2'), attributeNumber(element, 'y2')));
+      }
+      return true;
+    case 'circle':
+    case 'ellipse': {
+      const [cx, cy] = [attributeNumber(element, 'cx'), attributeNumber(element, 'cy')];
+      const rx = name === 'circle' ? attributeNumber(element, 'r') : attributeNumber(element, 'rx');
+      const ry = name === 'circle' ? rx : attributeNumber(element, 'ry');
+      if (visible) {
+        addPath(builder, `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}`, m);
+      }
+      return true;
+    }
+    case 'polygon':
+    case 'polyline': {
+      const values = numbers(xmlAttribute(element, 'points'));
+      if (visible) {
+        for (let i = 0; i + 1 < values.length; i += 2) builder.add(...point(values[i]!, values[i + 1]!));
+      }
+      return true;
+    }
+    case 'svg':
+      return addNestedSvg(builder, element, paint);
+    case 'text':
+      // Empty text draws nothing (MathJax aligns tags on one)
+      return !element.text?.trim();
+    default:
+      // text, image, use, foreignObject: sized by fonts or resources that aren't available here
+      return false;
+  }
+}
+
+/**
+ * Length of an svg's width or height in its parent's user units; percentages (and a missing
+ * value, which is 100%) are of the parent viewport. Undefined for font-relative units (ex, em)
+ */
+function viewportLength(value: string | undefined, size: number | undefined): number | undefined {
+  const match = (value ?? '100%').trim().match(/^(-?(?:\d+\.?\d*|\.\d+))(%|px)?$/);
+  if (!match) return undefined;
+  if (match[2] !== '%') return parseFloat(match[1]!);
+  return size !== undefined ? (parseFloat(match[1]!) / 100) * size : undefined;
+}
+
+/**
+ * Matrix mapping a viewBox into a viewport of the given size, following preserveAspectRatio
+ */
+function viewBoxMatrix(viewBox: number[], width: number, height: number, preserveAspectRatio: string | undefined): Matrix {
+  const [minX = 0, minY = 0, vbWidth = 1, vbHeight = 1] = viewBox;
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = (preserveAspectRatio ?? '').trim().split(/\s+/).filter(Boolean);
+  if (align === 'none') {
+    const [scaleX, scaleY] = [width / vbWidth, height / vbHeight];
+    return [scaleX, 0, 0, scaleY, -minX * scaleX, -minY * scaleY];
+  }
+
+  const scale = meetOrSlice === 'slice'
+    ? Math.max(width / vbWidth, height / vbHeight)
+    : Math.min(width / vbWidth, height / vbHeight);
+  const offset = (position: string | undefined, free: number) =>
+    position === 'Min' ? 0 : position === 'Max' ? free : free / 2;
+  const [, alignX, alignY] = align.match(/^x(Min|Mid|Max)Y(Min|Mid|Max)$/) ?? [];
+  const offsetX = offset(alignX, width - vbWidth * scale);
+  const offsetY = offset(alignY, height - vbHeight * scale);
+  return [scale, 0, 0, scale, offsetX - minX * scale, offsetY - minY * scale];
+}
+
+/**
+ * Add a nested svg; its size may be a percentage of the parent viewport (MathJax sizes the
+ * rows and labels of tagged equations that way), but not a font-relative length
+ */
+function addNestedSvg(builder: BoundsBuilder, element: XmlElement, paint: Paint): boolean {
+  const width = viewportLength(xmlAttribute(element, 'width'), paint.viewport?.[0]);
+  const height = viewportLength(xmlAttribute(element, 'height'), paint.viewport?.[1]);
+  if (width === undefined || height === undefined) return false;
+
+  const viewBox = numbers(xmlAttribute(element, 'viewBox'));
+  let matrix = multiply(paint.matrix, [1, 0, 0, 1, attributeNumber(element, 'x'), attributeNumber(element, 'y')]);
+  let viewport: [number, number] = [width, height];
+
+  if (viewBox.length === 4) {
+    if (!viewBox[2] || !viewBox[3]) return false;
+    matrix = multiply(matrix, viewBoxMatrix(viewBox, width, height, xmlAttribute(element, 'preserveAspectRatio')));
+    viewport = [viewBox[2], viewBox[3]];
+  }
+
+  return element.children.every((child) => addElement(builder, child, { ...paint, matrix, viewport }));
+}
+
+/**
+ * Ink box of an SVG, in the user units of its outermost svg element (the viewBox coordinates)
+ *
+ * Walks the paths, rules and shapes with their transforms, so accents and descenders that overflow
+ * MathJax's TeX box are included. Returns undefined when nothing is drawn or when the SVG contains
+ * elements whose extent depends on fonts or resources (text, images, nested SVGs sized in ex)
+ */
+export function inkBounds(svg: string): Bounds | undefined {
+  const root = readXmlElements(svg, ['text']).find((element) => element.localName === 'svg');
+  if (!root) return undefined;
+
+  const builder = new BoundsBuilder();
+  const viewBox = numbers(xmlAttribute(root, 'viewBox'));
+  const width = viewportLength(xmlAttribute(root, 'width'), undefined);
+  const height = viewportLength(xmlAttribute(root, 'height'), undefined);
+  const viewport: [number, number] | undefined = viewBox.length === 4
+    ? [viewBox[2]!, viewBox[3]!]
+    : width !== undefined && height !== undefined ? [width, height] : undefined;
+  const paint: Paint = { matrix: IDENTITY, fill: true, stroke: false, strokeWidth: 1, viewport };
+  const measurable = root.children.every((child) => addElement(builder, child, paint));
+  return measurable ? builder.bounds : undefined;
+}
+
+/**
+ * Smallest box containing both boxes
+ */
+export function unionBounds(a: Bounds, b: Bounds): Bounds {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
@@ -0,0 +1,42 @@
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ParsedEquation } from '../parser/types';
+import { equationFilename, exportAllSVGs } from './export';
+
+describe('equationFilename', () => {
+  it('names variants after the equation with a -name suffix', () => {
+    expect(equationFilename({ label: 'eq:energy', directives: {} })).toBe('eq_energy.svg');
+    expect(equationFilename({ label: 'eq:energy', directives: {} }, 'a')).toBe('eq_energy-a.svg');
+    expect(equationFilename({ label: 'eq1', directives: { filename: 'energy' } }, 'b')).toBe('energy-b.svg');
+  });
+});
+
+describe('exportAllSVGs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('writes each section into its own folder', async () => {
+    // The ZIP is downloaded through a link, which needs a browser
+    vi.stubGlobal('document', { createElement: () => ({ click: () => {} }) });
+    vi.stubGlobal('URL', { createObjectURL: () => 'blob:', revokeObjectURL: () => {} });
+    vi.spyOn(JSZip.prototype, 'generateAsync').mockResolvedValue(new Blob());
+    const file = vi.spyOn(JSZip.prototype, 'file');
+
+    const equation = (id: string, label: string, section?: string): ParsedEquation => ({
+      id, label, latex: 'x', source: 'x', startLine: 0, endLine: 0, directives: {}, ...(section ? { section } : {}),
+    });
+    await exportAllSVGs(
+      [equation('1', 'eq1'), equation('2', 'eq2', 'lecture-3'), equation('3', 'eq3', 'lecture-3/examples')],
+      { 1: '<svg/>', 2: '<svg/>', 3: '<svg/>' },
+      { 3: { a: '<svg/>' } }
+    );
+    expect(file.mock.calls.map(([name]) => name)).toEqual([
+      'eq1.svg',
+      'lecture-3/eq2.svg',
+      'lecture-3/examples/eq3.svg',
+      'lecture-3/examples/eq3-a.svg',
+    ]);
+  });
+});
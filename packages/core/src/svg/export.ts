@@ -1,18 +1,46 @@
 import JSZip from 'jszip';
-import { ParsedEquation } from '../parser/types';
+import { ParsedEquation, DocumentTheme } from '../parser/types';
+import { applySvgTheme, hasColorTheme } from './theme';
 
+/**
+ * Export filename for an equation: the % filename: directive, or the sanitized label
+ * Highlight variants get a -name suffix: label-a.svg
+ */
+export function equationFilename(equation: Pick<ParsedEquation, 'label' | 'directives'>, variant?: string): string {
+  const name = (equation.directives.filename ?? equation.label) + (variant ? `-${variant}` : '');
+  return `${name.replace(/[^a-zA-Z0-9-_]/g, '_')}.svg`;
+}
+
+/**
+ * Export rendered equations as a ZIP, with each document section in its own folder
+ * (section IDs are slug paths such as lecture-3/examples)
+ * With theme.output: files, theme-aware SVGs are split into name.svg and name-dark.svg
+ */
 export async function exportAllSVGs(
   equations: ParsedEquation[],
-  renderedSvgs: Record<string, string>
+  renderedSvgs: Record<string, string>,
+  renderedVariantSvgs: Record<string, Record<string, string>> = {},
+  theme?: DocumentTheme
 ): Promise<void> {
   const zip = new JSZip();
 
+  const addFile = (filename: string, svg: string) => {
+    if (theme?.output === 'files' && hasColorTheme(svg)) {
+      zip.file(filename, applySvgTheme(svg, 'light'));
+      zip.file(filename.replace(/\.svg$/, '-dark.svg'), applySvgTheme(svg, 'dark'));
+    } else {
+      zip.file(filename, svg);
+    }
+  };
+
   for (const eq of equations) {
+    const folder = eq.section ? `${eq.section}/` : '';
     const svg = renderedSvgs[eq.id];
     if (svg) {
-      // Sanitize label for filename
-      const filename = `${eq.label.replace(/[^a-zA-Z0-9-_]/g, '_')}.svg`;
-      zip.file(filename, svg);
+      addFile(folder + equationFilename(eq), svg);
+    }
+    for (const [variant, variantSvg] of Object.entries(renderedVariantSvgs[eq.id] ?? {})) {
+      addFile(folder + equationFilename(eq, variant), variantSvg);
     }
   }
 
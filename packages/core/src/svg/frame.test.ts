@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseDocumentWithFrontmatter } from '../parser/document';
+import { generateSVG } from '../renderer/generator';
+import { frameMarkup, frameOutset } from './frame';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+const border = { width: 2, color: '#cccccc' };
+const shadow = { offsetX: 1, offsetY: 3, blur: 4, color: '#00000040' };
+
+describe('frameOutset', () => {
+  it('is empty without a border or shadow', () => {
+    expect(frameOutset({ backgroundColor: '#ffffff' })).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+  });
+
+  it('makes room for half the border and the blur in the direction of the shadow offset', () => {
+    expect(frameOutset({ border, shadow })).toEqual({ top: 1, right: 5, bottom: 7, left: 3 });
+  });
+});
+
+describe('frameMarkup', () => {
+  it('draws nothing without a visible background, border or shadow', () => {
+    expect(frameMarkup('eq', 10, 20, 4, {})).toBe('');
+    expect(frameMarkup('eq', 10, 20, 4, {
+      border: { width: 0, color: '#000000' },
+      shadow: { offsetX: 0, offsetY: 0, blur: 0, color: '#00000000' },
+    })).toBe('');
+  });
+
+  it('covers the equation and its padding with a rounded background', () => {
+    expect(frameMarkup('eq', 10, 20, 4, { backgroundColor: '#ffffff', cornerRadius: 6 }))
+      .toBe('\n    <rect x="-4" y="-4" width="18" height="28" rx="6" fill="#ffffff"/>');
+  });
+
+  it('strokes the border of a transparent frame', () => {
+    expect(frameMarkup('eq', 10, 20, 0, { border })).toContain('fill="none" stroke="#cccccc" stroke-width="2"/>');
+  });
+
+  it('draws the shadow with a filter, splitting the alpha of its color', () => {
+    const markup = frameMarkup('eq', 10, 20, 0, { shadow });
+    expect(markup).toContain('<filter id="eq-shadow"');
+    expect(markup).toContain('<feGaussianBlur in="SourceAlpha" stdDeviation="2"/>');
+    expect(markup).toContain('<feOffset dx="1" dy="3" result="offset"/>');
+    expect(markup).toContain('<feFlood flood-color="#000000" flood-opacity="0.251"/>');
+    expect(markup).toContain('filter="url(#eq-shadow)"');
+  });
+});
+
+describe('frame frontmatter and directives', () => {
+  it('reads frame defaults from the frontmatter, presets included', () => {
+    const { frontmatter, diagnostics } = parseDocumentWithFrontmatter([
+      'background: $box',
+      'define.box: #eeeeee',
+      'padding: 4px',
+      'radius: 6',
+      'border: 1px',
+      'shadow: 0 2 4 #00000040',
+      '',
+      '---',
+      '',
+      'x',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(frontmatter.frame).toEqual({
+      background: '#eeeeee',
+      padding: 4,
+      radius: 6,
+      border: { width: 1, color: '#000000' },
+      shadow: { offsetX: 0, offsetY: 2, blur: 4, color: '#00000040' },
+    });
+  });
+
+  it('overrides the defaults per equation, none included', () => {
+    const { equations, diagnostics } = parseDocumentWithFrontmatter([
+      'border: 1px #cccccc',
+      'shadow: 0 2 4',
+      '',
+      '---',
+      '',
+      'x',
+      '% border: none',
+      '% shadow: -1 1.5 red',
+      '% radius: 2.5px',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(equations[0].directives).toEqual({
+      border: { width: 0, color: '#000000' },
+      shadow: { offsetX: -1, offsetY: 1.5, blur: 0, color: '#ff0000' },
+      radius: 2.5,
+    });
+  });
+
+  it('reports invalid frame values and leaves them out', () => {
+    const { frontmatter, equations, diagnostics } = parseDocumentWithFrontmatter([
+      'padding: -1',
+      'border: 1px $missing',
+      '',
+      '---',
+      '',
+      'x',
+      '% shadow: big',
+    ].join('\n'));
+    expect(frontmatter.frame).toBeUndefined();
+    expect(equations[0].directives).toEqual({});
+    expect(diagnostics.map(({ code, message }) => ({ code, message }))).toEqual([
+      { code: 'invalid-frame', message: 'Invalid padding "-1" (expected a number of pixels)' },
+      { code: 'invalid-frame', message: 'Invalid border "1px $missing" (expected a width and color, e.g. 1px #cccccc, or none)' },
+      {
+        code: 'invalid-directive',
+        message: 'Invalid shadow "big" (expected x and y offsets, blur and color, e.g. 0 2 4 #00000040, or none)',
+      },
+    ]);
+  });
+});
+
+describe('framed SVG output', () => {
+  it('draws the frame behind the equation and grows the SVG by the outset', () => {
+    const render = (options = {}) => generateSVG({
+      equations: [{ latex: 'x', displayMode: 'block', backgroundColor: '#ffffff', padding: 4 }],
+      options: { embedMetadata: false, ...options },
+    });
+    const plain = render();
+    const framed = render({ border, shadow });
+    expect(framed.errors).toEqual([]);
+    expect(plain.svg).toContain('fill="#ffffff"/>');
+    expect(framed.svg).toContain('fill="#ffffff" stroke="#cccccc" stroke-width="2" filter="url(#');
+
+    // The equation moves right and down by the left and top outset plus its padding
+    const size = (svg: string) => svg.match(/viewBox="0 0 ([\d.]+) ([\d.]+)"/)!.slice(1).map(parseFloat);
+    const [plainWidth = 0, plainHeight = 0] = size(plain.svg);
+    const [framedWidth = 0, framedHeight = 0] = size(framed.svg);
+    expect(framedWidth - plainWidth).toBeCloseTo(3 + 5);
+    expect(framedHeight - plainHeight).toBeCloseTo(1 + 7);
+    expect(framed.svg).toContain('transform="translate(7, 5)"');
+  });
+});
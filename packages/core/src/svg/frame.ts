@@ -0,0 +1,58 @@
+import { escapeXmlAttribute } from '../metadata/xml';
+import type { SVGMetadataEquation } from '../metadata/schema';
+
+/**
+ * Background, corners, border and shadow drawn behind an equation
+ */
+export type FrameOptions = Pick<SVGMetadataEquation, 'backgroundColor' | 'cornerRadius' | 'border' | 'shadow'>;
+
+/**
+ * Space the border and drop shadow take up outside an equation's background
+ */
+export function frameOutset({ border, shadow }: FrameOptions): { top: number; right: number; bottom: number; left: number } {
+  const stroke = border ? border.width / 2 : 0;
+  const blur = shadow?.blur ?? 0;
+  return {
+    top: Math.max(stroke, blur - (shadow?.offsetY ?? 0)),
+    right: Math.max(stroke, blur + (shadow?.offsetX ?? 0)),
+    bottom: Math.max(stroke, blur + (shadow?.offsetY ?? 0)),
+    left: Math.max(stroke, blur - (shadow?.offsetX ?? 0)),
+  };
+}
+
+/**
+ * Background rect covering an equation and its padding, with rounded corners, border and drop shadow
+ * The shadow is built from SVG 1.1 filter primitives, which Keynote and Illustrator support unlike feDropShadow
+ */
+export function frameMarkup(id: string, width: number, height: number, padding: number, frame: FrameOptions): string {
+  const border = frame.border && frame.border.width > 0 ? frame.border : undefined;
+  const shadow = frame.shadow && (frame.shadow.offsetX || frame.shadow.offsetY || frame.shadow.blur) ? frame.shadow : undefined;
+  if (!frame.backgroundColor && !border && !shadow) return '';
+
+  // flood-color takes no alpha, so #RRGGBBAA is split like fill colors (see splitColorOpacity)
+  const shadowColor = shadow && /^#[0-9a-fA-F]{8}$/.test(shadow.color)
+    ? `${shadow.color.substring(0, 7)}" flood-opacity="${Math.round((parseInt(shadow.color.substring(7), 16) / 255) * 1000) / 1000}`
+    : shadow && escapeXmlAttribute(shadow.color);
+  const filter = shadow
+    ? `
+    <defs>
+      <filter id="${id}-shadow" x="-50%" y="-50%" width="200%" height="200%">
+        <feGaussianBlur in="SourceAlpha" stdDeviation="${shadow.blur / 2}"/>
+        <feOffset dx="${shadow.offsetX}" dy="${shadow.offsetY}" result="offset"/>
+        <feFlood flood-color="${shadowColor}"/>
+        <feComposite in2="offset" operator="in"/>
+        <feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge>
+      </filter>
+    </defs>`
+    : '';
+
+  const attributes = [
+    `x="${-padding}" y="${-padding}" width="${width + 2 * padding}" height="${height + 2 * padding}"`,
+    frame.cornerRadius ? `rx="${frame.cornerRadius}"` : '',
+    `fill="${frame.backgroundColor ? escapeXmlAttribute(frame.backgroundColor) : 'none'}"`,
+    border ? `stroke="${escapeXmlAttribute(border.color)}" stroke-width="${border.width}"` : '',
+    shadow ? `filter="url(#${id}-shadow)"` : '',
+  ];
+  return `${filter}
+    <rect ${attributes.filter(Boolean).join(' ')}/>`;
+}
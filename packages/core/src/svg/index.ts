@@ -1,2 +1,8 @@
 export * from './parser';
 export * from './export';
+export * from './theme';
+export * from './legend';
+export * from './adapters';
+export * from './bounds';
+export * from './frame';
+export * from './layout';
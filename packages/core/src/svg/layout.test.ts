@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateSVG } from '../renderer/generator';
+import { layoutCells, relationOffset } from './layout';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+describe('layoutCells', () => {
+  const wide = { width: 10, height: 4 };
+  const narrow = { width: 6, height: 2 };
+
+  it('stacks cells in a left-aligned column by default', () => {
+    expect(layoutCells([wide, narrow])).toEqual({ positions: [{ x: 0, y: 0 }, { x: 0, y: 4 }], width: 10, height: 6 });
+  });
+
+  it.each([
+    ['left', 2],
+    ['center', 4],
+    ['right', 6],
+  ] as const)('places cells %s in their column, inside gap and padding', (align, x) => {
+    expect(layoutCells([wide, narrow], { align, gap: 1, padding: 2 })).toEqual({
+      positions: [{ x: 2, y: 2 }, { x, y: 7 }],
+      width: 14,
+      height: 11,
+    });
+  });
+
+  it('lines up relation symbols and centers cells without one', () => {
+    const cells = [{ width: 8, height: 4, relation: 3 }, { width: 4, height: 2, relation: 1 }, narrow];
+    expect(layoutCells(cells, { align: 'relation' })).toEqual({
+      positions: [{ x: 0, y: 0 }, { x: 2, y: 4 }, { x: 1, y: 6 }],
+      width: 8,
+      height: 8,
+    });
+  });
+
+  it('widens the column when relations sit at different ends of their cells', () => {
+    const cells = [{ width: 8, height: 2, relation: 1 }, { width: 8, height: 2, relation: 7 }];
+    expect(layoutCells(cells, { align: 'relation' })).toEqual({
+      positions: [{ x: 6, y: 0 }, { x: 0, y: 2 }],
+      width: 14,
+      height: 4,
+    });
+  });
+
+  it('ignores relation offsets with other alignments', () => {
+    const cells = [{ width: 8, height: 2, relation: 1 }, { width: 8, height: 2, relation: 7 }];
+    expect(layoutCells(cells).positions).toEqual([{ x: 0, y: 0 }, { x: 0, y: 2 }]);
+  });
+
+  it('puts horizontal cells on a shared baseline', () => {
+    const cells = [{ width: 10, height: 4, baseline: 3 }, { width: 6, height: 2, baseline: 1 }];
+    expect(layoutCells(cells, { direction: 'horizontal', gap: 1 })).toEqual({
+      positions: [{ x: 0, y: 0 }, { x: 11, y: 2 }],
+      width: 17,
+      height: 4,
+    });
+  });
+
+  const gridCells = [
+    { width: 2, height: 2 },
+    { width: 4, height: 1 },
+    { width: 1, height: 3 },
+    { width: 3, height: 3 },
+    { width: 2, height: 1 },
+  ];
+
+  it('sizes grid columns and rows by their own cells', () => {
+    expect(layoutCells(gridCells, { direction: 'grid', columns: 2 })).toEqual({
+      positions: [{ x: 0, y: 0 }, { x: 2, y: 1 }, { x: 0, y: 2 }, { x: 2, y: 2 }, { x: 0, y: 5 }],
+      width: 6,
+      height: 6,
+    });
+  });
+
+  it('gives every cell the size of the largest with uniformSize', () => {
+    // 5 cells make a grid of 3 columns by default
+    expect(layoutCells(gridCells, { direction: 'grid', uniformSize: true })).toEqual({
+      positions: [{ x: 0, y: 1 }, { x: 4, y: 2 }, { x: 8, y: 0 }, { x: 0, y: 3 }, { x: 4, y: 5 }],
+      width: 12,
+      height: 6,
+    });
+  });
+
+  it('is empty without cells', () => {
+    expect(layoutCells([], { padding: 2 })).toEqual({ positions: [], width: 4, height: 4 });
+  });
+});
+
+describe('relationOffset', () => {
+  it('finds the first top-level relation of MathJax output', () => {
+    const svg = '<svg><g data-mml-node="math"><g data-mml-node="mi"><path data-c="1D465"/></g>'
+      + '<g data-mml-node="mo" transform="translate(849.8, 0)"><path data-c="2264"/></g></g></svg>';
+    expect(relationOffset(svg)).toBe(849.8);
+  });
+
+  it('skips relations nested in groups and other operators', () => {
+    const svg = '<svg><g data-mml-node="math"><g data-mml-node="mo" transform="translate(0,0)"><path data-c="2B"/></g>'
+      + '<g data-mml-node="mrow"><g data-mml-node="mo" transform="translate(500,0)"><path data-c="3D"/></g></g></g></svg>';
+    expect(relationOffset(svg)).toBeUndefined();
+  });
+
+  it('lines up the equals signs of rendered equations', () => {
+    const { svg, errors } = generateSVG({
+      equations: [
+        { latex: 'x = 1', displayMode: 'block' },
+        { latex: 'x + y + z = 2', displayMode: 'block' },
+      ],
+      options: { embedMetadata: false, layout: { align: 'relation' } },
+    });
+    expect(errors).toEqual([]);
+
+    // Left edge of each equals sign, in the coordinates of the whole SVG
+    const equalsX = [...svg.matchAll(/transform="translate\(([\d.]+), [\d.]+\)"[^>]*>\s*<svg viewBox="([-\d.]+) [-\d.]+ ([\d.]+) [\d.]+" width="([\d.]+)"[\s\S]*?data-mml-node="mo" transform="translate\(([\d.]+),0\)"><path data-c="3D"/g)]
+      .map(([, x, minX, viewWidth, width, offset]) =>
+        parseFloat(x) + (parseFloat(offset) - parseFloat(minX)) * parseFloat(width) / parseFloat(viewWidth));
+    expect(equalsX).toHaveLength(2);
+    expect(equalsX[0]).toBeCloseTo(equalsX[1], 1);
+  });
+});
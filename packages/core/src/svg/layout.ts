@@ -0,0 +1,135 @@
+import { readXmlElements, xmlAttribute, type XmlElement } from '../metadata/xml';
+
+/**
+ * How several equations are arranged in one SVG
+ */
+export interface LayoutOptions {
+  direction?: 'vertical' | 'horizontal' | 'grid';   // Default vertical
+  align?: 'left' | 'center' | 'right' | 'relation';  // Placement in a column; relation lines up the first =, <, \le, ...
+  gap?: number;           // Space between equations (default 0)
+  padding?: number;       // Space around all equations (default 0)
+  columns?: number;       // Columns of a grid, default the square root of the equation count rounded up
+  uniformSize?: boolean;  // Make every cell as large as the largest equation
+}
+
+/**
+ * An equation to place, with its own padding included
+ */
+export interface LayoutCell {
+  width: number;
+  height: number;
+  baseline?: number;      // Distance from the top to the baseline, default the height
+  relation?: number;      // Distance from the left to the first relation symbol, for align: relation
+}
+
+/**
+ * Positions of the cells, in order, and the size of the whole layout
+ */
+export interface Layout {
+  positions: { x: number; y: number }[];   // Top left corner of each cell
+  width: number;
+  height: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Relation symbols (data-c code points of MathJax output) that align: relation lines up
+const RELATION_CODES = new Set([
+  '3D', '3C', '3E', '2264', '2265', '2A7D', '2A7E', '2260', '2248', '2261', '223C', '2243', '2245', '2250',
+  '2254', '225C', '221D', '226A', '226B', '227A', '227B', '2208', '2209', '220B', '2282', '2283', '2286',
+  '2287', '2223', '2225', '22A5', '22A2', '22A8', '2192', '2190', '2194', '21D2', '21D0', '21D4', '27F6',
+  '27F5', '27F7', '27F9', '27F8', '27FA', '21A6',
+]);
+
+function firstCharacter(element: XmlElement): string | undefined {
+  const code = xmlAttribute(element, 'data-c');
+  if (code) return code.toUpperCase();
+  for (const child of element.children) {
+    const found = firstCharacter(child);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Horizontal position of the first top-level relation symbol in MathJax SVG output, in the user units
+ * of its outermost svg element (1/1000em); undefined when the equation has none
+ *
+ * Relations nested in groups or fractions are not considered, as their position is not on the main line
+ */
+export function relationOffset(svg: string): number | undefined {
+  const math = readXmlElements(svg).find((element) => xmlAttribute(element, 'data-mml-node') === 'math');
+  const relation = math?.children.find((child) =>
+    xmlAttribute(child, 'data-mml-node') === 'mo' && RELATION_CODES.has(firstCharacter(child) ?? '')
+  );
+  if (!relation) return undefined;
+
+  const translate = xmlAttribute(relation, 'transform')?.match(/translate\(\s*(-?[0-9.]+)/);
+  return translate?.[1] ? parseFloat(translate[1]) : 0;
+}
+
+/**
+ * Arrange cells in rows and columns
+ *
+ * Vertical is a single column, horizontal a single row. Cells in a row share a baseline; within a
+ * column they are placed according to `align`, and with align: relation cells without a relation
+ * symbol are centered
+ */
+export function layoutCells(cells: LayoutCell[], options: LayoutOptions = {}): Layout {
+  const gap = options.gap ?? 0;
+  const padding = options.padding ?? 0;
+  const align = options.align ?? 'left';
+  const columnCount = options.direction === 'horizontal' ? Math.max(cells.length, 1)
+    : options.direction === 'grid' ? Math.max(Math.round(options.columns ?? Math.ceil(Math.sqrt(cells.length))), 1)
+    : 1;
+  const rowCount = Math.ceil(cells.length / columnCount);
+
+  const columnOf = (index: number) => index % columnCount;
+  const rowOf = (index: number) => Math.floor(index / columnCount);
+  const baselineOf = (cell: LayoutCell) => cell.baseline ?? cell.height;
+
+  // Extent of each column left and right of the relation, and of each row above and below the baseline
+  const columns = Array.from({ length: columnCount }, () => ({ width: 0, left: 0, right: 0 }));
+  const rows = Array.from({ length: rowCount }, () => ({ above: 0, below: 0 }));
+  const extend = (index: number, cell: LayoutCell) => {
+    const column = columns[options.uniformSize ? 0 : columnOf(index)]!;
+    const row = rows[options.uniformSize ? 0 : rowOf(index)]!;
+    column.width = Math.max(column.width, cell.width);
+    if (align === 'relation' && cell.relation !== undefined) {
+      column.left = Math.max(column.left, cell.relation);
+      column.right = Math.max(column.right, cell.width - cell.relation);
+    }
+    row.above = Math.max(row.above, baselineOf(cell));
+    row.below = Math.max(row.below, cell.height - baselineOf(cell));
+  };
+  cells.forEach((cell, index) => extend(index, cell));
+  if (options.uniformSize) {
+    columns.fill(columns[0]!);
+    rows.fill(rows[0]!);
+  }
+
+  const columnWidths = columns.map((column) => Math.max(column.width, column.left + column.right));
+  const rowHeights = rows.map((row) => row.above + row.below);
+  const columnX = columnWidths.map((_, i) => padding + columnWidths.slice(0, i).reduce((sum, w) => sum + w + gap, 0));
+  const rowY = rowHeights.map((_, i) => padding + rowHeights.slice(0, i).reduce((sum, h) => sum + h + gap, 0));
+
+  const positions = cells.map((cell, index) => {
+    const column = columns[columnOf(index)]!;
+    const columnWidth = columnWidths[columnOf(index)]!;
+    const offset = align === 'right' ? columnWidth - cell.width
+      : align === 'center' ? (columnWidth - cell.width) / 2
+      : align === 'relation' ? (cell.relation !== undefined ? column.left - cell.relation : (columnWidth - cell.width) / 2)
+      : 0;
+    return {
+      x: round(columnX[columnOf(index)]! + offset),
+      y: round(rowY[rowOf(index)]! + rows[rowOf(index)]!.above - baselineOf(cell)),
+    };
+  });
+
+  const total = (sizes: number[]) => sizes.reduce((sum, size) => sum + size, 0) + gap * Math.max(sizes.length - 1, 0);
+  return {
+    positions,
+    width: round(total(columnWidths) + 2 * padding),
+    height: round(total(rowHeights) + 2 * padding),
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseDocumentWithFrontmatter } from '../parser/document';
+import { generateLegendSVG, legendEntries, legendLatex } from './legend';
+import { hasColorTheme } from './theme';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+const { frontmatter } = parseDocumentWithFrontmatter(`define.rate: #ff0000
+define.loss: #0000ff
+define.plain: #00ff00
+describe.loss: loss, 5% of $L$
+describe.rate: learning rate $\\eta$
+highlight.\\eta: $rate
+highlight.\\alpha: rate
+highlight./x_\\d/: $rate
+
+---
+
+x`);
+
+describe('legendEntries', () => {
+  it('lists described presets with their literal highlight symbols, in frontmatter order', () => {
+    expect(legendEntries(frontmatter)).toEqual([
+      { name: 'loss', color: '#0000ff', symbols: [], description: 'loss, 5% of $L$' },
+      { name: 'rate', color: '#ff0000', symbols: ['\\eta', '\\alpha'], description: 'learning rate $\\eta$' },
+    ]);
+  });
+
+  it('leaves out descriptions of undefined presets', () => {
+    expect(legendEntries({ descriptions: { missing: 'nothing' } })).toEqual([]);
+  });
+});
+
+describe('legendLatex', () => {
+  it('draws a swatch, the symbols and the description as text', () => {
+    const [loss, rate] = legendEntries(frontmatter);
+    expect(legendLatex(rate, frontmatter.colorPresets)).toBe(
+      '{\\color[RGB]{255,0,0}\\rule{0.8em}{0.8em}}\\quad {\\color[RGB]{255,0,0}\\eta,\\ \\alpha}' +
+      '\\quad \\text{learning rate $\\eta$}'
+    );
+    expect(legendLatex(loss, frontmatter.colorPresets)).toBe(
+      '{\\color[RGB]{0,0,255}\\rule{0.8em}{0.8em}}\\quad \\text{loss, 5\\% of $L$}'
+    );
+  });
+});
+
+describe('generateLegendSVG', () => {
+  it('renders one row per described preset', () => {
+    const { svg, errors } = generateLegendSVG(frontmatter, { embedMetadata: false });
+    expect(errors).toEqual([]);
+    expect([...svg.matchAll(/data-latex="[^"]*\\text\{([^}]*)\}"/g)].map((match) => match[1]))
+      .toEqual(['loss, 5\\% of $L$', 'learning rate $\\eta$']);
+    expect(svg).toContain('fill="#ff0000"');
+    expect(hasColorTheme(svg)).toBe(false);
+  });
+
+  it('follows the dark theme of the document', () => {
+    const themed = parseDocumentWithFrontmatter('define.rate: #ff0000\ndescribe.rate: rate\ntheme.dark.rate: #ff8888\n\n---\n\nx');
+    const { svg } = generateLegendSVG(themed.frontmatter, { embedMetadata: false });
+    expect(hasColorTheme(svg)).toBe(true);
+    expect(svg).toContain('[fill="#ff0000"] { fill: #ff8888;');
+  });
+});
@@ -0,0 +1,78 @@
+import { DocumentFrontmatter } from '../parser/types';
+import { toHexColor, toLatexRGB } from '../parser/colors';
+import { darkThemeColors } from '../parser/theme';
+import { generateSVG, type GenerateSVGResult, type RenderOptions } from '../renderer/generator';
+
+/**
+ * One row of a color legend: a described preset and the symbols highlighted with it
+ */
+export interface LegendEntry {
+  name: string;         // Preset name (define.name)
+  color: string;        // Resolved hex color
+  symbols: string[];    // Literal highlight.* tokens using the preset, e.g. \beta
+  description: string;  // describe.name
+}
+
+/**
+ * Legend rows for every described preset, in frontmatter order
+ * Regular expression highlight rules have no symbol to show and are left out
+ */
+export function legendEntries(frontmatter: DocumentFrontmatter): LegendEntry[] {
+  const presets = frontmatter.colorPresets ?? {};
+
+  return Object.entries(frontmatter.descriptions ?? {})
+    .filter(([name]) => presets[name])
+    .map(([name, description]) => ({
+      name,
+      color: toHexColor(name, presets),
+      symbols: (frontmatter.highlights ?? [])
+        .filter((rule) => !/^\/.+\/$/.test(rule.token) && rule.color.replace(/^\$/, '') === name)
+        .map((rule) => rule.token),
+      description,
+    }));
+}
+
+/**
+ * Escape characters that are rarely meant as LaTeX in a description (5% of, R&D)
+ * Descriptions are otherwise text-mode LaTeX, so $\eta$ renders as math
+ */
+function escapeText(text: string): string {
+  return text.replace(/(?<!\\)([%#&])/g, '\\$1');
+}
+
+/**
+ * LaTeX for a legend row: a color swatch, the highlighted symbols and the description
+ */
+export function legendLatex(entry: LegendEntry, presets?: Record<string, string>): string {
+  const color = `\\color${toLatexRGB(entry.name, presets)}`;
+  const swatch = `{${color}\\rule{0.8em}{0.8em}}`;
+  const symbols = entry.symbols.length > 0 ? `\\quad {${color}${entry.symbols.join(',\\ ')}}` : '';
+  return `${swatch}${symbols}\\quad \\text{${escapeText(entry.description)}}`;
+}
+
+/**
+ * Render a legend (notation table) SVG for the described presets of a document,
+ * one row per preset, with the same MathJax pipeline and definitions as the equations
+ * Follows the document's dark theme like the equations do
+ */
+export function generateLegendSVG(frontmatter: DocumentFrontmatter, options?: RenderOptions): GenerateSVGResult {
+  const darkColors = frontmatter.theme?.dark ? darkThemeColors(frontmatter) : undefined;
+
+  return generateSVG({
+    equations: legendEntries(frontmatter).map((entry) => ({
+      latex: legendLatex(entry, frontmatter.colorPresets),
+      displayMode: 'inline',
+      label: `legend-${entry.name}`,
+      padding: 4,
+      customData: { legend: entry.name },
+    })),
+    options: {
+      macros: frontmatter.macros,
+      environments: frontmatter.environments,
+      fontSize: frontmatter.fontSize,
+      color: frontmatter.color || (darkColors ? '#000000' : undefined),
+      darkColors,
+      ...options,
+    },
+  });
+}
@@ -1,97 +1,63 @@
-import type { RendererMetadata } from '../renderer/metadata';
-
-export interface ImportedEquation {
-  id: string;
-  latex: string;
-  label: string;
-}
+import { extractSvgMetadata, type SVGExtractionReport, type SVGMetadata } from '../metadata';
+import { importWithAdapters, type ImportedEquation } from './adapters';
+import { importedEquation } from './adapters/imported';
 
 export interface ParseSVGResult {
   hasMetadata: boolean;
-  metadata?: RendererMetadata;
+  metadata?: SVGMetadata;
+  format?: string;      // Tool the equations come from: mathedit, or an import adapter (LaTeXiT, TexText, MathJax)
+  approximate?: boolean; // Some equations were rebuilt from MathJax output and may differ from their source
   equations: ImportedEquation[];
+  report: SVGExtractionReport;
   errors: string[];
 }
 
 /**
  * Parse SVG content to extract LaTeX equations from metadata
+ * Metadata of older format versions is upgraded; invalid metadata is reported in `errors`
+ * and the equations are read from the data attributes instead
  * Works entirely client-side without backend
  */
 export function parseSvg(svgContent: string): ParseSVGResult {
-  const errors: string[] = [];
+  const { metadata, attributeEquations, modifiedSinceExport, report, errors } = extractSvgMetadata(svgContent);
   const equations: ImportedEquation[] = [];
 
-  try {
-    // Try to extract metadata block first
-    const metadataMatch = svgContent.match(
-      /<metadata[^>]*?id="latex-equations"[^>]*?>([\s\S]*?)<\/metadata>/
-    );
-
-    if (metadataMatch) {
-      const metadataContent = metadataMatch[1]?.trim();
-      if (metadataContent) {
-        try {
-          const metadata = JSON.parse(metadataContent) as RendererMetadata;
-          return {
-            hasMetadata: true,
-            metadata,
-            equations: metadata.equations.map((eq, index) => ({
-              id: eq.id,
-              latex: eq.latex,
-              label: eq.label || `imported${index + 1}`,
-            })),
-            errors: [],
-          };
-        } catch {
-          errors.push('Failed to parse metadata JSON');
-        }
-      }
-    }
-
-    // Fallback: try to extract from data attributes on groups
-    const groupMatches = svgContent.matchAll(
-      /<g[^>]*?data-role="latex-equation"[^>]*?>/g
-    );
-
-    for (const match of groupMatches) {
-      const groupTag = match[0];
-      const idMatch = groupTag.match(/data-equation-id="([^"]+)"/);
-      const latexMatch = groupTag.match(/data-latex="([^"]+)"/);
-
-      if (latexMatch) {
-        const latex = latexMatch[1]
-          ?.replace(/&quot;/g, '"')
-          .replace(/&amp;/g, '&')
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&apos;/g, "'") || '';
-
-        // Try to extract label from the latex itself
-        const labelMatch = latex.match(/\\label\{([\w:.-]+)\}/);
-        equations.push({
-          id: idMatch?.[1] || crypto.randomUUID(),
-          latex,
-          label: labelMatch?.[1] || `imported${equations.length + 1}`,
-        });
-      }
-    }
+  for (const eq of metadata?.equations ?? []) {
+    // Without the source, equations colored by highlight.* rules are restored without the rule colors
+    const baseLatex = eq.customData?.baseLatex;
+    const source = eq.source ?? (typeof baseLatex === 'string' ? baseLatex : undefined);
+    equations.push({
+      id: eq.id,
+      latex: eq.latex,
+      label: eq.label || `imported${equations.length + 1}`,
+      ...(source !== undefined ? { source } : {}),
+      ...(eq.id in modifiedSinceExport ? { modifiedSinceExport: modifiedSinceExport[eq.id] } : {}),
+    });
+  }
 
-    if (equations.length === 0 && !metadataMatch) {
-      errors.push('No LaTeX equations found in SVG');
-    }
+  // Equations without metadata (other exports pasted in, or metadata stripped by an editor)
+  for (const eq of attributeEquations) {
+    equations.push(importedEquation(eq.latex, equations.length, eq.id ? { id: eq.id } : {}));
+  }
 
-    return {
-      hasMetadata: false,
-      equations,
-      errors,
-    };
-  } catch (error) {
-    return {
-      hasMetadata: false,
-      equations: [],
-      errors: [error instanceof Error ? error.message : String(error)],
-    };
+  // SVGs of other equation tools (LaTeX sources embedded by LaTeXiT, TexText, MathJax), or LaTeX
+  // rebuilt from the MathJax output when nothing else is left
+  const adapted = equations.length === 0 ? importWithAdapters(svgContent) : undefined;
+  if (adapted) {
+    equations.push(...adapted.equations);
+  } else if (equations.length === 0 && report.metadataBlocks === 0) {
+    errors.push('No LaTeX equations found in SVG');
   }
+
+  return {
+    hasMetadata: metadata !== undefined,
+    metadata,
+    format: adapted?.format ?? (equations.length > 0 ? 'mathedit' : undefined),
+    ...(equations.some((eq) => eq.approximate) ? { approximate: true } : {}),
+    equations,
+    report,
+    errors,
+  };
 }
 
 /**
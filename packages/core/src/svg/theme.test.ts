@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateSVG } from '../renderer/generator';
+import { applySvgTheme, darkThemeStyle, hasColorTheme, splitColorOpacity } from './theme';
+
+// The renderer uses the browser adaptor; MathJax's lite adaptor draws the same SVG in node
+vi.mock('mathjax-full/js/adaptors/browserAdaptor', async () => ({
+  browserAdaptor: (await import('mathjax-full/js/adaptors/liteAdaptor')).liteAdaptor,
+}));
+
+describe('darkThemeStyle', () => {
+  it('swaps fills and strokes of the light colors under prefers-color-scheme: dark', () => {
+    const style = darkThemeStyle({ '#000000': '#ffffff', '#FF0000': '#ff888880', invalid: '#123456' }, 's1');
+    expect(style).toContain('@media (prefers-color-scheme: dark) {');
+    expect(style).toContain('svg[data-theme-scope="s1"] [fill="#000000"] { fill: #ffffff; fill-opacity: 1; }');
+    expect(style).toContain('svg[data-theme-scope="s1"] [stroke="#ff0000"] { stroke: #ff8888; stroke-opacity: 0.502; }');
+    expect(style).not.toContain('invalid');
+    expect(darkThemeStyle({}, 's1')).toBe('');
+  });
+});
+
+describe('applySvgTheme', () => {
+  const svg = `<svg>${darkThemeStyle({ '#000000': '#ffffff' }, 's1')}<path fill="#000000"/></svg>`;
+
+  it('pins a theme-aware SVG to one theme', () => {
+    expect(hasColorTheme(svg)).toBe(true);
+    expect(applySvgTheme(svg, 'light')).toBe('<svg><path fill="#000000"/></svg>');
+
+    const dark = applySvgTheme(svg, 'dark');
+    expect(dark).not.toContain('@media');
+    expect(dark).toContain('[fill="#000000"] { fill: #ffffff; fill-opacity: 1; }');
+    expect(hasColorTheme(dark)).toBe(true);
+  });
+
+  it('leaves SVGs without a theme alone', () => {
+    expect(hasColorTheme('<svg/>')).toBe(false);
+    expect(applySvgTheme('<svg/>', 'dark')).toBe('<svg/>');
+  });
+});
+
+describe('splitColorOpacity', () => {
+  it('splits #RRGGBBAA fills and strokes into a color and an opacity', () => {
+    expect(splitColorOpacity('<path fill="#ff000080" stroke="#00ff00ff" color="#0000ff80"/>'))
+      .toBe('<path fill="#ff0000" fill-opacity="0.502" stroke="#00ff00" stroke-opacity="1" color="#0000ff80"/>');
+  });
+});
+
+describe('theme-aware SVG output', () => {
+  it('embeds the dark theme colors in the generated SVG', () => {
+    const { svg, errors } = generateSVG({
+      equations: [{ latex: 'x', displayMode: 'block' }],
+      options: { embedMetadata: false, color: '#000000', darkColors: { '#000000': '#ffffff' } },
+    });
+    expect(errors).toEqual([]);
+    expect(hasColorTheme(svg)).toBe(true);
+    const scope = svg.match(/data-theme-scope="([^"]+)"/)?.[1];
+    expect(scope).toBeDefined();
+    expect(svg).toContain(`svg[data-theme-scope="${scope}"] [fill="#000000"] { fill: #ffffff; fill-opacity: 1; }`);
+    expect(applySvgTheme(svg, 'light')).not.toContain('#ffffff');
+  });
+});
@@ -0,0 +1,60 @@
+export type SvgTheme = 'light' | 'dark';
+
+const THEME_STYLE_PATTERN = /\s*<style data-role="color-theme">[^<]*<\/style>/;
+const DARK_MEDIA_PATTERN = /(<style data-role="color-theme">)\s*@media \(prefers-color-scheme: dark\) \{([^<]*)\}\s*(<\/style>)/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}(?:[0-9a-fA-F]{2})?$/;
+
+/**
+ * Check if an SVG carries a light/dark theme style (see RenderOptions.darkColors)
+ */
+export function hasColorTheme(svg: string): boolean {
+  return THEME_STYLE_PATTERN.test(svg);
+}
+
+/**
+ * Pin a theme-aware SVG to one theme, regardless of the viewer's color scheme
+ * Used for previews and for exporting separate light and dark files
+ */
+export function applySvgTheme(svg: string, theme: SvgTheme): string {
+  if (theme === 'light') {
+    return svg.replace(THEME_STYLE_PATTERN, '');
+  }
+  return svg.replace(DARK_MEDIA_PATTERN, (_match, open: string, rules: string, close: string) =>
+    `${open}\n${rules.trimEnd()}\n  ${close}`
+  );
+}
+
+/**
+ * Split translucent #RRGGBBAA fill/stroke colors into a 6-digit color and fill-opacity/stroke-opacity,
+ * which SVG consumers such as Keynote and Illustrator understand
+ */
+export function splitColorOpacity(svg: string): string {
+  return svg.replace(/\b(fill|stroke)="#([0-9a-fA-F]{6})([0-9a-fA-F]{2})"/g, (_match, attribute, rgb, alpha) =>
+    `${attribute}="#${rgb}" ${attribute}-opacity="${Math.round((parseInt(alpha, 16) / 255) * 1000) / 1000}"`
+  );
+}
+
+/**
+ * Embedded style that swaps light theme colors for dark ones under prefers-color-scheme: dark
+ * Selectors are scoped to one SVG so SVGs inlined into the same page don't recolor each other
+ */
+export function darkThemeStyle(darkColors: Record<string, string>, scope: string): string {
+  const rules = Object.entries(darkColors)
+    .filter(([light, dark]) => HEX_COLOR_PATTERN.test(light) && HEX_COLOR_PATTERN.test(dark))
+    .flatMap(([light, dark]) => {
+      // Translucent colors are split into a 6-digit color and an opacity (see splitColorOpacity)
+      const opacity = dark.length === 9 ? Math.round((parseInt(dark.substring(7), 16) / 255) * 1000) / 1000 : 1;
+      return ['fill', 'stroke'].map((attribute) =>
+        `    svg[data-theme-scope="${scope}"] [${attribute}="${light.substring(0, 7).toLowerCase()}"] ` +
+        `{ ${attribute}: ${dark.substring(0, 7)}; ${attribute}-opacity: ${opacity}; }`
+      );
+    });
+  if (rules.length === 0) return '';
+
+  return `
+  <style data-role="color-theme">
+  @media (prefers-color-scheme: dark) {
+${rules.join('\n')}
+  }
+  </style>`;
+}
@@ -1,14 +1,42 @@
 import MonacoEditor from '@monaco-editor/react';
-import type { OnMount } from '@monaco-editor/react';
+import type { Monaco, OnMount } from '@monaco-editor/react';
 import { useRef, useEffect, useState } from 'react';
 import { useEditorStore } from '../store/editorStore';
 import { importSvg, isRunningInNative } from '../bridge/native-bridge';
 
 export function Editor() {
-  const { document, setDocument, setEditorInstance, handleCursorChange, fontSize, editorInstance } = useEditorStore();
+  const { document, setDocument, setEditorInstance, handleCursorChange, fontSize, editorInstance, diagnostics } = useEditorStore();
   const containerRef = useRef<HTMLDivElement>(null);
+  const monacoRef = useRef<Monaco | null>(null);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Show parser diagnostics as Monaco markers (parser lines/columns are 0-based)
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorInstance?.getModel();
+    if (!monaco || !model) return;
+
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+
+    monaco.editor.setModelMarkers(
+      model,
+      'mathedit-parser',
+      diagnostics.map((d) => ({
+        severity: severities[d.severity],
+        message: d.message,
+        code: d.code,
+        startLineNumber: d.startLine + 1,
+        startColumn: d.column + 1,
+        endLineNumber: d.endLine + 1,
+        endColumn: d.endColumn + 1,
+      }))
+    );
+  }, [diagnostics, editorInstance]);
+
   // Update Monaco editor font size when it changes
   useEffect(() => {
     if (editorInstance) {
@@ -72,6 +100,7 @@ export function Editor() {
 
   const handleEditorMount: OnMount = (editor, monaco) => {
     // Store editor instance
+    monacoRef.current = monaco;
     setEditorInstance(editor);
 
     // Register custom LaTeX language if not already registered
@@ -109,14 +138,15 @@ export function Editor() {
             // Square brackets
             [/[\[\]]/, 'delimiter.square'],
 
+            // Separator, optionally with a section heading (before operators, which match -)
+            [/^---+$/, 'keyword.separator'],
+            [/^---+\s*#{1,6}\s+.*$/, 'keyword.separator'],
+
             // Math operators
             [/[+\-*/=<>]/, 'operator'],
 
             // Numbers
             [/\d+/, 'number'],
-
-            // Separator
-            [/^---+$/, 'keyword.separator'],
           ],
         },
       });
@@ -174,7 +204,7 @@ export function Editor() {
         height="100%"
         defaultLanguage="latex-custom"
         value={document}
-        onChange={(value) => setDocument(value || '')}
+        onChange={(value, event) => setDocument(value || '', event.changes)}
         onMount={handleEditorMount}
         theme="latex-light"
         options={{
@@ -2,8 +2,12 @@ import { create } from 'zustand';
 import type { editor as MonacoEditor } from 'monaco-editor';
 import {
   parseDocumentWithFrontmatter,
+  parseDocumentIncremental,
+  type DocumentChange,
   type ParsedEquation,
-  type DocumentFrontmatter
+  type DocumentFrontmatter,
+  type ParseDiagnostic,
+  type SectionNode
 } from '@mathedit/core';
 import {
   notifyDocumentChanged,
@@ -21,6 +25,8 @@ interface EditorState {
   // Parsed state
   equations: ParsedEquation[];
   frontmatter: DocumentFrontmatter;
+  diagnostics: ParseDiagnostic[];
+  sections: SectionNode[];
 
   // Selection
   activeEquationId: string | null;
@@ -35,7 +41,7 @@ interface EditorState {
   debounceTimer: ReturnType<typeof setTimeout> | null;
 
   // Actions
-  setDocument: (document: string) => void;
+  setDocument: (document: string, changes?: DocumentChange[]) => void;
   setGlobalPreamble: (preamble: string) => void;
   setActiveEquation: (id: string | null) => void;
   setEditorInstance: (editor: MonacoEditor.IStandaloneCodeEditor | null) => void;
@@ -55,26 +61,42 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   globalPreamble: '',
   equations: [],
   frontmatter: {},
+  diagnostics: [],
+  sections: [],
   activeEquationId: null,
   editorInstance: null,
   fontSize: 14,
   debounceTimer: null,
 
-  setDocument: (document: string) => {
-    const { debounceTimer, equations: previousEquations } = get();
+  setDocument: (document: string, changes?: DocumentChange[]) => {
+    const {
+      debounceTimer,
+      equations: previousEquations,
+      frontmatter: previousFrontmatter,
+      diagnostics: previousDiagnostics,
+      sections: previousSections
+    } = get();
 
     // Clear existing timer
     if (debounceTimer) {
       clearTimeout(debounceTimer);
     }
 
-    // Parse immediately for UI updates
-    const { frontmatter, equations } = parseDocumentWithFrontmatter(
-      document,
-      previousEquations
-    );
-
-    set({ document, equations, frontmatter });
+    // Parse immediately for UI updates, reparsing only the touched sections for editor changes
+    const { frontmatter, equations, diagnostics, sections } = changes
+      ? parseDocumentIncremental(
+          document,
+          {
+            frontmatter: previousFrontmatter,
+            equations: previousEquations,
+            diagnostics: previousDiagnostics,
+            sections: previousSections
+          },
+          changes
+        )
+      : parseDocumentWithFrontmatter(document, previousEquations);
+
+    set({ document, equations, frontmatter, diagnostics, sections });
 
     // Debounce notification to native (and rendering)
     const timer = setTimeout(() => {
@@ -119,13 +141,15 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   loadFromNative: (document: string, globalPreamble?: string, cursorLine?: number) => {
-    const { frontmatter, equations } = parseDocumentWithFrontmatter(document);
+    const { frontmatter, equations, diagnostics, sections } = parseDocumentWithFrontmatter(document);
 
     set({
       document,
       globalPreamble: globalPreamble || '',
       equations,
       frontmatter,
+      diagnostics,
+      sections,
       activeEquationId: equations[0]?.id || null,
     });
 
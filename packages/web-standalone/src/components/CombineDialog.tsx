@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+import { exportSingleSVG, type LayoutOptions } from '@mathedit/core';
+import { useEditorStore } from '@/store';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { toast } from './ui/use-toast';
+
+interface CombineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  equationIds: string[];
+}
+
+/**
+ * Lay out several equations in one SVG and download it
+ */
+export function CombineDialog({ open, onOpenChange, equationIds }: CombineDialogProps) {
+  const combineEquations = useEditorStore((state) => state.combineEquations);
+  const [direction, setDirection] = useState<NonNullable<LayoutOptions['direction']>>('vertical');
+  const [align, setAlign] = useState<NonNullable<LayoutOptions['align']>>('relation');
+  const [gap, setGap] = useState(8);
+  const [padding, setPadding] = useState(0);
+
+  const result = useMemo(
+    () => (open ? combineEquations(equationIds, { direction, align, gap, padding }) : undefined),
+    [open, combineEquations, equationIds, direction, align, gap, padding]
+  );
+
+  const handleDownload = () => {
+    if (!result) return;
+    if (result.errors.length > 0) {
+      toast({
+        title: 'Some equations failed to render',
+        description: result.errors.join(', '),
+        variant: 'destructive',
+      });
+    }
+    exportSingleSVG('combined', result.svg);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Combine equations</DialogTitle>
+          <DialogDescription>
+            {equationIds.length} equations in one SVG, in document order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 text-sm">
+          <span className="text-muted-foreground">Layout</span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={direction}
+            onValueChange={(value) => value && setDirection(value as typeof direction)}
+          >
+            <ToggleGroupItem value="vertical">Column</ToggleGroupItem>
+            <ToggleGroupItem value="horizontal">Row</ToggleGroupItem>
+            <ToggleGroupItem value="grid">Grid</ToggleGroupItem>
+          </ToggleGroup>
+
+          <span className="text-muted-foreground">Align</span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={align}
+            onValueChange={(value) => value && setAlign(value as typeof align)}
+          >
+            <ToggleGroupItem value="left">Left</ToggleGroupItem>
+            <ToggleGroupItem value="center">Center</ToggleGroupItem>
+            <ToggleGroupItem value="right">Right</ToggleGroupItem>
+            <ToggleGroupItem value="relation" title="Line up the first =, <, \le, ...">=</ToggleGroupItem>
+          </ToggleGroup>
+
+          <span className="text-muted-foreground">Gap</span>
+          <Input
+            type="number"
+            min={0}
+            size="sm"
+            className="w-24"
+            value={gap}
+            onChange={(e) => setGap(Math.max(Number(e.target.value) || 0, 0))}
+          />
+
+          <span className="text-muted-foreground">Padding</span>
+          <Input
+            type="number"
+            min={0}
+            size="sm"
+            className="w-24"
+            value={padding}
+            onChange={(e) => setPadding(Math.max(Number(e.target.value) || 0, 0))}
+          />
+        </div>
+
+        <div className="border rounded p-4 bg-white flex items-center justify-center min-h-[80px] max-h-[50vh] overflow-auto">
+          {result ? (
+            <div className="scale-[0.6]" dangerouslySetInnerHTML={{ __html: result.svg }} />
+          ) : (
+            <span className="text-sm text-muted-foreground">Nothing to combine</span>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={!result}>
+            Download SVG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,13 +14,16 @@ import {
   DialogTitle,
 } from './ui/dialog';
 import { Button } from './ui/button';
-import { parseSvg, generateSVG, type EquationInput } from '@mathedit/core';
+import { toast } from './ui/use-toast';
+import { parseSvg, generateSVG, filterEquations, type EquationInput } from '@mathedit/core';
 
 export function EditorLayout() {
   const {
     setDocument,
     activeEquationId,
     setActiveEquation,
+    equationFilter,
+    setEquationFilter,
     addEquation,
     setEditorInstance,
     importSvgEquations,
@@ -34,6 +37,12 @@ export function EditorLayout() {
   const latexDocument = activeTab?.document ?? '';
   const parsedEquations = activeTab?.parsedEquations ?? [];
   const renderedSvgs = activeTab?.renderedSvgs ?? {};
+  const renderedVariantSvgs = activeTab?.renderedVariantSvgs ?? {};
+  const frontmatter = activeTab?.frontmatter;
+  const filteredEquations = useMemo(
+    () => filterEquations(parsedEquations, equationFilter),
+    [parsedEquations, equationFilter]
+  );
 
   // Re-render when switching tabs
   useEffect(() => {
@@ -48,6 +57,7 @@ export function EditorLayout() {
   const [duplicateLabels, setDuplicateLabels] = useState<string[]>([]);
   const [pendingNewLatex, setPendingNewLatex] = useState<string | null>(null);
   const [pendingNewId, setPendingNewId] = useState<string | null>(null);
+  const [pendingModified, setPendingModified] = useState(false);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -64,40 +74,12 @@ export function EditorLayout() {
     }
   }, []);
 
-  const handleDrop = useCallback(async (e: DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
-
-    const files = Array.from(e.dataTransfer.files);
-    const svgFile = files.find(f => f.type === 'image/svg+xml' || f.name.endsWith('.svg'));
-
-    if (svgFile) {
-      const content = await svgFile.text();
-      const { hasDuplicates, duplicateLabels } = await checkSvgForDuplicates(content);
-
-      if (hasDuplicates) {
-        // Parse the SVG to get the new equation's latex and id
-        const parsed = parseSvg(content);
-        const newLatex = parsed.equations[0]?.latex || null;
-        const newId = parsed.equations[0]?.id || null;
-
-        setPendingSvgContent(content);
-        setDuplicateLabels(duplicateLabels);
-        setPendingNewLatex(newLatex);
-        setPendingNewId(newId);
-        setImportDialogOpen(true);
-      } else {
-        await importSvgEquations(content);
-      }
-    }
-  }, [importSvgEquations, checkSvgForDuplicates]);
-
   const handleSvgImport = useCallback(async (content: string) => {
     const { hasDuplicates, duplicateLabels } = await checkSvgForDuplicates(content);
+    const parsed = parseSvg(content);
+    const modified = parsed.equations.some(eq => eq.modifiedSinceExport);
 
     if (hasDuplicates) {
-      const parsed = parseSvg(content);
       const newLatex = parsed.equations[0]?.latex || null;
       const newId = parsed.equations[0]?.id || null;
 
@@ -105,12 +87,33 @@ export function EditorLayout() {
       setDuplicateLabels(duplicateLabels);
       setPendingNewLatex(newLatex);
       setPendingNewId(newId);
+      setPendingModified(modified);
       setImportDialogOpen(true);
     } else {
       await importSvgEquations(content);
+      if (modified) {
+        toast({
+          title: 'SVG was edited after export',
+          description: 'The imported LaTeX may not match what the file shows.',
+          variant: 'destructive',
+        });
+      }
     }
   }, [importSvgEquations, checkSvgForDuplicates]);
 
+  const handleDrop = useCallback(async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    const svgFile = files.find(f => f.type === 'image/svg+xml' || f.name.endsWith('.svg'));
+
+    if (svgFile) {
+      await handleSvgImport(await svgFile.text());
+    }
+  }, [handleSvgImport]);
+
   // Read SVG from clipboard using async Clipboard API
   const readSvgFromClipboard = useCallback(async (): Promise<string | null> => {
     try {
@@ -186,6 +189,7 @@ export function EditorLayout() {
     setDuplicateLabels([]);
     setPendingNewLatex(null);
     setPendingNewId(null);
+    setPendingModified(false);
   }, [pendingSvgContent, importSvgEquations]);
 
   const handleImportCancel = useCallback(() => {
@@ -194,6 +198,7 @@ export function EditorLayout() {
     setDuplicateLabels([]);
     setPendingNewLatex(null);
     setPendingNewId(null);
+    setPendingModified(false);
   }, []);
 
   // Get current equation's latex and id for the duplicate label
@@ -211,7 +216,15 @@ export function EditorLayout() {
       if (!latex) return null;
       try {
         const input: EquationInput[] = [{ latex, displayMode: 'block' }];
-        const result = generateSVG({ equations: input, options: { embedMetadata: false } });
+        const result = generateSVG({
+          equations: input,
+          options: {
+            embedMetadata: false,
+            macros: frontmatter?.macros,
+            environments: frontmatter?.environments,
+            fontSize: frontmatter?.fontSize,
+          },
+        });
         return result.svg;
       } catch {
         return null;
@@ -222,7 +235,7 @@ export function EditorLayout() {
       current: renderPreview(currentEquationData?.latex || null),
       new: renderPreview(pendingNewLatex),
     };
-  }, [currentEquationData, pendingNewLatex]);
+  }, [currentEquationData, pendingNewLatex, frontmatter]);
 
   return (
     <div
@@ -237,7 +250,10 @@ export function EditorLayout() {
           {/* Left Sidebar - Equation List */}
           <Panel defaultSize={15} minSize={10} maxSize={25}>
             <EquationList
-              equations={parsedEquations}
+              equations={filteredEquations}
+              sections={activeTab?.sections ?? []}
+              filter={equationFilter}
+              onFilterChange={setEquationFilter}
               activeId={activeEquationId}
               onSelectEquation={setActiveEquation}
               onAddEquation={addEquation}
@@ -251,6 +267,7 @@ export function EditorLayout() {
             <LatexDocument
               key={activeTabId}
               document={latexDocument}
+              diagnostics={activeTab?.diagnostics}
               onChange={setDocument}
               onMount={(editor) => setEditorInstance(editor)}
             />
@@ -261,8 +278,10 @@ export function EditorLayout() {
           {/* Right - Preview Pane */}
           <Panel defaultSize={40} minSize={30}>
             <PreviewPane
-              equations={parsedEquations}
+              equations={filteredEquations}
+              filter={equationFilter}
               renderedSvgs={renderedSvgs}
+              renderedVariantSvgs={renderedVariantSvgs}
               activeId={activeEquationId}
               onSelectEquation={setActiveEquation}
             />
@@ -289,6 +308,13 @@ export function EditorLayout() {
             </DialogDescription>
           </DialogHeader>
 
+          {pendingModified && (
+            <p className="text-sm text-destructive">
+              This SVG was edited after it was exported. The imported LaTeX may not match what the file shows,
+              and overwriting keeps the LaTeX rather than the edits.
+            </p>
+          )}
+
           {previewSvgs && (
             <div className="space-y-4 py-4">
               <div className="space-y-2">
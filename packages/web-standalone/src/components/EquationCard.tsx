@@ -2,19 +2,26 @@ import { forwardRef } from 'react';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Download, Copy } from 'lucide-react';
-import { ParsedEquation, exportSingleSVG } from '@mathedit/core';
+import { ParsedEquation, exportSingleSVG, applySvgTheme, type SvgTheme } from '@mathedit/core';
 import { cn } from '@/lib/utils';
 import { toast } from './ui/use-toast';
+import { useEditorStore } from '@/store';
 
 interface EquationCardProps {
   equation: ParsedEquation;
   svg: string | undefined;
+  variantSvgs?: Record<string, string>;
+  theme: SvgTheme;      // Theme to preview, copies and downloads keep the theme-aware SVG
   isActive: boolean;
   onClick: () => void;
 }
 
 export const EquationCard = forwardRef<HTMLDivElement, EquationCardProps>(
-  ({ equation, svg, isActive, onClick }, ref) => {
+  ({ equation, svg, variantSvgs, theme, isActive, onClick }, ref) => {
+    const previewBackground = theme === 'dark' ? 'bg-neutral-900' : 'bg-white';
+    const setEquationDisplay = useEditorStore((state) => state.setEquationDisplay);
+    const isInline = equation.directives.display === 'inline';
+
     const handleCopySvg = async () => {
       if (!svg) return;
       try {
@@ -45,9 +52,11 @@ export const EquationCard = forwardRef<HTMLDivElement, EquationCardProps>(
       }
     };
 
+    const exportName = equation.directives.filename ?? equation.label;
+
     const handleExport = () => {
       if (!svg) return;
-      exportSingleSVG(equation.label, svg);
+      exportSingleSVG(exportName, svg);
     };
 
     return (
@@ -62,6 +71,18 @@ export const EquationCard = forwardRef<HTMLDivElement, EquationCardProps>(
         <div className="flex items-center justify-between mb-2">
           <Badge variant="secondary">{equation.label}</Badge>
           <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs text-muted-foreground"
+              title={isInline ? 'Rendered inline, aligned to the text baseline' : 'Rendered as display math'}
+              onClick={(e) => {
+                e.stopPropagation();
+                setEquationDisplay(equation.id, isInline ? 'block' : 'inline');
+              }}
+            >
+              {isInline ? 'Inline' : 'Display'}
+            </Button>
             <Button
               size="icon"
               variant="outline"
@@ -90,10 +111,10 @@ export const EquationCard = forwardRef<HTMLDivElement, EquationCardProps>(
         </div>
 
         {svg ? (
-          <div className="bg-white p-2 rounded border overflow-x-auto flex items-center justify-center">
+          <div className={cn(previewBackground, 'p-2 rounded border overflow-x-auto flex items-center justify-center')}>
             <div
               style={{ transform: 'scale(0.5)', transformOrigin: 'center' }}
-              dangerouslySetInnerHTML={{ __html: svg }}
+              dangerouslySetInnerHTML={{ __html: applySvgTheme(svg, theme) }}
             />
           </div>
         ) : (
@@ -101,6 +122,43 @@ export const EquationCard = forwardRef<HTMLDivElement, EquationCardProps>(
             Rendering...
           </div>
         )}
+
+        {/* Highlight variants strip */}
+        {equation.variants && equation.variants.length > 0 && (
+          <div className="flex gap-2 mt-2 overflow-x-auto">
+            {equation.variants.map((variant) => {
+              const variantSvg = variantSvgs?.[variant.name];
+              return (
+                <div key={variant.name} className={cn(previewBackground, 'shrink-0 border rounded p-1')}>
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <Badge variant="outline" className="text-xs">{variant.name}</Badge>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (variantSvg) exportSingleSVG(`${exportName}-${variant.name}`, variantSvg);
+                      }}
+                      disabled={!variantSvg}
+                    >
+                      <Download className="h-3 w-3 text-gray-400" />
+                    </Button>
+                  </div>
+                  {variantSvg ? (
+                    <div
+                      className="h-12 flex items-center justify-center overflow-hidden"
+                      style={{ transform: 'scale(0.35)', transformOrigin: 'center' }}
+                      dangerouslySetInnerHTML={{ __html: applySvgTheme(variantSvg, theme) }}
+                    />
+                  ) : (
+                    <div className="h-12 text-muted-foreground text-xs flex items-center">Rendering...</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     );
   }
@@ -1,11 +1,17 @@
-import { ParsedEquation } from '@mathedit/core';
+import { useState } from 'react';
+import { ParsedEquation, SectionNode } from '@mathedit/core';
 import { cn } from '@/lib/utils';
 import { Button } from './ui/button';
-import { Plus } from 'lucide-react';
+import { Input } from './ui/input';
+import { ChevronDown, ChevronRight, Combine, Plus, Search, X } from 'lucide-react';
 import { useEditorStore } from '@/store';
+import { CombineDialog } from './CombineDialog';
 
 interface EquationListProps {
-  equations: ParsedEquation[];
+  equations: ParsedEquation[];   // Equations matching the filter
+  sections: SectionNode[];
+  filter: string;
+  onFilterChange: (query: string) => void;
   activeId: string | null;
   onSelectEquation: (id: string) => void;
   onAddEquation: () => void;
@@ -13,17 +19,89 @@ interface EquationListProps {
 
 export function EquationList({
   equations,
+  sections,
+  filter,
+  onFilterChange,
   activeId,
   onSelectEquation,
   onAddEquation,
 }: EquationListProps) {
   const jumpToEquation = useEditorStore((state) => state.jumpToEquation);
+  const selectedEquationIds = useEditorStore((state) => state.selectedEquationIds);
+  const toggleEquationSelection = useEditorStore((state) => state.toggleEquationSelection);
+  const clearEquationSelection = useEditorStore((state) => state.clearEquationSelection);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [combineOpen, setCombineOpen] = useState(false);
 
-  const handleSelectEquation = (id: string) => {
+  // Ctrl/Cmd-click picks equations to combine into one SVG
+  const handleSelectEquation = (id: string, event: React.MouseEvent) => {
+    if (event.ctrlKey || event.metaKey) {
+      toggleEquationSelection(id);
+      return;
+    }
     onSelectEquation(id);
     jumpToEquation(id);
   };
 
+  const toggleSection = (section: SectionNode) => {
+    setCollapsedIds((ids) => {
+      const next = new Set(ids);
+      if (next.has(section.id)) {
+        next.delete(section.id);
+      } else {
+        next.add(section.id);
+      }
+      return next;
+    });
+  };
+
+  const equationsById = new Map(equations.map((eq) => [eq.id, eq]));
+
+  const renderEquation = (eq: ParsedEquation) => (
+    <button
+      key={eq.id}
+      className={cn(
+        'w-full text-left px-3 py-2 rounded text-sm transition-colors',
+        'hover:bg-accent',
+        activeId === eq.id && 'bg-accent font-medium',
+        selectedEquationIds.includes(eq.id) && 'ring-1 ring-primary bg-primary/10'
+      )}
+      onClick={(e) => handleSelectEquation(eq.id, e)}
+    >
+      {eq.label}
+    </button>
+  );
+
+  // While filtering, hide sections without matching equations
+  const hasEquations = (section: SectionNode): boolean =>
+    section.equationIds.some((id) => equationsById.has(id)) || section.children.some(hasEquations);
+
+  const renderSection = (section: SectionNode) => {
+    if (filter && !hasEquations(section)) return null;
+    const collapsed = collapsedIds.has(section.id);
+    const sectionEquations = section.equationIds
+      .map((id) => equationsById.get(id))
+      .filter((eq): eq is ParsedEquation => eq !== undefined);
+
+    return (
+      <div key={section.id}>
+        <button
+          className="w-full flex items-center gap-1 px-1 py-1.5 rounded text-xs font-semibold text-muted-foreground hover:bg-accent"
+          onClick={() => toggleSection(section)}
+        >
+          {collapsed ? <ChevronRight className="h-3.5 w-3.5 shrink-0" /> : <ChevronDown className="h-3.5 w-3.5 shrink-0" />}
+          <span className="truncate">{section.title}</span>
+        </button>
+        {!collapsed && (
+          <div className="pl-3 space-y-1">
+            {sectionEquations.map(renderEquation)}
+            {section.children.map(renderSection)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 border-b flex items-center justify-between">
@@ -32,29 +110,48 @@ export function EquationList({
           <Plus className="h-4 w-4" />
         </Button>
       </div>
+      <div className="p-2 border-b relative">
+        <Search className="h-3.5 w-3.5 absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filter}
+          onChange={(e) => onFilterChange(e.target.value)}
+          placeholder="Filter by label, tag or LaTeX"
+          size="sm"
+          className="pl-7"
+        />
+      </div>
       <div className="flex-1 overflow-auto p-2">
         {equations.length === 0 ? (
           <div className="text-center text-muted-foreground text-sm p-4">
-            No equations
+            {filter ? 'No matching equations' : 'No equations'}
           </div>
         ) : (
           <div className="space-y-1">
-            {equations.map((eq) => (
-              <button
-                key={eq.id}
-                className={cn(
-                  'w-full text-left px-3 py-2 rounded text-sm transition-colors',
-                  'hover:bg-accent',
-                  activeId === eq.id && 'bg-accent font-medium'
-                )}
-                onClick={() => handleSelectEquation(eq.id)}
-              >
-                {eq.label}
-              </button>
-            ))}
+            {/* Equations before the first heading, then the section tree */}
+            {equations.filter((eq) => !eq.section).map(renderEquation)}
+            {sections.map(renderSection)}
           </div>
         )}
       </div>
+      {selectedEquationIds.length > 0 && (
+        <div className="p-2 border-t flex items-center gap-1">
+          <span className="flex-1 text-xs text-muted-foreground">{selectedEquationIds.length} selected</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={selectedEquationIds.length < 2}
+            onClick={() => setCombineOpen(true)}
+          >
+            <Combine className="h-3.5 w-3.5" />
+            Combine
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Clear selection" onClick={clearEquationSelection}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+      <CombineDialog open={combineOpen} onOpenChange={setCombineOpen} equationIds={selectedEquationIds} />
     </div>
   );
 }
@@ -1,18 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
 import Editor from '@monaco-editor/react';
-import type { OnMount } from '@monaco-editor/react';
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import type { editor as MonacoEditor } from 'monaco-editor';
+import type { ParseDiagnostic, DocumentChange } from '@mathedit/core';
+
+const MARKER_OWNER = 'mathedit-parser';
 
 interface LatexDocumentProps {
   document: string;
-  onChange: (value: string) => void;
+  diagnostics?: ParseDiagnostic[];
+  onChange: (value: string, changes?: DocumentChange[]) => void;
   onMount?: OnMount;
 }
 
 export function LatexDocument({
   document,
+  diagnostics = [],
   onChange,
   onMount,
 }: LatexDocumentProps) {
+  const editorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+
+  // Show parser diagnostics as Monaco markers (parser lines/columns are 0-based)
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+
+    monaco.editor.setModelMarkers(
+      model,
+      MARKER_OWNER,
+      diagnostics.map((d) => ({
+        severity: severities[d.severity],
+        message: d.message,
+        code: d.code,
+        startLineNumber: d.startLine + 1,
+        startColumn: d.column + 1,
+        endLineNumber: d.endLine + 1,
+        endColumn: d.endColumn + 1,
+      }))
+    );
+  }, [diagnostics, isMounted]);
+
   const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setIsMounted(true);
+
     // Register custom LaTeX language if not already registered
     if (!monaco.languages.getLanguages().some((lang: { id: string }) => lang.id === 'latex-custom')) {
       monaco.languages.register({ id: 'latex-custom' });
@@ -48,14 +90,15 @@ export function LatexDocument({
             // Square brackets
             [/[\[\]]/, 'delimiter.square'],
 
+            // Separator, optionally with a section heading (before operators, which match -)
+            [/^---+$/, 'keyword.separator'],
+            [/^---+\s*#{1,6}\s+.*$/, 'keyword.separator'],
+
             // Math operators
             [/[+\-*/=<>]/, 'operator'],
 
             // Numbers
             [/\d+/, 'number'],
-
-            // Separator
-            [/^---+$/, 'keyword.separator'],
           ],
         },
       });
@@ -112,7 +155,7 @@ export function LatexDocument({
       height="100%"
       defaultLanguage="latex-custom"
       value={document}
-      onChange={(value) => onChange(value || '')}
+      onChange={(value, event) => onChange(value || '', event.changes)}
       onMount={handleEditorMount}
       theme="latex-light"
       options={{
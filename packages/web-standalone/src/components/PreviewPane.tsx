@@ -1,22 +1,29 @@
-import { useRef, useEffect } from 'react';
-import { ParsedEquation } from '@mathedit/core';
+import { useRef, useEffect, useState } from 'react';
+import { ParsedEquation, type SvgTheme } from '@mathedit/core';
+import { Moon, Sun } from 'lucide-react';
 import { EquationCard } from './EquationCard';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
 import { useEditorStore } from '@/store';
 
 interface PreviewPaneProps {
-  equations: ParsedEquation[];
+  equations: ParsedEquation[];   // Equations matching the filter
+  filter: string;
   renderedSvgs: Record<string, string>;
+  renderedVariantSvgs: Record<string, Record<string, string>>;
   activeId: string | null;
   onSelectEquation: (id: string) => void;
 }
 
 export function PreviewPane({
   equations,
+  filter,
   renderedSvgs,
+  renderedVariantSvgs,
   activeId,
   onSelectEquation,
 }: PreviewPaneProps) {
   const refs = useRef<Record<string, HTMLDivElement>>({});
+  const [theme, setTheme] = useState<SvgTheme>('light');
   const jumpToEquation = useEditorStore((state) => state.jumpToEquation);
 
   useEffect(() => {
@@ -51,7 +58,28 @@ export function PreviewPane({
 
   return (
     <div className="overflow-auto h-full p-4 space-y-4">
-      {equations.length === 0 ? (
+      {/* Preview theme-aware SVGs (frontmatter theme.dark.*) as they appear on light or dark slides */}
+      <div className="flex justify-end">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={theme}
+          onValueChange={(value) => value && setTheme(value as SvgTheme)}
+        >
+          <ToggleGroupItem value="light" aria-label="Light theme">
+            <Sun className="h-3.5 w-3.5" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="dark" aria-label="Dark theme">
+            <Moon className="h-3.5 w-3.5" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      {equations.length === 0 && filter ? (
+        <div className="text-center text-muted-foreground p-8">
+          <p>No equations match "{filter}".</p>
+        </div>
+      ) : equations.length === 0 ? (
         <div className="text-center text-muted-foreground p-8">
           <p>No equations yet.</p>
           <p className="text-sm">Add equations to your LaTeX document separated by ---</p>
@@ -65,6 +93,8 @@ export function PreviewPane({
             }}
             equation={eq}
             svg={renderedSvgs[eq.id]}
+            variantSvgs={renderedVariantSvgs[eq.id]}
+            theme={theme}
             isActive={eq.id === activeId}
             onClick={() => handleSelectEquation(eq.id)}
           />
@@ -1,6 +1,14 @@
-import { Menu, FolderOpen, Save, Download, FileUp, FilePlus, Clipboard, Lightbulb } from 'lucide-react';
+import { Menu, FolderOpen, Save, Download, FileUp, FilePlus, Clipboard, Lightbulb, Palette } from 'lucide-react';
 import { useEditorStore } from '@/store';
-import { openProjectFromInput, downloadProject, exportAllSVGs, importSvgFromInput } from '@mathedit/core';
+import {
+  openProjectFromInput,
+  downloadProject,
+  exportAllSVGs,
+  exportSingleSVG,
+  generateLegendSVG,
+  importSvgFromInput,
+  filterEquations,
+} from '@mathedit/core';
 import { toast } from './ui/use-toast';
 import { Button } from './ui/button';
 import {
@@ -27,6 +35,7 @@ export function Toolbar({ onImportSvgFromClipboard }: ToolbarProps) {
     getActiveTab,
     addTab,
     renderAll,
+    equationFilter,
   } = useEditorStore();
 
   const activeTab = getActiveTab();
@@ -62,10 +71,12 @@ export function Toolbar({ onImportSvgFromClipboard }: ToolbarProps) {
     }
   };
 
+  // With an active filter only the equations shown in the list are exported
   const handleExportAll = async () => {
     if (!activeTab) return;
     try {
-      await exportAllSVGs(activeTab.parsedEquations, activeTab.renderedSvgs);
+      const equations = filterEquations(activeTab.parsedEquations, equationFilter);
+      await exportAllSVGs(equations, activeTab.renderedSvgs, activeTab.renderedVariantSvgs, activeTab.frontmatter.theme);
       toast({ title: 'SVGs exported successfully' });
     } catch (error) {
       toast({
@@ -76,6 +87,28 @@ export function Toolbar({ onImportSvgFromClipboard }: ToolbarProps) {
     }
   };
 
+  // Legend of the described presets (describe.name: text) for the slides
+  const handleExportLegend = () => {
+    if (!activeTab) return;
+    try {
+      const result = generateLegendSVG(activeTab.frontmatter, {
+        globalPreamble: activeTab.globalPreamble,
+        embedMetadata: false,
+      });
+      if (result.errors.length > 0) {
+        throw new Error(result.errors.join(', '));
+      }
+      exportSingleSVG('legend', result.svg);
+      toast({ title: 'Legend exported successfully' });
+    } catch (error) {
+      toast({
+        title: 'Failed to export legend',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleImportSvg = async () => {
     try {
       const svgContent = await importSvgFromInput();
@@ -161,13 +194,18 @@ export function Toolbar({ onImportSvgFromClipboard }: ToolbarProps) {
               <Clipboard className="size-4" />
               Import SVG from Clipboard...
             </MenubarItem>
+            <MenubarSeparator />
+            <MenubarItem onClick={handleExportLegend} disabled={!activeTab?.frontmatter.descriptions}>
+              <Palette className="size-4" />
+              Export Color Legend
+            </MenubarItem>
           </MenubarContent>
         </MenubarMenu>
       </Menubar>
       <TabBar />
       <Button onClick={handleExportAll} variant="outline" size="sm" className="mx-3 my-1" disabled={!activeTab}>
         <Download className="size-4" />
-        Export All
+        {equationFilter.trim() ? 'Export Filtered' : 'Export All'}
       </Button>
     </div>
   );
@@ -5,5 +5,6 @@ export { EquationList } from './EquationList';
 export { LatexDocument } from './LatexDocument';
 export { PreviewPane } from './PreviewPane';
 export { EquationCard } from './EquationCard';
+export { CombineDialog } from './CombineDialog';
 export { Toaster } from './ui/toaster';
 export { toast } from './ui/use-toast';
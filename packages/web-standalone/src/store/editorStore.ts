@@ -3,13 +3,33 @@ import type { editor as MonacoEditor } from 'monaco-editor';
 import {
   ParsedEquation,
   parseDocumentWithFrontmatter,
+  parseDocumentIncremental,
   DocumentFrontmatter,
+  ParseDiagnostic,
   MathEditClient,
   ProjectData,
   createProjectData,
   importSvg,
+  parseSvg,
   generateSVG,
+  insertEquation,
+  replaceEquation,
+  relabelEquation,
+  setEquationColor,
+  setEquationDirective,
+  updateFrontmatter,
+  frontmatterEntries,
+  darkThemeColors,
+  formatFontSize,
   type EquationInput,
+  type GenerateSVGResult,
+  type LayoutOptions,
+  type RenderOptions,
+  type EquationVariant,
+  type DocumentChange,
+  type ParsedDocument,
+  type SectionNode,
+  type SVGMetadata,
 } from '@mathedit/core';
 
 // localStorage persistence
@@ -23,9 +43,14 @@ export interface Tab {
   globalPreamble: string;
   parsedEquations: ParsedEquation[];
   frontmatter: DocumentFrontmatter;
+  diagnostics: ParseDiagnostic[];
+  sections: SectionNode[];
   renderedSvgs: Record<string, string>;
+  renderedVariantSvgs: Record<string, Record<string, string>>;  // equation id -> variant name -> svg
   previousEquations: Map<string, string>;
+  pendingChangedIds: string[] | null;  // Equations changed since the last render, null if unknown
   previousFrontmatterColor: string | undefined;
+  previousFrontmatterDefinitions: string | undefined;
   isDirty: boolean;
 }
 
@@ -72,6 +97,8 @@ interface EditorState {
 
   // Active equation within current tab
   activeEquationId: string | null;
+  equationFilter: string;  // Search query for the equation list and preview (see matchesEquationQuery)
+  selectedEquationIds: string[];  // Equations picked in the list to combine into one SVG
 
   // Monaco Editor
   editorInstance: MonacoEditor.IStandaloneCodeEditor | null;
@@ -92,16 +119,21 @@ interface EditorState {
   renameTab: (id: string, newName: string) => void;
 
   // Document actions (operate on active tab)
-  setDocument: (doc: string) => void;
+  setDocument: (doc: string, changes?: DocumentChange[]) => void;
   setActiveEquation: (id: string | null) => void;
+  setEquationFilter: (query: string) => void;
   setGlobalPreamble: (preamble: string) => void;
   addEquation: () => void;
+  setEquationDisplay: (id: string, display: 'inline' | 'block') => void;
+  toggleEquationSelection: (id: string) => void;
+  clearEquationSelection: () => void;
 
   // Render actions
   renderAll: () => Promise<void>;
   renderOne: (id: string) => Promise<void>;
   renderChanged: () => Promise<void>;
   setAutoRender: (enabled: boolean) => void;
+  combineEquations: (ids: string[], layout: LayoutOptions) => GenerateSVGResult | undefined;
 
   // Editor instance
   setEditorInstance: (editor: MonacoEditor.IStandaloneCodeEditor | null) => void;
@@ -149,13 +181,161 @@ function createTab(options?: { id?: string; fileName?: string; sourceFileName?:
     globalPreamble: options?.globalPreamble ?? '',
     parsedEquations: parsed.equations,
     frontmatter: parsed.frontmatter,
+    diagnostics: parsed.diagnostics,
+    sections: parsed.sections,
     renderedSvgs: {},
+    renderedVariantSvgs: {},
     previousEquations: new Map(),
+    pendingChangedIds: null,
     previousFrontmatterColor: undefined,
+    previousFrontmatterDefinitions: undefined,
     isDirty: false,
   };
 }
 
+/**
+ * Serialize frontmatter macros/environments, the theme, font size and frame so changes that affect every equation can be detected
+ */
+function serializeDefinitions(frontmatter: DocumentFrontmatter): string {
+  return JSON.stringify({
+    macros: frontmatter.macros,
+    environments: frontmatter.environments,
+    theme: frontmatter.theme,
+    fontSize: frontmatter.fontSize,
+    frame: frontmatter.frame,
+  });
+}
+
+/**
+ * Generator input for an equation (or one of its highlight variants), honouring its directive comments
+ */
+function equationInput(eq: ParsedEquation, variant?: EquationVariant): EquationInput {
+  return {
+    id: eq.id,
+    latex: variant?.latex ?? eq.latex,
+    source: eq.source,
+    displayMode: eq.directives.display ?? 'block',
+    label: eq.label,
+    scale: eq.directives.scale,
+    fontSize: eq.directives.fontSize,
+    padding: eq.directives.padding,
+    color: eq.color,
+    backgroundColor: eq.directives.background,
+    cornerRadius: eq.directives.radius,
+    border: eq.directives.border,
+    shadow: eq.directives.shadow,
+    customData: variant || eq.directives.tags || eq.baseLatex
+      ? {
+          ...(variant ? { variant: variant.name } : {}),
+          ...(eq.directives.tags ? { tags: eq.directives.tags } : {}),
+          ...(eq.baseLatex ? { baseLatex: eq.baseLatex } : {}),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Generator options shared by every equation of a tab
+ */
+function renderOptions(tab: Tab): RenderOptions {
+  const darkColors = tab.frontmatter.theme?.dark ? darkThemeColors(tab.frontmatter) : undefined;
+  return {
+    globalPreamble: tab.globalPreamble,
+    macros: tab.frontmatter.macros,
+    environments: tab.frontmatter.environments,
+    highlights: tab.frontmatter.highlights,
+    colorPresets: tab.frontmatter.colorPresets,
+    documentColor: tab.frontmatter.color,
+    fontSize: tab.frontmatter.fontSize,
+    backgroundColor: tab.frontmatter.frame?.background,
+    padding: tab.frontmatter.frame?.padding,
+    cornerRadius: tab.frontmatter.frame?.radius,
+    border: tab.frontmatter.frame?.border,
+    shadow: tab.frontmatter.frame?.shadow,
+    embedMetadata: true,
+    // A dark theme can only swap colors that are set explicitly, so default to black
+    color: tab.frontmatter.color || (darkColors ? '#000000' : undefined),
+    darkColors,
+  };
+}
+
+/**
+ * Render a single equation (or one of its highlight variants)
+ */
+function renderEquation(tab: Tab, eq: ParsedEquation, variant?: EquationVariant) {
+  return generateSVG({
+    equations: [equationInput(eq, variant)],
+    options: { ...renderOptions(tab), verticalAlign: eq.directives.display === 'inline' },
+  });
+}
+
+/**
+ * Render every highlight variant of an equation, keyed by variant name
+ */
+function renderVariants(tab: Tab, eq: ParsedEquation): Record<string, string> {
+  const svgs: Record<string, string> = {};
+  for (const variant of eq.variants ?? []) {
+    const result = renderEquation(tab, eq, variant);
+    if (result.errors.length > 0) {
+      console.error(`Errors rendering ${eq.label} (${variant.name}):`, result.errors);
+    }
+    svgs[variant.name] = result.svg;
+  }
+  return svgs;
+}
+
+/**
+ * Everything that affects an equation's rendered output, for change detection
+ */
+function renderSource(eq: ParsedEquation): string {
+  return [
+    eq.color ?? '',
+    eq.directives.fontSize ? formatFontSize(eq.directives.fontSize) : '',
+    eq.directives.display ?? '',
+    JSON.stringify([eq.directives.padding, eq.directives.background, eq.directives.radius, eq.directives.border, eq.directives.shadow]),
+    eq.latex,
+    ...(eq.variants ?? []).map((variant) => variant.latex),
+  ].join('\n');
+}
+
+/**
+ * Add macro/environment definitions, color presets and highlight rules from imported SVG metadata
+ * to the document frontmatter, and its color and frame if `restoreColor` is set and the document has none
+ * Definitions already present in the document are kept as-is
+ */
+function restoreFrontmatterDefinitions(
+  doc: string,
+  metadata: SVGMetadata | undefined,
+  restoreColor: boolean
+): string {
+  if (!metadata) return doc;
+
+  const { frontmatter } = parseDocumentWithFrontmatter(doc);
+  const colorPresets = Object.entries(metadata.colorPresets ?? {}).filter(([name]) => !frontmatter.colorPresets?.[name]);
+  const macros = Object.entries(metadata.macros ?? {}).filter(([name]) => !frontmatter.macros?.[name]);
+  const environments = Object.entries(metadata.environments ?? {}).filter(([name]) => !frontmatter.environments?.[name]);
+  const highlights = (metadata.highlights ?? [])
+    .filter((rule) => !frontmatter.highlights?.some((existing) => existing.token === rule.token));
+  const frame = restoreColor && !frontmatter.frame && metadata.frame
+    ? {
+        background: metadata.frame.backgroundColor,
+        padding: metadata.frame.padding,
+        radius: metadata.frame.cornerRadius,
+        border: metadata.frame.border,
+        shadow: metadata.frame.shadow,
+      }
+    : undefined;
+
+  return updateFrontmatter(doc, frontmatterEntries({
+    color: restoreColor && !frontmatter.color ? metadata.color : undefined,
+    frame,
+    colorPresets: Object.fromEntries(colorPresets),
+    macros: Object.fromEntries(macros),
+    environments: Object.fromEntries(environments),
+    highlights,
+  }));
+}
+
 function persistState(state: { tabs: Tab[]; activeTabId: string | null; tabOrder: string[] }) {
   const persistedTabs: PersistedTab[] = state.tabs.map((tab) => ({
     id: tab.id,
@@ -181,6 +361,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   activeTabId: initialTab.id,
   tabOrder: [initialTab.id],
   activeEquationId: null,
+  equationFilter: '',
+  selectedEquationIds: [],
   editorInstance: null,
   isRendering: false,
   renderError: null,
@@ -234,7 +416,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   setActiveTab: (id) => {
-    set({ activeTabId: id, activeEquationId: null });
+    set({ activeTabId: id, activeEquationId: null, selectedEquationIds: [] });
   },
 
   reorderTabs: (fromId, toId) => {
@@ -263,19 +445,40 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   },
 
   // Document actions
-  setDocument: (doc: string) => {
+  setDocument: (doc: string, changes?: DocumentChange[]) => {
     const { activeTabId, tabs, autoRender } = get();
     if (!activeTabId) return;
 
     const tab = tabs.find((t) => t.id === activeTabId);
     if (!tab) return;
 
-    const parsed = parseDocumentWithFrontmatter(doc, tab.parsedEquations);
+    // Editor changes only reparse the touched sections and report which equations changed
+    let parsed: ParsedDocument;
+    let pendingChangedIds: string[] | null = null;
+    if (changes) {
+      const previous = {
+        frontmatter: tab.frontmatter,
+        equations: tab.parsedEquations,
+        diagnostics: tab.diagnostics,
+        sections: tab.sections,
+      };
+      const result = parseDocumentIncremental(doc, previous, changes);
+      parsed = result;
+      if (tab.pendingChangedIds) {
+        pendingChangedIds = [...new Set([...tab.pendingChangedIds, ...result.changedIds])];
+      }
+    } else {
+      parsed = parseDocumentWithFrontmatter(doc, tab.parsedEquations);
+    }
+
     const updatedTab: Tab = {
       ...tab,
       document: doc,
       parsedEquations: parsed.equations,
       frontmatter: parsed.frontmatter,
+      diagnostics: parsed.diagnostics,
+      sections: parsed.sections,
+      pendingChangedIds,
       isDirty: true,
     };
 
@@ -307,6 +510,10 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     set({ activeEquationId: id });
   },
 
+  setEquationFilter: (query: string) => {
+    set({ equationFilter: query });
+  },
+
   setGlobalPreamble: (preamble: string) => {
     const { activeTabId } = get();
     if (!activeTabId) return;
@@ -325,9 +532,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     const tab = get().getActiveTab();
     if (!tab) return;
 
-    const current = tab.document;
-    const newDoc = current + (current.endsWith('\n') ? '' : '\n') + '\n---\n\n';
-    get().setDocument(newDoc);
+    get().setDocument(insertEquation(tab.document, ''));
 
     // Focus editor and position cursor at the new equation
     const { editorInstance } = get();
@@ -350,33 +555,22 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     try {
       const svgs: Record<string, string> = {};
+      const variantSvgs: Record<string, Record<string, string>> = {};
       const equationMap = new Map<string, string>();
 
       for (const eq of tab.parsedEquations) {
         try {
-          const color = eq.color || tab.frontmatter.color;
-          const equations: EquationInput[] = [{
-            id: eq.id,
-            latex: eq.latex,
-            displayMode: 'block',
-            label: eq.label,
-          }];
-
-          const result = generateSVG({
-            equations,
-            options: {
-              globalPreamble: tab.globalPreamble,
-              embedMetadata: true,
-              color,
-            },
-          });
+          const result = renderEquation(tab, eq);
 
           if (result.errors.length > 0) {
             console.error(`Errors rendering ${eq.label}:`, result.errors);
           }
 
           svgs[eq.id] = result.svg;
-          equationMap.set(eq.label, eq.latex);
+          if (eq.variants) {
+            variantSvgs[eq.id] = renderVariants(tab, eq);
+          }
+          equationMap.set(eq.label, renderSource(eq));
         } catch (error) {
           console.error(`Failed to render equation ${eq.label}:`, error);
         }
@@ -388,8 +582,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
             ? {
                 ...t,
                 renderedSvgs: svgs,
+                renderedVariantSvgs: variantSvgs,
                 previousEquations: equationMap,
+                pendingChangedIds: [],
                 previousFrontmatterColor: tab.frontmatter.color,
+                previousFrontmatterDefinitions: serializeDefinitions(tab.frontmatter),
               }
             : t
         ),
@@ -403,11 +600,52 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }
   },
 
+  setEquationDisplay: (id: string, display: 'inline' | 'block') => {
+    const tab = get().getActiveTab();
+    if (!tab) return;
+
+    const index = tab.parsedEquations.findIndex((eq) => eq.id === id);
+    if (index === -1) return;
+
+    // Block is the default, so switching back removes the directive
+    get().setDocument(setEquationDirective(tab.document, index, 'display', display === 'inline' ? 'inline' : undefined));
+  },
+
+  toggleEquationSelection: (id: string) => {
+    set((state) => ({
+      selectedEquationIds: state.selectedEquationIds.includes(id)
+        ? state.selectedEquationIds.filter((selectedId) => selectedId !== id)
+        : [...state.selectedEquationIds, id],
+    }));
+  },
+
+  clearEquationSelection: () => {
+    set({ selectedEquationIds: [] });
+  },
+
+  // Equations are combined in document order, each keeping its own directives
+  combineEquations: (ids: string[], layout: LayoutOptions) => {
+    const tab = get().getActiveTab();
+    if (!tab) return undefined;
+
+    const equations = tab.parsedEquations.filter((eq) => ids.includes(eq.id));
+    if (equations.length === 0) return undefined;
+
+    return generateSVG({
+      equations: equations.map((eq) => equationInput(eq)),
+      options: { ...renderOptions(tab), layout },
+    });
+  },
+
   renderChanged: async () => {
     const tab = get().getActiveTab();
     if (!tab) return;
 
-    if (tab.previousEquations.size === 0 || tab.frontmatter.color !== tab.previousFrontmatterColor) {
+    if (
+      tab.previousEquations.size === 0 ||
+      tab.frontmatter.color !== tab.previousFrontmatterColor ||
+      serializeDefinitions(tab.frontmatter) !== tab.previousFrontmatterDefinitions
+    ) {
       return get().renderAll();
     }
 
@@ -415,41 +653,38 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     try {
       const newSvgs = { ...tab.renderedSvgs };
+      const newVariantSvgs = { ...tab.renderedVariantSvgs };
       const newEquationMap = new Map<string, string>();
       const changedEquations: ParsedEquation[] = [];
 
+      // Use the changes reported by incremental parsing, otherwise diff against the last render
+      const pendingIds = tab.pendingChangedIds ? new Set(tab.pendingChangedIds) : null;
+
       for (const eq of tab.parsedEquations) {
-        newEquationMap.set(eq.label, eq.latex);
-        const previousLatex = tab.previousEquations.get(eq.label);
-        if (!previousLatex || previousLatex !== eq.latex || !tab.renderedSvgs[eq.id]) {
+        const source = renderSource(eq);
+        newEquationMap.set(eq.label, source);
+        const changed = pendingIds
+          ? pendingIds.has(eq.id)
+          : tab.previousEquations.get(eq.label) !== source;
+        if (changed || !tab.renderedSvgs[eq.id]) {
           changedEquations.push(eq);
         }
       }
 
       for (const eq of changedEquations) {
         try {
-          const color = eq.color || tab.frontmatter.color;
-          const equations: EquationInput[] = [{
-            id: eq.id,
-            latex: eq.latex,
-            displayMode: 'block',
-            label: eq.label,
-          }];
-
-          const result = generateSVG({
-            equations,
-            options: {
-              globalPreamble: tab.globalPreamble,
-              embedMetadata: true,
-              color,
-            },
-          });
+          const result = renderEquation(tab, eq);
 
           if (result.errors.length > 0) {
             console.error(`Errors rendering ${eq.label}:`, result.errors);
           }
 
           newSvgs[eq.id] = result.svg;
+          if (eq.variants) {
+            newVariantSvgs[eq.id] = renderVariants(tab, eq);
+          } else {
+            delete newVariantSvgs[eq.id];
+          }
         } catch (error) {
           console.error(`Failed to render equation ${eq.label}:`, error);
         }
@@ -461,11 +696,22 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           delete newSvgs[id];
         }
       });
+      Object.keys(newVariantSvgs).forEach((id) => {
+        if (!currentIds.has(id)) {
+          delete newVariantSvgs[id];
+        }
+      });
 
       set((state) => ({
         tabs: state.tabs.map((t) =>
           t.id === state.activeTabId
-            ? { ...t, renderedSvgs: newSvgs, previousEquations: newEquationMap }
+            ? {
+                ...t,
+                renderedSvgs: newSvgs,
+                renderedVariantSvgs: newVariantSvgs,
+                previousEquations: newEquationMap,
+                pendingChangedIds: [],
+              }
             : t
         ),
         isRendering: false,
@@ -539,22 +785,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     set({ isRendering: true, renderError: null });
 
     try {
-      const color = equation.color || tab.frontmatter.color;
-      const equations: EquationInput[] = [{
-        id: equation.id,
-        latex: equation.latex,
-        displayMode: 'block',
-        label: equation.label,
-      }];
-
-      const result = generateSVG({
-        equations,
-        options: {
-          globalPreamble: tab.globalPreamble,
-          embedMetadata: true,
-          color,
-        },
-      });
+      const result = renderEquation(tab, equation);
+      const variantSvgs = renderVariants(tab, equation);
 
       if (result.errors.length > 0) {
         console.error(`Errors rendering ${equation.label}:`, result.errors);
@@ -563,7 +795,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       set((state) => ({
         tabs: state.tabs.map((t) =>
           t.id === state.activeTabId
-            ? { ...t, renderedSvgs: { ...t.renderedSvgs, [id]: result.svg } }
+            ? {
+                ...t,
+                renderedSvgs: { ...t.renderedSvgs, [id]: result.svg },
+                renderedVariantSvgs: { ...t.renderedVariantSvgs, [id]: variantSvgs },
+              }
             : t
         ),
         isRendering: false,
@@ -617,54 +853,49 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     try {
       const equations = importSvg(svgContent);
-      const existingIds = new Set(tab.parsedEquations.map((eq) => eq.id));
-
+      const metadata = parseSvg(svgContent).metadata;
       let newDoc = tab.document;
+      let equationCount = tab.parsedEquations.length;
+
+      // An empty document takes over the exported frontmatter color, otherwise equations
+      // without a % color: directive get one so they keep the color they were exported with
+      const restoreColor = tab.parsedEquations.length === 0;
+      const importedColor = !restoreColor && metadata?.color !== tab.frontmatter.color ? metadata?.color : undefined;
 
       for (const eq of equations) {
-        const hasLabel = eq.label !== 'imported1';
-        const latexWithLabel = hasLabel ? eq.latex : `${eq.latex}\n\\label{${eq.label}}`;
-
-        if (existingIds.has(eq.id) && overwrite) {
-          const lines = newDoc.split('\n');
-          const existingEq = tab.parsedEquations.find((e) => e.id === eq.id);
-          if (existingEq) {
-            // Find the separator before this equation
-            let separatorLine = existingEq.startLine - 1;
-            while (separatorLine >= 0 && lines[separatorLine].trim() === '') {
-              separatorLine--;
-            }
-
-            // Check if there's a separator (---) before the equation
-            const hasSeparatorBefore = separatorLine >= 0 && /^---+$/.test(lines[separatorLine].trim());
-            const startReplaceLine = hasSeparatorBefore ? separatorLine : existingEq.startLine;
-
-            // Check if there's a separator (---) after the equation
-            let afterLine = existingEq.endLine + 1;
-            while (afterLine < lines.length && lines[afterLine].trim() === '') {
-              afterLine++;
-            }
-            const hasSeparatorAfter = afterLine < lines.length && /^---+$/.test(lines[afterLine].trim());
-            const endReplaceLine = hasSeparatorAfter ? afterLine : existingEq.endLine;
-
-            const beforeLines = lines.slice(0, startReplaceLine);
-            const afterLines = lines.slice(endReplaceLine + 1);
-
-            // Add separator with blank lines if needed
-            const replacement = hasSeparatorBefore
-              ? ['---', '', latexWithLabel, '']
-              : [latexWithLabel];
-
-            newDoc = [...beforeLines, ...replacement, ...afterLines].join('\n');
-          }
-        } else if (!existingIds.has(eq.id)) {
-          if (!newDoc.endsWith('\n\n')) {
-            newDoc += '\n\n';
-          }
-          newDoc += `---\n\n${latexWithLabel}\n\n`;
+        // The source as written when the metadata has it, otherwise the rendered LaTeX
+        const latex = eq.source ?? eq.latex;
+        // Unlabelled equations get their imported label, except the auto-generated importedN ones
+        const needsLabel = !/\\label\{/.test(latex) && !/^imported\d+$/.test(eq.label);
+        // Equations of other tools bring their own color
+        const color = eq.color
+          ?? (importedColor && eq.source !== undefined && !/^\s*%\s*color:/m.test(eq.source) ? importedColor : undefined);
+        const existingIndex = tab.parsedEquations.findIndex((e) => e.id === eq.id);
+
+        if (existingIndex !== -1 && overwrite) {
+          newDoc = replaceEquation(newDoc, existingIndex, latex);
+          if (needsLabel) newDoc = relabelEquation(newDoc, existingIndex, eq.label);
+          if (color) newDoc = setEquationColor(newDoc, existingIndex, color);
+        } else if (existingIndex === -1) {
+          newDoc = insertEquation(newDoc, latex);
+          if (needsLabel) newDoc = relabelEquation(newDoc, equationCount, eq.label);
+          if (color) newDoc = setEquationColor(newDoc, equationCount, color);
+          equationCount++;
         }
       }
 
+      // Restore frontmatter definitions the imported equations depend on
+      newDoc = restoreFrontmatterDefinitions(newDoc, metadata, restoreColor);
+
+      // Preamble lines of the imported equations that the tab does not have yet
+      const preambleLines = tab.globalPreamble.split('\n').map((line) => line.trim());
+      const missingLines = [...new Set(equations.flatMap((eq) => eq.preamble?.split('\n') ?? []))]
+        .map((line) => line.trim())
+        .filter((line) => line && !preambleLines.includes(line));
+      if (missingLines.length > 0) {
+        get().setGlobalPreamble([tab.globalPreamble.trimEnd(), ...missingLines].filter(Boolean).join('\n'));
+      }
+
       get().setDocument(newDoc);
     } catch (error) {
       set({
@@ -716,9 +947,14 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           globalPreamble: persistedTab.globalPreamble,
           parsedEquations: parsed.equations,
           frontmatter: parsed.frontmatter,
+          diagnostics: parsed.diagnostics,
+          sections: parsed.sections,
           renderedSvgs: {},
+          renderedVariantSvgs: {},
           previousEquations: new Map(),
+          pendingChangedIds: null,
           previousFrontmatterColor: undefined,
+          previousFrontmatterDefinitions: undefined,
           isDirty: persistedTab.isDirty,
         };
       });